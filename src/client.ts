@@ -2,14 +2,42 @@
  * Core HTTP client for Trinity Profiles SDK
  */
 
-import { NetworkError, TimeoutError, TrinitySDKError, createErrorFromResponse } from './errors';
-import { Environment, EnvironmentBaseUrl, SdkConfig } from './types';
+import {
+  AuthenticationError,
+  CancelledError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  TrinitySDKError,
+  createErrorFromResponse,
+  parseValidationErrors,
+} from './errors';
+import { emitTelemetry, now } from './telemetry';
+import {
+  CallOptions,
+  Environment,
+  EnvironmentBaseUrl,
+  RetryConfig,
+  SdkConfig,
+  Transport,
+} from './types';
 
 /**
  * HTTP method types
  */
 export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE' | 'OPTIONS';
 
+/**
+ * Header carrying the idempotency key of a mutation
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Header carrying the version (u_ate) a conditional update is based on
+ */
+export const IF_MATCH_HEADER = 'If-Match';
+
 /**
  * Request options
  */
@@ -19,6 +47,12 @@ export interface RequestOptions {
   body?: any;
   params?: Record<string, string | number | boolean>;
   headers?: Record<string, string>;
+  /** Caller-provided signal to cancel the request */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds, overriding the client default */
+  timeout?: number;
+  /** Set to false to send the request once, whatever the retry policy */
+  retry?: boolean;
 }
 
 /**
@@ -31,14 +65,49 @@ export interface HttpResponse<T = any> {
   headers: Record<string, string>;
 }
 
+/**
+ * Interceptor hooks run around every request attempt.
+ * Interceptors run in registration order.
+ */
+export interface HttpInterceptor {
+  /** Inspect or replace request options before the request is sent */
+  onRequest?: (options: RequestOptions) => RequestOptions | Promise<RequestOptions>;
+  /** Inspect or transform a successful response */
+  onResponse?: (
+    response: HttpResponse,
+    options: RequestOptions
+  ) => HttpResponse | Promise<HttpResponse>;
+  /** Observe a failed attempt (the error is still thrown) */
+  onError?: (error: TrinitySDKError, options: RequestOptions) => void | Promise<void>;
+}
+
+/**
+ * Retry policy with all defaults applied
+ */
+type ResolvedRetryPolicy = Required<Omit<RetryConfig, 'onRetry'>> & Pick<RetryConfig, 'onRetry'>;
+
+const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+  jitter: true,
+  maxRetryAfter: 60000,
+  retryOn: [RateLimitError, ServerError, NetworkError, TimeoutError],
+  retryMethods: ['GET', 'DELETE', 'OPTIONS'],
+};
+
 /**
  * Core HTTP client class
  */
 export class HttpClient {
   private readonly baseUrl: string;
-  private readonly accessToken: string;
+  private accessToken: string;
   private readonly timeout: number;
   private readonly config: SdkConfig;
+  private readonly retryPolicy: ResolvedRetryPolicy | null;
+  private readonly interceptors: HttpInterceptor[];
+  private readonly transport: Transport;
+  private refreshPromise: Promise<string> | null = null;
 
   constructor(config: SdkConfig) {
     this.baseUrl = (config.baseUrl || EnvironmentBaseUrl[config.env || Environment.PROD]).replace(
@@ -48,6 +117,10 @@ export class HttpClient {
     this.accessToken = config.accessToken || '';
     this.timeout = config.timeout || 30000; // 30 seconds default
     this.config = config;
+    this.retryPolicy =
+      config.retry === false ? null : { ...DEFAULT_RETRY_POLICY, ...(config.retry || {}) };
+    this.interceptors = [...(config.interceptors || [])];
+    this.transport = config.transport || ((url, init) => fetch(url, init));
   }
 
   /**
@@ -59,21 +132,167 @@ export class HttpClient {
       baseUrl: this.baseUrl,
       accessToken: this.accessToken,
       timeout: this.timeout,
+      interceptors: [...this.interceptors],
+    };
+  }
+
+  /**
+   * Replace the static access token used when no token provider is configured
+   */
+  setAccessToken(token: string): void {
+    this.accessToken = token;
+  }
+
+  /**
+   * Register an interceptor at the end of the chain
+   *
+   * @returns Function that removes the interceptor again
+   *
+   * @example
+   * ```typescript
+   * const eject = client.use({
+   *   onRequest: (options) => ({
+   *     ...options,
+   *     headers: { ...options.headers, 'x-trace-id': createTraceId() },
+   *   }),
+   * });
+   * ```
+   */
+  use(interceptor: HttpInterceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      const index = this.interceptors.indexOf(interceptor);
+      if (index !== -1) {
+        this.interceptors.splice(index, 1);
+      }
     };
   }
 
   /**
-   * Make HTTP request
+   * Get configuration that can be posted to a Web Worker (callbacks and classes stripped).
+   * The access token is resolved first because the token provider cannot be posted.
+   * The telemetry sink stays on the main thread; the worker forwards its events through messages.
+   */
+  async getWorkerConfig(): Promise<SdkConfig> {
+    await this.resolveAccessToken();
+    const config = this.getConfig();
+    delete config.interceptors;
+    delete config.getAccessToken;
+    delete config.transport;
+    delete config.indexedDB;
+    delete config.offline;
+    delete config.telemetry;
+    delete config.extrasSchema;
+    if (config.retry) {
+      const { onRetry, retryOn, ...retry } = config.retry;
+      config.retry = retry;
+    }
+    return config;
+  }
+
+  /**
+   * Make HTTP request, retrying transient failures according to the retry policy.
+   * A 401 triggers a single token refresh and replay when a token provider is configured.
    */
   async request<T = any>(options: RequestOptions): Promise<HttpResponse<T>> {
+    let attempt = 1;
+    let sent = 0;
+    let refreshed = false;
+    let token = await this.resolveAccessToken();
+
+    while (true) {
+      if (options.signal?.aborted) {
+        throw new CancelledError();
+      }
+
+      const startedAt = now();
+      sent++;
+      try {
+        const response = await this.send<T>(options, token);
+        this.emitRequestTelemetry(options, sent, startedAt, response.status);
+        return response;
+      } catch (error) {
+        this.emitRequestTelemetry(options, sent, startedAt, 0, error);
+        if (error instanceof AuthenticationError && this.config.getAccessToken && !refreshed) {
+          refreshed = true;
+          token = await this.refreshAccessToken(token);
+          continue;
+        }
+
+        const delay = this.getRetryDelay(error, options, attempt);
+        if (delay === null) {
+          throw error;
+        }
+
+        this.retryPolicy?.onRetry?.({
+          attempt,
+          maxAttempts: this.retryPolicy.maxAttempts,
+          delay,
+          error: error as TrinitySDKError,
+          method: options.method,
+          path: options.path,
+        });
+
+        await this.sleep(delay, options.signal);
+        attempt++;
+        token = await this.resolveAccessToken();
+      }
+    }
+  }
+
+  /**
+   * Perform a single request attempt through the interceptor chain
+   */
+  private async send<T>(initialOptions: RequestOptions, token: string): Promise<HttpResponse<T>> {
+    let options: RequestOptions = {
+      ...initialOptions,
+      headers: {
+        'client-id': 'pt-directory-sdk',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...initialOptions.headers,
+      },
+    };
+    for (const interceptor of this.interceptors) {
+      if (interceptor.onRequest) {
+        options = await interceptor.onRequest(options);
+      }
+    }
+
+    try {
+      let response: HttpResponse = await this.fetchResponse<T>(options);
+      for (const interceptor of this.interceptors) {
+        if (interceptor.onResponse) {
+          response = await interceptor.onResponse(response, options);
+        }
+      }
+      return response as HttpResponse<T>;
+    } catch (error) {
+      const sdkError =
+        error instanceof TrinitySDKError
+          ? error
+          : new TrinitySDKError(error instanceof Error ? error.message : 'Unknown error occurred');
+      for (const interceptor of this.interceptors) {
+        if (interceptor.onError) {
+          await interceptor.onError(sdkError, options);
+        }
+      }
+      throw sdkError;
+    }
+  }
+
+  /**
+   * Perform the fetch call and map failures to SDK errors
+   */
+  private async fetchResponse<T>(options: RequestOptions): Promise<HttpResponse<T>> {
     const url = this.buildUrl(options.path, options.params);
     const headers = this.buildHeaders(options.headers);
-    headers['client-id'] = 'pt-directory-sdk';
+
+    const abort = this.createAbortSignal(options.timeout ?? this.timeout, options.signal);
 
     const requestInit: RequestInit = {
       method: options.method,
       headers,
-      signal: this.createAbortSignal(),
+      signal: abort.signal,
       credentials: 'include',
     };
 
@@ -83,7 +302,7 @@ export class HttpClient {
     }
 
     try {
-      const response = await fetch(url, requestInit);
+      const response = await this.transport(url, requestInit);
 
       // Parse response
       let data: T;
@@ -98,7 +317,11 @@ export class HttpClient {
       // Handle error responses
       if (!response.ok) {
         const errorMessage = this.extractErrorMessage(data);
-        throw createErrorFromResponse(response.status, errorMessage, data);
+        const retryAfter =
+          response.status === 429 || response.status === 503
+            ? this.parseRetryAfter(response.headers.get('retry-after'))
+            : undefined;
+        throw createErrorFromResponse(response.status, errorMessage, data, retryAfter);
       }
 
       // Convert headers to plain object
@@ -123,10 +346,12 @@ export class HttpClient {
       }
 
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new TimeoutError('Request timeout');
+        throw abort.timedOut() ? new TimeoutError('Request timeout') : new CancelledError();
       }
 
       throw new TrinitySDKError(error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      abort.cleanup();
     }
   }
 
@@ -135,30 +360,31 @@ export class HttpClient {
    */
   async get<T = any>(
     path: string,
-    params?: Record<string, string | number | boolean>
+    params?: Record<string, string | number | boolean>,
+    options?: CallOptions & Pick<RequestOptions, 'retry'>
   ): Promise<HttpResponse<T>> {
-    return this.request<T>({ method: 'GET', path, params });
+    return this.request<T>({ method: 'GET', path, params, ...options });
   }
 
   /**
    * POST request
    */
-  async post<T = any>(path: string, body?: any): Promise<HttpResponse<T>> {
-    return this.request<T>({ method: 'POST', path, body });
+  async post<T = any>(path: string, body?: any, options?: CallOptions): Promise<HttpResponse<T>> {
+    return this.request<T>({ method: 'POST', path, body, ...options });
   }
 
   /**
    * PATCH request
    */
-  async patch<T = any>(path: string, body?: any): Promise<HttpResponse<T>> {
-    return this.request<T>({ method: 'PATCH', path, body });
+  async patch<T = any>(path: string, body?: any, options?: CallOptions): Promise<HttpResponse<T>> {
+    return this.request<T>({ method: 'PATCH', path, body, ...options });
   }
 
   /**
    * DELETE request
    */
-  async delete<T = any>(path: string): Promise<HttpResponse<T>> {
-    return this.request<T>({ method: 'DELETE', path });
+  async delete<T = any>(path: string, options?: CallOptions): Promise<HttpResponse<T>> {
+    return this.request<T>({ method: 'DELETE', path, ...options });
   }
 
   /**
@@ -188,10 +414,6 @@ export class HttpClient {
       Accept: 'application/json',
     };
 
-    if (this.accessToken) {
-      headers['Authorization'] = `Bearer ${this.accessToken}`;
-    }
-
     if (customHeaders) {
       Object.assign(headers, customHeaders);
     }
@@ -200,12 +422,178 @@ export class HttpClient {
   }
 
   /**
-   * Create abort signal for timeout
+   * Create abort signal combining the timeout and an optional caller signal.
+   * The returned cleanup must be called once the attempt settles to clear the timer.
    */
-  private createAbortSignal(): AbortSignal {
+  private createAbortSignal(
+    timeout: number,
+    callerSignal?: AbortSignal
+  ): { signal: AbortSignal; timedOut: () => boolean; cleanup: () => void } {
     const controller = new AbortController();
-    setTimeout(() => controller.abort(), this.timeout);
-    return controller.signal;
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    const onCallerAbort = () => controller.abort();
+
+    if (callerSignal?.aborted) {
+      controller.abort();
+    } else {
+      callerSignal?.addEventListener('abort', onCallerAbort);
+    }
+
+    return {
+      signal: controller.signal,
+      timedOut: () => timedOut,
+      cleanup: () => {
+        clearTimeout(timer);
+        callerSignal?.removeEventListener('abort', onCallerAbort);
+      },
+    };
+  }
+
+  /**
+   * Wait before a retry, rejecting early if the caller cancels
+   */
+  private sleep(delay: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new CancelledError());
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new CancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Report a finished HTTP attempt to the telemetry sink
+   */
+  private emitRequestTelemetry(
+    options: RequestOptions,
+    attempt: number,
+    startedAt: number,
+    status: number,
+    error?: unknown
+  ): void {
+    emitTelemetry(this.config.telemetry, {
+      type: 'http.request',
+      method: options.method,
+      path: options.path,
+      status: error instanceof TrinitySDKError ? error.statusCode || 0 : status,
+      attempt,
+      durationMs: now() - startedAt,
+      error: error instanceof Error ? error.name : undefined,
+    });
+  }
+
+  /**
+   * Get a token to replace one that a Web Worker had rejected with a 401.
+   * Without a token provider this is the token last set through setAccessToken.
+   */
+  async refreshWorkerToken(staleToken: string): Promise<string> {
+    if (!this.config.getAccessToken) {
+      return this.accessToken;
+    }
+    return this.refreshAccessToken(staleToken);
+  }
+
+  /**
+   * Get the token for the next attempt, asking the provider when one is configured
+   */
+  private async resolveAccessToken(): Promise<string> {
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+    if (this.config.getAccessToken) {
+      this.accessToken = await this.config.getAccessToken({ forceRefresh: false });
+    }
+    return this.accessToken;
+  }
+
+  /**
+   * Force a token refresh after a 401.
+   * Concurrent callers share one refresh, and a token already replaced since the
+   * failed attempt is reused instead of refreshing again.
+   */
+  private refreshAccessToken(staleToken: string): Promise<string> {
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+    if (this.accessToken !== staleToken) {
+      return Promise.resolve(this.accessToken);
+    }
+
+    this.refreshPromise = Promise.resolve(this.config.getAccessToken!({ forceRefresh: true }))
+      .then((token) => {
+        this.accessToken = token;
+        return token;
+      })
+      .finally(() => {
+        this.refreshPromise = null;
+      });
+    return this.refreshPromise;
+  }
+
+  /**
+   * Decide whether a failed attempt should be retried
+   *
+   * @returns Delay in milliseconds before the next attempt, or null to give up
+   */
+  private getRetryDelay(error: unknown, options: RequestOptions, attempt: number): number | null {
+    const policy = this.retryPolicy;
+    if (!policy || options.retry === false || attempt >= policy.maxAttempts) {
+      return null;
+    }
+    // Requests carrying an idempotency key are safe to retry regardless of method
+    const idempotent = Boolean(options.headers?.[IDEMPOTENCY_KEY_HEADER]);
+    if (!policy.retryMethods.includes(options.method) && !idempotent) {
+      return null;
+    }
+    if (!policy.retryOn.some((ErrorClass) => error instanceof ErrorClass)) {
+      return null;
+    }
+
+    // Honor server-provided Retry-After over our own backoff
+    if (error instanceof RateLimitError || error instanceof ServerError) {
+      if (error.retryAfter !== undefined) {
+        return error.retryAfter > policy.maxRetryAfter ? null : error.retryAfter;
+      }
+    }
+
+    const backoff = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+    return policy.jitter ? Math.floor(Math.random() * backoff) : backoff;
+  }
+
+  /**
+   * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+   */
+  private parseRetryAfter(value: string | null): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
   }
 
   /**
@@ -217,7 +605,19 @@ export class HttpClient {
     }
 
     if (data && typeof data === 'object') {
-      return data.error || data.message || data.detail || 'API request failed';
+      const message = [data.error, data.message, data.detail].find(
+        (value) => typeof value === 'string' && value
+      );
+      if (message) {
+        return message;
+      }
+
+      // Field-level serializer errors: summarize as "field: message"
+      const { validationErrors } = parseValidationErrors(data);
+      const summary = Object.entries(validationErrors)
+        .map(([key, messages]) => `${key}: ${messages.join(' ')}`)
+        .join('; ');
+      return summary || 'API request failed';
     }
 
     return 'API request failed';
@@ -2,24 +2,129 @@
  * Custom error classes for the Trinity Profiles SDK
  */
 
+import type {
+  Patient,
+  PatientField,
+  PatientFieldDiff,
+  PatientFieldErrors,
+  PatientMergeStep,
+  PotentialDuplicate,
+} from "./types";
+
+/**
+ * Machine-readable error codes, one per error class
+ */
+export type TrinityErrorCode =
+  | "SDK_ERROR"
+  | "AUTHENTICATION_FAILED"
+  | "ACCESS_DENIED"
+  | "VALIDATION_FAILED"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "DUPLICATE_PATIENT"
+  | "PENDING_SYNC"
+  | "MERGE_FAILED"
+  | "STORAGE_ERROR"
+  | "QUOTA_EXCEEDED"
+  | "SERVER_ERROR"
+  | "NETWORK_ERROR"
+  | "TIMEOUT"
+  | "CANCELLED"
+  | "RATE_LIMITED";
+
+/**
+ * Plain-object form of an SDK error that survives structured cloning
+ * (e.g. postMessage between a Web Worker and the main thread)
+ */
+export interface SerializedTrinityError {
+  name: string;
+  code: TrinityErrorCode;
+  message: string;
+  statusCode?: number;
+  response?: any;
+  stack?: string;
+  /** Name and message of the wrapped error */
+  cause?: { name: string; message: string };
+  /** StorageError */
+  originalName?: string;
+  /** RateLimitError / ServerError */
+  retryAfter?: number;
+  /** ValidationError */
+  validationErrors?: Record<string, string[]>;
+  fieldErrors?: PatientFieldErrors;
+  nonFieldErrors?: string[];
+  /** DuplicatePatientError */
+  matches?: PotentialDuplicate[];
+  /** ConflictError from a stale conditional update */
+  current?: Patient;
+  diff?: PatientFieldDiff[];
+  /** MergeError */
+  step?: PatientMergeStep;
+  rolledBack?: boolean;
+}
+
 /**
  * Base class for all SDK errors
  */
 export class TrinitySDKError extends Error {
   public readonly statusCode?: number;
   public readonly response?: any;
+  public readonly code: TrinityErrorCode;
+  /** Error this one wraps, e.g. the DOMException of a failed IndexedDB request */
+  public readonly cause?: unknown;
 
-  constructor(message: string, statusCode?: number, response?: any) {
+  constructor(
+    message: string,
+    statusCode?: number,
+    response?: any,
+    code: TrinityErrorCode = "SDK_ERROR",
+    options?: { cause?: unknown }
+  ) {
     super(message);
     this.name = this.constructor.name;
     this.statusCode = statusCode;
     this.response = response;
+    this.code = code;
+    this.cause = options?.cause;
     
     // Maintains proper stack trace for where our error was thrown
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, this.constructor);
     }
   }
+
+  /**
+   * Serialize to a plain object (used by JSON.stringify and postMessage)
+   */
+  toJSON(): SerializedTrinityError {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      statusCode: this.statusCode,
+      response: this.response,
+      stack: this.stack,
+      cause: describeCause(this.cause),
+    };
+  }
+
+  /**
+   * Rebuild an error of the original class from its serialized form
+   *
+   * @example
+   * ```typescript
+   * const error = TrinitySDKError.fromJSON(event.data.error);
+   * if (error instanceof AuthenticationError) { ... }
+   * ```
+   */
+  static fromJSON(json: SerializedTrinityError): TrinitySDKError {
+    const factory = ERROR_FACTORIES[json.code] || ERROR_FACTORIES.SDK_ERROR;
+    const error = factory(json);
+    if (json.stack) {
+      error.stack = json.stack;
+    }
+    return error;
+  }
 }
 
 /**
@@ -27,7 +132,7 @@ export class TrinitySDKError extends Error {
  */
 export class AuthenticationError extends TrinitySDKError {
   constructor(message: string = "Authentication failed", response?: any) {
-    super(message, 401, response);
+    super(message, 401, response, "AUTHENTICATION_FAILED");
   }
 }
 
@@ -36,7 +141,7 @@ export class AuthenticationError extends TrinitySDKError {
  */
 export class AuthorizationError extends TrinitySDKError {
   constructor(message: string = "Access denied", response?: any) {
-    super(message, 403, response);
+    super(message, 403, response, "ACCESS_DENIED");
   }
 }
 
@@ -44,11 +149,33 @@ export class AuthorizationError extends TrinitySDKError {
  * Validation error (400)
  */
 export class ValidationError extends TrinitySDKError {
+  /** All error messages keyed as returned by the server */
   public readonly validationErrors?: Record<string, string[]>;
+  /** Error messages keyed by patient field, for showing inline in forms */
+  public readonly fieldErrors: PatientFieldErrors;
+  /** Errors not tied to a single patient field */
+  public readonly nonFieldErrors: string[];
 
-  constructor(message: string, response?: any, validationErrors?: Record<string, string[]>) {
-    super(message, 400, response);
+  constructor(
+    message: string,
+    response?: any,
+    validationErrors?: Record<string, string[]>,
+    fieldErrors: PatientFieldErrors = {},
+    nonFieldErrors: string[] = []
+  ) {
+    super(message, 400, response, "VALIDATION_FAILED");
     this.validationErrors = validationErrors;
+    this.fieldErrors = fieldErrors;
+    this.nonFieldErrors = nonFieldErrors;
+  }
+
+  toJSON(): SerializedTrinityError {
+    return {
+      ...super.toJSON(),
+      validationErrors: this.validationErrors,
+      fieldErrors: this.fieldErrors,
+      nonFieldErrors: this.nonFieldErrors,
+    };
   }
 }
 
@@ -57,16 +184,119 @@ export class ValidationError extends TrinitySDKError {
  */
 export class NotFoundError extends TrinitySDKError {
   constructor(message: string = "Resource not found", response?: any) {
-    super(message, 404, response);
+    super(message, 404, response, "NOT_FOUND");
   }
 }
 
 /**
- * Conflict error (409)
+ * Conflict error (409), or failed precondition (412) of a conditional update
  */
 export class ConflictError extends TrinitySDKError {
-  constructor(message: string = "Resource conflict", response?: any) {
-    super(message, 409, response);
+  /** Server record at the time of a stale conditional update */
+  public readonly current?: Patient;
+  /** Fields of the attempted update that differ from the server record */
+  public readonly diff?: PatientFieldDiff[];
+
+  constructor(
+    message: string = "Resource conflict",
+    response?: any,
+    statusCode: number = 409,
+    conflict?: { current: Patient; diff: PatientFieldDiff[] }
+  ) {
+    super(message, statusCode, response, "CONFLICT");
+    this.current = conflict?.current;
+    this.diff = conflict?.diff;
+  }
+
+  toJSON(): SerializedTrinityError {
+    return { ...super.toJSON(), current: this.current, diff: this.diff };
+  }
+}
+
+/**
+ * Create refused because the patient probably exists already (duplicate check with action "reject")
+ */
+export class DuplicatePatientError extends TrinitySDKError {
+  /** Potential duplicates at or above the threshold, best match first */
+  public readonly matches: PotentialDuplicate[];
+
+  constructor(message: string = "Potential duplicate patient", matches: PotentialDuplicate[] = []) {
+    super(message, 409, undefined, "DUPLICATE_PATIENT");
+    this.matches = matches;
+  }
+
+  toJSON(): SerializedTrinityError {
+    return { ...super.toJSON(), matches: this.matches };
+  }
+}
+
+/**
+ * Operation on a patient created offline whose creation has not been synced yet
+ * (its provisional OID is unknown to the server)
+ */
+export class PendingSyncError extends TrinitySDKError {
+  constructor(message: string = "Patient has not been synced yet", response?: any) {
+    super(message, 0, response, "PENDING_SYNC");
+  }
+}
+
+/**
+ * Patient merge that failed at one of its write steps; `cause` is the error of that step
+ * (e.g. a ConflictError when a profile changed while merging)
+ */
+export class MergeError extends TrinitySDKError {
+  /** Step that failed */
+  public readonly step: PatientMergeStep;
+  /** Whether the steps completed before the failure were undone */
+  public readonly rolledBack: boolean;
+
+  constructor(
+    message: string = "Patient merge failed",
+    step: PatientMergeStep = "archiveDuplicate",
+    rolledBack: boolean = false,
+    cause?: unknown
+  ) {
+    super(message, cause instanceof TrinitySDKError ? cause.statusCode : undefined, undefined, "MERGE_FAILED", { cause });
+    this.step = step;
+    this.rolledBack = rolledBack;
+  }
+
+  toJSON(): SerializedTrinityError {
+    return { ...super.toJSON(), step: this.step, rolledBack: this.rolledBack };
+  }
+}
+
+/** DOMException name of an exhausted storage quota */
+const QUOTA_EXCEEDED_NAME = "QuotaExceededError";
+
+/**
+ * Local storage (IndexedDB) failure; `originalName` keeps the DOMException name
+ */
+export class StorageError extends TrinitySDKError {
+  /** Name of the underlying error, e.g. "ConstraintError" */
+  public readonly originalName: string;
+
+  constructor(
+    message: string = "Local storage operation failed",
+    originalName: string = "Error",
+    cause?: unknown,
+    code: TrinityErrorCode = "STORAGE_ERROR"
+  ) {
+    super(message, undefined, undefined, code, { cause });
+    this.originalName = originalName;
+  }
+
+  toJSON(): SerializedTrinityError {
+    return { ...super.toJSON(), originalName: this.originalName };
+  }
+}
+
+/**
+ * Browser storage quota exhausted (QuotaExceededError), e.g. while syncing the local index
+ */
+export class StorageQuotaError extends StorageError {
+  constructor(message: string = "Storage quota exceeded", cause?: unknown) {
+    super(message, QUOTA_EXCEEDED_NAME, cause, "QUOTA_EXCEEDED");
   }
 }
 
@@ -74,8 +304,16 @@ export class ConflictError extends TrinitySDKError {
  * Server error (5xx)
  */
 export class ServerError extends TrinitySDKError {
-  constructor(message: string = "Internal server error", statusCode: number = 500, response?: any) {
-    super(message, statusCode, response);
+  /** Delay in milliseconds requested by the server via Retry-After (503 only) */
+  public readonly retryAfter?: number;
+
+  constructor(message: string = "Internal server error", statusCode: number = 500, response?: any, retryAfter?: number) {
+    super(message, statusCode, response, "SERVER_ERROR");
+    this.retryAfter = retryAfter;
+  }
+
+  toJSON(): SerializedTrinityError {
+    return { ...super.toJSON(), retryAfter: this.retryAfter };
   }
 }
 
@@ -84,7 +322,7 @@ export class ServerError extends TrinitySDKError {
  */
 export class NetworkError extends TrinitySDKError {
   constructor(message: string = "Network error", response?: any) {
-    super(message, 0, response);
+    super(message, 0, response, "NETWORK_ERROR");
   }
 }
 
@@ -93,7 +331,16 @@ export class NetworkError extends TrinitySDKError {
  */
 export class TimeoutError extends TrinitySDKError {
   constructor(message: string = "Request timeout", response?: any) {
-    super(message, 408, response);
+    super(message, 408, response, "TIMEOUT");
+  }
+}
+
+/**
+ * Cancellation error (request aborted by the caller's AbortSignal)
+ */
+export class CancelledError extends TrinitySDKError {
+  constructor(message: string = "Request cancelled", response?: any) {
+    super(message, 0, response, "CANCELLED");
   }
 }
 
@@ -101,18 +348,208 @@ export class TimeoutError extends TrinitySDKError {
  * Rate limit error (429)
  */
 export class RateLimitError extends TrinitySDKError {
-  constructor(message: string = "Rate limit exceeded", response?: any) {
-    super(message, 429, response);
+  /** Delay in milliseconds requested by the server via Retry-After */
+  public readonly retryAfter?: number;
+
+  constructor(message: string = "Rate limit exceeded", response?: any, retryAfter?: number) {
+    super(message, 429, response, "RATE_LIMITED");
+    this.retryAfter = retryAfter;
+  }
+
+  toJSON(): SerializedTrinityError {
+    return { ...super.toJSON(), retryAfter: this.retryAfter };
+  }
+}
+
+/**
+ * Rebuilds each error class from its serialized form, keyed by error code
+ * (codes survive minification, class names do not)
+ */
+const ERROR_FACTORIES: Record<TrinityErrorCode, (json: SerializedTrinityError) => TrinitySDKError> = {
+  SDK_ERROR: (json) =>
+    new TrinitySDKError(json.message, json.statusCode, json.response, "SDK_ERROR", { cause: restoreCause(json.cause) }),
+  AUTHENTICATION_FAILED: (json) => new AuthenticationError(json.message, json.response),
+  ACCESS_DENIED: (json) => new AuthorizationError(json.message, json.response),
+  VALIDATION_FAILED: (json) =>
+    new ValidationError(json.message, json.response, json.validationErrors, json.fieldErrors, json.nonFieldErrors),
+  NOT_FOUND: (json) => new NotFoundError(json.message, json.response),
+  CONFLICT: (json) =>
+    new ConflictError(
+      json.message,
+      json.response,
+      json.statusCode,
+      json.current ? { current: json.current, diff: json.diff || [] } : undefined
+    ),
+  DUPLICATE_PATIENT: (json) => new DuplicatePatientError(json.message, json.matches),
+  PENDING_SYNC: (json) => new PendingSyncError(json.message, json.response),
+  MERGE_FAILED: (json) => new MergeError(json.message, json.step, json.rolledBack, restoreCause(json.cause)),
+  STORAGE_ERROR: (json) => new StorageError(json.message, json.originalName, restoreCause(json.cause)),
+  QUOTA_EXCEEDED: (json) => new StorageQuotaError(json.message, restoreCause(json.cause)),
+  SERVER_ERROR: (json) => new ServerError(json.message, json.statusCode, json.response, json.retryAfter),
+  NETWORK_ERROR: (json) => new NetworkError(json.message, json.response),
+  TIMEOUT: (json) => new TimeoutError(json.message, json.response),
+  CANCELLED: (json) => new CancelledError(json.message, json.response),
+  RATE_LIMITED: (json) => new RateLimitError(json.message, json.response, json.retryAfter),
+};
+
+/**
+ * DOMException names raised by IndexedDB requests and transactions
+ */
+const STORAGE_ERROR_NAMES: ReadonlySet<string> = new Set([
+  QUOTA_EXCEEDED_NAME, "UnknownError", "ConstraintError", "DataError", "DataCloneError",
+  "TransactionInactiveError", "ReadOnlyError", "VersionError", "InvalidStateError", "InvalidAccessError",
+]);
+
+/**
+ * Wrap any thrown value in a TrinitySDKError (SDK errors are returned unchanged).
+ * IndexedDB failures become StorageError, and quota failures StorageQuotaError; the original
+ * error is kept as `cause`.
+ */
+export function toTrinitySDKError(error: unknown): TrinitySDKError {
+  if (error instanceof TrinitySDKError) {
+    return error;
+  }
+
+  const name = (error as { name?: unknown } | null)?.name;
+  const message = error instanceof Error ? error.message : "Unknown error";
+  if (name === QUOTA_EXCEEDED_NAME) {
+    return new StorageQuotaError(message || undefined, error);
+  }
+  if (typeof name === "string" && STORAGE_ERROR_NAMES.has(name) && isDomException(error)) {
+    return new StorageError(message || undefined, name, error);
   }
+  return new TrinitySDKError(message, undefined, undefined, "SDK_ERROR", { cause: error });
+}
+
+function isDomException(error: unknown): boolean {
+  return typeof DOMException !== "undefined" && error instanceof DOMException;
+}
+
+/**
+ * Cloneable summary of a wrapped error
+ */
+function describeCause(cause: unknown): { name: string; message: string } | undefined {
+  if (cause === undefined || cause === null) {
+    return undefined;
+  }
+  return cause instanceof Error || isDomException(cause)
+    ? { name: (cause as Error).name, message: (cause as Error).message }
+    : { name: typeof cause, message: String(cause) };
+}
+
+/**
+ * Rebuild a wrapped error from its summary, keeping its name
+ */
+function restoreCause(cause: { name: string; message: string } | undefined): Error | undefined {
+  if (!cause) {
+    return undefined;
+  }
+  const error = new Error(cause.message);
+  error.name = cause.name;
+  return error;
+}
+
+/**
+ * Patient fields that server validation errors can be mapped onto
+ */
+const PATIENT_FIELDS: ReadonlySet<string> = new Set<PatientField>([
+  "gen", "dob", "fn", "mn", "ln", "fln", "ccd", "mobile", "email",
+  "username", "s", "bg", "abha", "is_age", "extras",
+]);
+
+/**
+ * Keys the server uses for errors not tied to a field
+ */
+const NON_FIELD_KEYS: ReadonlySet<string> = new Set(["non_field_errors", "__all__", "detail", "error", "errors", "message"]);
+
+/**
+ * Structured form of a validation error payload
+ */
+export interface ParsedValidationErrors {
+  /** All messages keyed as returned by the server */
+  validationErrors: Record<string, string[]>;
+  /** Messages keyed by patient field */
+  fieldErrors: PatientFieldErrors;
+  /** Messages not tied to a patient field */
+  nonFieldErrors: string[];
+}
+
+/**
+ * Parse a serializer error payload into field and non-field errors.
+ *
+ * Handles `{ field: ["msg"] }`, `{ field: "msg" }`, `{ non_field_errors: [...] }`,
+ * `{ detail: "msg" }` and payloads wrapped in `errors` or `error` objects.
+ * Nested objects are flattened with dotted keys; nested keys under a patient field are
+ * reported on that field, and other keys are reported as non-field errors prefixed with the key.
+ */
+export function parseValidationErrors(payload: any): ParsedValidationErrors {
+  const result: ParsedValidationErrors = { validationErrors: {}, fieldErrors: {}, nonFieldErrors: [] };
+
+  if (typeof payload === "string") {
+    result.nonFieldErrors.push(payload);
+    result.validationErrors.non_field_errors = [payload];
+    return result;
+  }
+  if (!payload || typeof payload !== "object") {
+    return result;
+  }
+
+  const wrapped = payload.errors ?? payload.error;
+  const source = wrapped && typeof wrapped === "object" && !Array.isArray(wrapped) ? wrapped : payload;
+
+  const collect = (key: string, value: any) => {
+    if (value === null || value === undefined || key === "code" || key === "status") {
+      return;
+    }
+    if (typeof value === "object" && !Array.isArray(value)) {
+      Object.entries(value).forEach(([childKey, childValue]) => collect(`${key}.${childKey}`, childValue));
+      return;
+    }
+
+    const messages = (Array.isArray(value) ? value : [value]).map((message) =>
+      typeof message === "string" ? message : JSON.stringify(message)
+    );
+    result.validationErrors[key] = [...(result.validationErrors[key] || []), ...messages];
+
+    const [root, ...path] = key.split(".");
+    if (PATIENT_FIELDS.has(key)) {
+      const field = key as PatientField;
+      result.fieldErrors[field] = [...(result.fieldErrors[field] || []), ...messages];
+    } else if (path.length > 0 && PATIENT_FIELDS.has(root)) {
+      // Nested field errors, e.g. "extras.clinic_code", are reported on the top-level field
+      const field = root as PatientField;
+      const nested = messages.map((message) => `${path.join(".")}: ${message}`);
+      result.fieldErrors[field] = [...(result.fieldErrors[field] || []), ...nested];
+    } else if (NON_FIELD_KEYS.has(key)) {
+      result.nonFieldErrors.push(...messages);
+    } else {
+      result.nonFieldErrors.push(...messages.map((message) => `${key}: ${message}`));
+    }
+  };
+
+  Object.entries(source).forEach(([key, value]) => collect(key, value));
+  if (source !== payload) {
+    ["detail", "message"].forEach((key) => collect(key, payload[key]));
+  }
+
+  return result;
 }
 
 /**
  * Create appropriate error based on HTTP status code
  */
-export function createErrorFromResponse(statusCode: number, message: string, response?: any): TrinitySDKError {
+export function createErrorFromResponse(statusCode: number, message: string, response?: any, retryAfter?: number): TrinitySDKError {
   switch (statusCode) {
-    case 400:
-      return new ValidationError(message, response);
+    case 400: {
+      const parsed = parseValidationErrors(response);
+      return new ValidationError(
+        message,
+        response,
+        parsed.validationErrors,
+        parsed.fieldErrors,
+        parsed.nonFieldErrors
+      );
+    }
     case 401:
       return new AuthenticationError(message, response);
     case 403:
@@ -122,12 +559,13 @@ export function createErrorFromResponse(statusCode: number, message: string, res
     case 408:
       return new TimeoutError(message, response);
     case 409:
-      return new ConflictError(message, response);
+    case 412:
+      return new ConflictError(message, response, statusCode);
     case 429:
-      return new RateLimitError(message, response);
+      return new RateLimitError(message, response, retryAfter);
     default:
       if (statusCode >= 500) {
-        return new ServerError(message, statusCode, response);
+        return new ServerError(message, statusCode, response, statusCode === 503 ? retryAfter : undefined);
       }
       return new TrinitySDKError(message, statusCode, response);
   }
@@ -0,0 +1,157 @@
+/**
+ * ABHA (Ayushman Bharat Health Account) number and address helpers.
+ *
+ * An ABHA number has 14 digits, the last being a Verhoeff check digit, and is written
+ * either plain ("91502812345673") or hyphenated ("91-5028-1234-5673").
+ * An ABHA address is a handle such as "asha.rao@abdm" ("@sbx" in the sandbox).
+ */
+
+import { AbhaKind } from '../types';
+
+const ABHA_NUMBER_LENGTH = 14;
+const ABHA_ADDRESS_DOMAINS = ['abdm', 'sbx'];
+
+/** Digits, optionally separated by hyphens or spaces */
+const NUMBER_LIKE_PATTERN = /^\d[\d\s-]*$/;
+/** 8-18 alphanumeric characters with at most one inner "." or "_" */
+const ADDRESS_HANDLE_PATTERN = /^(?=.{8,18}$)[a-z0-9]+(?:[._][a-z0-9]+)?$/;
+
+// Verhoeff dihedral group multiplication and permutation tables
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/**
+ * Check the Verhoeff check digit of a digit string (check digit last)
+ */
+export function verifyVerhoeff(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) {
+    return false;
+  }
+
+  let checksum = 0;
+  digits
+    .split('')
+    .reverse()
+    .forEach((digit, index) => {
+      checksum = VERHOEFF_D[checksum][VERHOEFF_P[index % 8][Number(digit)]];
+    });
+  return checksum === 0;
+}
+
+/**
+ * Strip hyphens and spaces from a number-like value
+ *
+ * @returns The digits, or null if the value contains anything other than digits and separators
+ */
+export function toAbhaDigits(value: string | undefined | null): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed || !NUMBER_LIKE_PATTERN.test(trimmed)) {
+    return null;
+  }
+  return trimmed.replace(/[\s-]/g, '');
+}
+
+/**
+ * Check whether a value is a valid ABHA number (14 digits with a valid check digit)
+ *
+ * @example
+ * ```typescript
+ * isAbhaNumber('91-5028-1234-5673'); // true
+ * isAbhaNumber('91-5028-1234-5674'); // false (check digit mismatch)
+ * ```
+ */
+export function isAbhaNumber(value: string): boolean {
+  const digits = toAbhaDigits(value);
+  return digits !== null && digits.length === ABHA_NUMBER_LENGTH && verifyVerhoeff(digits);
+}
+
+/**
+ * Check whether a value is a valid ABHA address (e.g. "asha.rao@abdm")
+ */
+export function isAbhaAddress(value: string): boolean {
+  const [handle, domain, ...rest] = value.trim().toLowerCase().split('@');
+  return (
+    rest.length === 0 &&
+    domain !== undefined &&
+    ABHA_ADDRESS_DOMAINS.includes(domain) &&
+    ADDRESS_HANDLE_PATTERN.test(handle)
+  );
+}
+
+/**
+ * Tell an ABHA number apart from an ABHA address
+ *
+ * @returns "number" for digit strings, "address" for handles, null for empty values.
+ * The value is classified by shape only; use isAbhaNumber/isAbhaAddress to validate it.
+ */
+export function getAbhaKind(value: string | undefined | null): AbhaKind | null {
+  if (!value?.trim()) {
+    return null;
+  }
+  return toAbhaDigits(value) !== null ? 'number' : 'address';
+}
+
+/**
+ * Normalize an ABHA number to its 14 plain digits
+ *
+ * @returns The digits, or null if the value is not a valid ABHA number
+ */
+export function normalizeAbhaNumber(value: string): string | null {
+  return isAbhaNumber(value) ? toAbhaDigits(value) : null;
+}
+
+/**
+ * Normalize an ABHA address (trimmed, lower case)
+ *
+ * @returns The address, or null if the value is not a valid ABHA address
+ */
+export function normalizeAbhaAddress(value: string): string | null {
+  return isAbhaAddress(value) ? value.trim().toLowerCase() : null;
+}
+
+/**
+ * Normalize an ABHA number or address for storage and comparison
+ *
+ * @returns Plain digits for numbers, the lower-cased address for addresses, or null if invalid
+ */
+export function normalizeAbha(value: string): string | null {
+  return getAbhaKind(value) === 'number' ? normalizeAbhaNumber(value) : normalizeAbhaAddress(value);
+}
+
+/**
+ * Format an ABHA number for display as XX-XXXX-XXXX-XXXX
+ *
+ * @returns The formatted number, or null if the value is not a valid ABHA number
+ *
+ * @example
+ * ```typescript
+ * formatAbhaNumber('91502812345673'); // '91-5028-1234-5673'
+ * ```
+ */
+export function formatAbhaNumber(value: string): string | null {
+  const digits = normalizeAbhaNumber(value);
+  if (!digits) {
+    return null;
+  }
+  return `${digits.slice(0, 2)}-${digits.slice(2, 6)}-${digits.slice(6, 10)}-${digits.slice(10)}`;
+}
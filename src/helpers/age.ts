@@ -0,0 +1,101 @@
+/**
+ * Age helpers for patients registered with an age instead of a date of birth
+ */
+
+import { ValidationError } from '../errors';
+import { AgeInput, PatientAge } from '../types';
+import { addMonths, daysBetween, formatIsoDate, parseIsoDate, startOfDay } from './date';
+
+const AGE_UNITS: (keyof PatientAge)[] = ['years', 'months', 'days'];
+
+/**
+ * Derive a conventional date of birth from an age: the reference date minus the given units
+ *
+ * @param age Age in years, months and/or days
+ * @param referenceDate Date the age was given on (default: today)
+ * @returns Date of birth as YYYY-MM-DD
+ * @throws ValidationError when no unit is given or a unit is not a non-negative integer
+ *
+ * @example
+ * ```typescript
+ * // On 2024-06-15
+ * dobFromAge({ years: 34 });    // '1990-06-15'
+ * dobFromAge({ months: 5 });    // '2024-01-15'
+ * ```
+ */
+export function dobFromAge(age: AgeInput, referenceDate: Date = new Date()): string {
+  const units = AGE_UNITS.filter((unit) => age[unit] !== undefined);
+  if (units.length === 0) {
+    throw new ValidationError('Age must include years, months or days', undefined, undefined, {}, [
+      'Age must include years, months or days',
+    ]);
+  }
+
+  const invalid = units.filter((unit) => !Number.isInteger(age[unit]) || age[unit]! < 0);
+  if (invalid.length > 0) {
+    const message = `Age ${invalid.join(', ')} must be non-negative whole numbers`;
+    throw new ValidationError(message, undefined, undefined, {}, [message]);
+  }
+
+  const { years = 0, months = 0, days = 0 } = age;
+  const dob = addMonths(startOfDay(referenceDate), -(years * 12 + months));
+  dob.setDate(dob.getDate() - days);
+  return formatIsoDate(dob);
+}
+
+/**
+ * Calculate age in calendar units from a date of birth
+ *
+ * @param dob Date of birth as YYYY-MM-DD
+ * @param referenceDate Date to calculate the age on (default: today)
+ * @returns Age, or null if the date is invalid or in the future
+ */
+export function ageFromDob(dob: string, referenceDate: Date = new Date()): PatientAge | null {
+  const birthDate = parseIsoDate(dob);
+  const today = startOfDay(referenceDate);
+  if (!birthDate || birthDate > today) {
+    return null;
+  }
+
+  let totalMonths =
+    (today.getFullYear() - birthDate.getFullYear()) * 12 + today.getMonth() - birthDate.getMonth();
+  if (addMonths(birthDate, totalMonths) > today) {
+    totalMonths--;
+  }
+
+  return {
+    years: Math.floor(totalMonths / 12),
+    months: totalMonths % 12,
+    days: daysBetween(addMonths(birthDate, totalMonths), today),
+  };
+}
+
+/**
+ * Format an age for display: years from one year up, months and days for infants
+ *
+ * @param age Age in calendar units
+ * @param approximate Prefix with "~" (for ages derived from a stated age, i.e. is_age)
+ *
+ * @example
+ * ```typescript
+ * formatAge({ years: 34, months: 2, days: 3 });      // '34 years'
+ * formatAge({ years: 0, months: 5, days: 12 });      // '5 months 12 days'
+ * formatAge({ years: 0, months: 5, days: 0 }, true); // '~5 months'
+ * ```
+ */
+export function formatAge(age: PatientAge, approximate: boolean = false): string {
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+
+  let text: string;
+  if (age.years > 0) {
+    text = plural(age.years, 'year');
+  } else if (age.months > 0) {
+    text = age.days > 0
+      ? `${plural(age.months, 'month')} ${plural(age.days, 'day')}`
+      : plural(age.months, 'month');
+  } else {
+    text = plural(age.days, 'day');
+  }
+
+  return approximate ? `~${text}` : text;
+}
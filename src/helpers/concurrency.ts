@@ -0,0 +1,43 @@
+/**
+ * Bounded concurrency for batches of async work
+ */
+
+/**
+ * Map items through an async worker with at most `limit` calls in flight, keeping result order
+ *
+ * @param items Items to process
+ * @param limit Maximum number of concurrent calls (at least 1)
+ * @param worker Async function called once per item
+ * @returns Results in the order of `items`
+ * @throws The first error thrown by a worker; items not yet started are not processed
+ *
+ * @example
+ * ```typescript
+ * const patients = await mapWithConcurrency(oids, 4, (oid) => sdk.patients.get(oid));
+ * ```
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const run = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const runners = Array.from({ length: Math.max(1, Math.min(Math.floor(limit) || 1, items.length)) }, run);
+  await Promise.all(runners);
+  return results;
+}
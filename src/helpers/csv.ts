@@ -0,0 +1,114 @@
+/**
+ * CSV parsing (RFC 4180: quoted fields, doubled quotes, CRLF or LF line endings)
+ */
+
+/**
+ * Parse CSV text into rows of fields
+ *
+ * @param text CSV text; a leading byte order mark is ignored
+ * @param delimiter Field delimiter (default: ",")
+ * @returns Rows of raw field values; blank lines are skipped
+ * @throws Error when a quoted field is not closed
+ *
+ * @example
+ * ```typescript
+ * parseCsv('name,city\n"Rao, Asha",Pune'); // [['name', 'city'], ['Rao, Asha', 'Pune']]
+ * ```
+ */
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Invalid CSV: unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Parse CSV text with a header row into records keyed by column name
+ *
+ * @param text CSV text whose first row holds the column names
+ * @param delimiter Field delimiter (default: ",")
+ * @returns One record per data row; missing trailing fields are empty strings
+ *
+ * @example
+ * ```typescript
+ * parseCsvRecords('fln,dob\nAsha Rao,1990-06-15'); // [{ fln: 'Asha Rao', dob: '1990-06-15' }]
+ * ```
+ */
+export function parseCsvRecords(text: string, delimiter: string = ','): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text, delimiter);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((column) => column.trim());
+  return rows.map((row) =>
+    Object.fromEntries(columns.map((column, index) => [column, row[index] ?? '']))
+  );
+}
+
+/**
+ * Format one CSV row, quoting fields that contain the delimiter, quotes or line breaks
+ *
+ * @param values Field values; null and undefined become empty fields
+ * @param delimiter Field delimiter (default: ",")
+ * @returns The row without a line ending
+ *
+ * @example
+ * ```typescript
+ * formatCsvRow(['Rao, Asha', 'said "hi"', undefined]); // '"Rao, Asha","said ""hi""",'
+ * ```
+ */
+export function formatCsvRow(values: unknown[], delimiter: string = ','): string {
+  return values
+    .map((value) => {
+      const text = value === undefined || value === null ? '' : String(value);
+      return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(delimiter);
+}
@@ -0,0 +1,79 @@
+/**
+ * Calendar date helpers for ISO (YYYY-MM-DD) dates.
+ *
+ * Dates are handled as local calendar dates: `new Date('YYYY-MM-DD')` parses as UTC
+ * midnight, which shows up as the previous day in timezones west of UTC.
+ */
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parse a YYYY-MM-DD string as a local date
+ *
+ * @returns Local midnight of that date, or null if the string is not a real calendar date
+ */
+export function parseIsoDate(value: string): Date | null {
+  const match = ISO_DATE_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const year = Number(match[1]);
+  const month = Number(match[2]) - 1;
+  const day = Number(match[3]);
+  const date = new Date(year, month, day);
+
+  // Reject dates that rolled over, e.g. 2023-02-30
+  if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Format a date as YYYY-MM-DD using its local calendar fields
+ */
+export function formatIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Local midnight of the given date
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Whole years between two dates (birthday-aware)
+ */
+export function yearsBetween(from: Date, to: Date): number {
+  let years = to.getFullYear() - from.getFullYear();
+  const monthDiff = to.getMonth() - from.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && to.getDate() < from.getDate())) {
+    years--;
+  }
+  return years;
+}
+
+/**
+ * Add calendar months, clamping the day to the end of the target month (e.g. Mar 31 - 1 month = Feb 28)
+ */
+export function addMonths(date: Date, months: number): Date {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(date.getDate(), lastDay));
+  return target;
+}
+
+/**
+ * Whole calendar days between two dates (DST-safe)
+ */
+export function daysBetween(from: Date, to: Date): number {
+  const fromUtc = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const toUtc = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((toUtc - fromUtc) / 86400000);
+}
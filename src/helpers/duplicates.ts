@@ -0,0 +1,339 @@
+/**
+ * Duplicate-patient scoring.
+ *
+ * A candidate is compared with a new patient field by field (name, date of birth, gender, mobile,
+ * ABHA) and gets a score from 0 to 1 with the reasons behind it.
+ */
+
+import {
+  CreatePatientData,
+  DuplicateMatchReason,
+  Patient,
+  PatientExtras,
+} from '../types';
+import { getAbhaKind, normalizeAbha } from './abha';
+import { daysBetween, parseIsoDate } from './date';
+import { composeFullName, parseFullName } from './name';
+import { toE164 } from './phone';
+
+/** Weight of each field in the score; ABHA and gender adjust the weighted score instead */
+const WEIGHTS = { name: 0.4, dob: 0.25, mobile: 0.25, gen: 0.1 };
+/** Similarity assumed for a field missing on either side */
+const UNKNOWN_SIMILARITY = 0.5;
+/** An age-derived DOB is only accurate to about a year */
+const AGE_TOLERANCE_DAYS = 366;
+/** Lowest Jaro-Winkler similarity at which two different words count as spelling variants */
+const MIN_WORD_SIMILARITY = 0.8;
+
+/**
+ * Options for duplicate scoring
+ */
+export interface DuplicateScoringOptions {
+  /** Country code assumed for mobile numbers typed without one (default: "+91") */
+  defaultCountryCode?: string;
+}
+
+/**
+ * Score how likely a stored patient is the same person as a patient about to be created
+ *
+ * @param input New patient data
+ * @param candidate Stored patient
+ * @returns Score from 0 (different people) to 1 (same person), with the compared fields as reasons
+ *
+ * @example
+ * ```typescript
+ * scorePotentialDuplicate(
+ *   { fln: 'Ramesh Kr', gen: 'M', dob: '1980-04-02', mobile: '9876543210' },
+ *   { oid: 'p1', fln: 'Ramesh Kumar', gen: 'M', dob: '1980-04-02', mobile: '9876543210' }
+ * ).score; // 0.97
+ * ```
+ */
+export function scorePotentialDuplicate<TExtras extends PatientExtras>(
+  input: CreatePatientData<TExtras>,
+  candidate: Patient<TExtras>,
+  options: DuplicateScoringOptions = {}
+): { score: number; reasons: DuplicateMatchReason[] } {
+  const reasons: DuplicateMatchReason[] = [];
+  let weighted = 0;
+
+  const weigh = (weight: number, reason: DuplicateMatchReason | null) => {
+    if (reason) {
+      reasons.push(reason);
+    }
+    weighted += weight * (reason ? reason.similarity : UNKNOWN_SIMILARITY);
+  };
+
+  weigh(WEIGHTS.name, compareNames(input.fln || composeFullName(input), candidate.fln || composeFullName(candidate)));
+  weigh(WEIGHTS.dob, compareDobs(input, candidate));
+  weigh(WEIGHTS.mobile, compareMobiles(input, candidate, options.defaultCountryCode));
+
+  const gender = input.gen && candidate.gen
+    ? input.gen === candidate.gen
+      ? { field: 'gen' as const, similarity: 1, description: 'Same gender' }
+      : { field: 'gen' as const, similarity: 0, description: 'Different gender' }
+    : null;
+  weigh(WEIGHTS.gen, gender);
+
+  let score = weighted;
+  // Family members often share a mobile number and surname; a different gender rules most of them out
+  if (gender?.similarity === 0) {
+    score *= 0.5;
+  }
+
+  const abha = compareAbha(input.abha, candidate.abha);
+  if (abha) {
+    reasons.push(abha);
+    if (abha.similarity === 1) {
+      score = Math.max(score, 0.95);
+    } else {
+      // One person has one ABHA number
+      score = Math.min(score, 0.3);
+    }
+  }
+
+  reasons.sort((a, b) => b.similarity - a.similarity);
+  return { score: round(score), reasons };
+}
+
+/**
+ * Similarity of two full names from 0 to 1.
+ * Salutations, case, punctuation and word order are ignored; initials ("R.") and abbreviations
+ * ("Kr" for "Kumar") count as near matches of the word they shorten.
+ *
+ * @example
+ * ```typescript
+ * nameSimilarity('Ramesh Kumar', 'Ramesh Kr');   // 0.93
+ * nameSimilarity('Dr. Asha Rao', 'asha rao');    // 1
+ * ```
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) {
+    return 0;
+  }
+
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const unused = [...longer];
+  let total = 0;
+
+  for (const token of shorter) {
+    let best = 0;
+    let bestIndex = -1;
+    unused.forEach((other, index) => {
+      const similarity = tokenSimilarity(token, other);
+      if (similarity > best) {
+        best = similarity;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0) {
+      unused.splice(bestIndex, 1);
+    }
+    total += best;
+  }
+
+  // Unmatched words of the longer name count against the match
+  return (2 * total) / (tokensA.length + tokensB.length);
+}
+
+/**
+ * Compare full names
+ */
+function compareNames(a: string, b: string): DuplicateMatchReason | null {
+  if (!a.trim() || !b.trim()) {
+    return null;
+  }
+
+  const similarity = round(nameSimilarity(a, b));
+  const description = similarity === 1
+    ? 'Same name'
+    : similarity >= 0.7
+      ? `Similar name ("${a.trim()}" / "${b.trim()}")`
+      : 'Different name';
+  return { field: 'name', similarity, description };
+}
+
+/**
+ * Compare dates of birth, allowing for age-derived dates and swapped day/month
+ */
+function compareDobs(
+  input: { dob?: string; is_age?: boolean },
+  candidate: { dob?: string; is_age?: boolean }
+): DuplicateMatchReason | null {
+  const a = input.dob ? parseIsoDate(input.dob) : null;
+  const b = candidate.dob ? parseIsoDate(candidate.dob) : null;
+  if (!a || !b) {
+    return null;
+  }
+
+  const days = Math.abs(daysBetween(a, b));
+  const approximate = Boolean(input.is_age || candidate.is_age);
+
+  if (days === 0) {
+    return { field: 'dob', similarity: 1, description: 'Same date of birth' };
+  }
+  if (approximate) {
+    if (days <= AGE_TOLERANCE_DAYS) {
+      return { field: 'dob', similarity: 0.9, description: 'Same age' };
+    }
+    const years = Math.round(days / 365);
+    return {
+      field: 'dob',
+      similarity: round(Math.max(0, 0.8 * (1 - (days - AGE_TOLERANCE_DAYS) / 365))),
+      description: `Ages about ${years} year${years === 1 ? '' : 's'} apart`,
+    };
+  }
+  if (a.getFullYear() === b.getFullYear() && a.getMonth() === b.getDate() - 1 && a.getDate() === b.getMonth() + 1) {
+    return { field: 'dob', similarity: 0.8, description: 'Date of birth with day and month swapped' };
+  }
+  return {
+    field: 'dob',
+    similarity: round(Math.max(0, 0.8 * (1 - days / 365))),
+    description: `Dates of birth ${days} day${days === 1 ? '' : 's'} apart`,
+  };
+}
+
+/**
+ * Compare mobile numbers in E.164 form, each with its own country code
+ */
+function compareMobiles(
+  a: { mobile?: string; ccd?: string },
+  b: { mobile?: string; ccd?: string },
+  defaultCountryCode?: string
+): DuplicateMatchReason | null {
+  if (!a.mobile || !b.mobile) {
+    return null;
+  }
+
+  const numberA = toE164(a.mobile, a.ccd, defaultCountryCode) ?? a.mobile.replace(/\D/g, '');
+  const numberB = toE164(b.mobile, b.ccd, defaultCountryCode) ?? b.mobile.replace(/\D/g, '');
+  return numberA === numberB
+    ? { field: 'mobile', similarity: 1, description: 'Same mobile number' }
+    : { field: 'mobile', similarity: 0, description: 'Different mobile number' };
+}
+
+/**
+ * Compare ABHA values. Different ABHA addresses say nothing (a person can have several),
+ * different ABHA numbers mean different people.
+ */
+function compareAbha(a: string | undefined, b: string | undefined): DuplicateMatchReason | null {
+  if (!a || !b) {
+    return null;
+  }
+
+  const normalizedA = normalizeAbha(a) ?? a.trim().toLowerCase();
+  const normalizedB = normalizeAbha(b) ?? b.trim().toLowerCase();
+  if (normalizedA === normalizedB) {
+    return { field: 'abha', similarity: 1, description: 'Same ABHA' };
+  }
+  if (getAbhaKind(a) === 'number' && getAbhaKind(b) === 'number') {
+    return { field: 'abha', similarity: 0, description: 'Different ABHA number' };
+  }
+  return null;
+}
+
+/**
+ * Lower-cased name words without salutations, diacritics or punctuation
+ */
+function nameTokens(name: string): string[] {
+  return composeFullName(parseFullName(name))
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Similarity of two name words
+ */
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter[0] === longer[0]) {
+    // Initial ("r" for "ramesh")
+    if (shorter.length === 1) {
+      return 0.8;
+    }
+    // Abbreviation ("kr" for "kumar", "md" for "mohammed")
+    if (isSubsequence(shorter, longer)) {
+      return 0.85;
+    }
+  }
+  // Below this, Jaro-Winkler mostly measures shared letters of unrelated words
+  const similarity = jaroWinkler(a, b);
+  return similarity >= MIN_WORD_SIMILARITY ? similarity : 0;
+}
+
+/**
+ * Whether the letters of `short` appear in `long` in order
+ */
+function isSubsequence(short: string, long: string): boolean {
+  let index = 0;
+  for (const char of long) {
+    if (char === short[index]) {
+      index++;
+    }
+  }
+  return index === short.length;
+}
+
+/**
+ * Jaro-Winkler string similarity (0 to 1), favouring a shared prefix; catches typos and
+ * transliteration variants ("Mohammad" / "Mohammed")
+ */
+function jaroWinkler(a: string, b: string): number {
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const matchedA = new Array<boolean>(a.length).fill(false);
+  const matchedB = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (!matchedB[j] && a[i] === b[j]) {
+        matchedA[i] = matchedB[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) {
+    return 0;
+  }
+
+  let transpositions = 0;
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!matchedA[i]) {
+      continue;
+    }
+    while (!matchedB[j]) {
+      j++;
+    }
+    if (a[i] !== b[j]) {
+      transpositions++;
+    }
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Round a score to two decimals
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
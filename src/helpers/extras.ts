@@ -0,0 +1,83 @@
+/**
+ * Runtime checks for patient extras against a registered schema
+ */
+
+import { ValidationError } from '../errors';
+import { ExtrasSchema, PatientExtras } from '../types';
+import { MERGED_FROM_EXTRAS_KEY, MERGED_INTO_EXTRAS_KEY } from './merge';
+
+/**
+ * Run extras through the schema, turning schema failures into a ValidationError on the extras field.
+ * The merge links (`mergedFrom`, `mergedInto`) are kept out of the schema, which may strip or reject them.
+ *
+ * @param schema Registered schema (no-op when undefined)
+ * @param extras Extras to check
+ * @param operation "read" for server responses, "write" for outgoing payloads (used in the message)
+ */
+export function parseExtras<TExtras extends PatientExtras>(
+  schema: ExtrasSchema<PatientExtras> | undefined,
+  extras: unknown,
+  operation: 'read' | 'write'
+): TExtras {
+  if (!schema || extras === undefined || extras === null) {
+    return extras as TExtras;
+  }
+
+  const { links, rest } = splitMergeLinks(extras);
+  try {
+    const parsed = schema.parse(rest);
+    return (Object.keys(links).length > 0 ? { ...(parsed as PatientExtras), ...links } : parsed) as TExtras;
+  } catch (error) {
+    const messages = describeSchemaError(error);
+    const message = operation === 'read'
+      ? `Patient extras returned by the server do not match the extras schema: ${messages.join('; ')}`
+      : `Patient extras do not match the extras schema: ${messages.join('; ')}`;
+    throw new ValidationError(message, undefined, { extras: messages }, { extras: messages });
+  }
+}
+
+/**
+ * Check the extras of a patient record, returning the record with the parsed extras
+ */
+export function parsePatientExtras<T extends { extras?: PatientExtras }>(
+  schema: ExtrasSchema<PatientExtras> | undefined,
+  record: T,
+  operation: 'read' | 'write'
+): T {
+  if (!schema || record?.extras === undefined) {
+    return record;
+  }
+  return { ...record, extras: parseExtras(schema, record.extras, operation) };
+}
+
+/**
+ * Separate the SDK-managed merge links from the clinic's own extras keys
+ */
+function splitMergeLinks(extras: unknown): { links: PatientExtras; rest: unknown } {
+  if (typeof extras !== 'object' || Array.isArray(extras)) {
+    return { links: {}, rest: extras };
+  }
+
+  const rest: PatientExtras = { ...(extras as PatientExtras) };
+  const links: PatientExtras = {};
+  [MERGED_FROM_EXTRAS_KEY, MERGED_INTO_EXTRAS_KEY].forEach((key) => {
+    if (key in rest) {
+      links[key] = rest[key];
+      delete rest[key];
+    }
+  });
+  return { links, rest };
+}
+
+/**
+ * Messages from a schema error; understands zod-style `issues` with paths
+ */
+function describeSchemaError(error: unknown): string[] {
+  const issues = (error as { issues?: { path?: (string | number)[]; message?: string }[] })?.issues;
+  if (Array.isArray(issues) && issues.length > 0) {
+    return issues.map((issue) =>
+      issue.path && issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : String(issue.message)
+    );
+  }
+  return [error instanceof Error ? error.message : String(error)];
+}
@@ -0,0 +1,180 @@
+/**
+ * Building the update that merges a duplicate patient profile into a survivor
+ */
+
+import {
+  MergeFieldStrategy,
+  Patient,
+  PatientExtras,
+  PatientField,
+  PatientMergeField,
+  PatientMergePlan,
+  PatientMergeStrategy,
+  UpdatePatientData,
+} from '../types';
+
+/** Extras key on the survivor listing the OIDs merged into it */
+export const MERGED_FROM_EXTRAS_KEY = 'mergedFrom';
+/** Extras key on an archived duplicate pointing at its survivor */
+export const MERGED_INTO_EXTRAS_KEY = 'mergedInto';
+
+/**
+ * Patient fields covered by each merge field group (extras are handled separately)
+ */
+const FIELD_GROUPS: Record<Exclude<PatientMergeField, 'extras'>, (keyof Patient & keyof UpdatePatientData)[]> = {
+  name: ['s', 'fn', 'mn', 'ln', 'fln'],
+  gen: ['gen'],
+  dob: ['dob', 'is_age'],
+  mobile: ['ccd', 'mobile'],
+  email: ['email'],
+  bg: ['bg'],
+  abha: ['abha'],
+};
+
+/**
+ * Build the update that merges `duplicate` into `survivor`.
+ * Only fields that change on the survivor are included; survivor values the picked duplicate does not
+ * have are listed in `remove` (flags are set to false instead). The duplicate's OID is added to the
+ * survivor's `extras.mergedFrom`. Usernames are not merged, since the duplicate keeps its own.
+ *
+ * @param survivor Profile that is kept
+ * @param duplicate Profile merged into it
+ * @param strategy Per-field-group strategies (default: prefer non-empty values of the survivor)
+ * @returns Update and removals for the survivor, and the source of each field group
+ *
+ * @example
+ * ```typescript
+ * const { update, remove, picks } = buildPatientMerge(survivor, duplicate, {
+ *   default: 'preferNewest',
+ *   fields: { name: 'survivor' },
+ * });
+ * ```
+ */
+export function buildPatientMerge<TExtras extends PatientExtras>(
+  survivor: Patient<TExtras>,
+  duplicate: Patient<TExtras>,
+  strategy: PatientMergeStrategy = {}
+): PatientMergePlan<TExtras> {
+  const strategyFor = (field: PatientMergeField): MergeFieldStrategy =>
+    strategy.fields?.[field] ?? strategy.default ?? 'preferNonEmpty';
+  const duplicateIsNewer = (duplicate.u_ate ?? 0) > (survivor.u_ate ?? 0);
+
+  const update: Record<string, unknown> = {};
+  const remove: PatientField[] = [];
+  const picks = {} as PatientMergePlan<TExtras>['picks'];
+
+  (Object.keys(FIELD_GROUPS) as (keyof typeof FIELD_GROUPS)[]).forEach((field) => {
+    const keys = FIELD_GROUPS[field];
+    const source = pickSource(
+      strategyFor(field),
+      !isEmptyGroup(survivor, keys),
+      !isEmptyGroup(duplicate, keys),
+      duplicateIsNewer
+    );
+    picks[field] = source;
+    if (source === 'survivor') {
+      return;
+    }
+
+    keys.forEach((key) => {
+      const value = duplicate[key];
+      if (!isEmpty(value)) {
+        if (value !== survivor[key]) {
+          update[key] = value;
+        }
+      } else if (!isEmpty(survivor[key])) {
+        // Clear what the duplicate does not have, e.g. a middle name
+        if (typeof survivor[key] === 'boolean') {
+          update[key] = false;
+        } else {
+          remove.push(key);
+        }
+      }
+    });
+  });
+
+  const extras = mergeExtras(survivor.extras, duplicate.extras, strategyFor('extras'), duplicateIsNewer);
+  picks.extras = extras.source;
+  const mergedFrom = [
+    ...toOidList(survivor.extras?.[MERGED_FROM_EXTRAS_KEY]),
+    ...toOidList(duplicate.extras?.[MERGED_FROM_EXTRAS_KEY]),
+    duplicate.oid,
+  ];
+  update.extras = { ...extras.value, [MERGED_FROM_EXTRAS_KEY]: [...new Set(mergedFrom)] };
+
+  return { update: update as UpdatePatientData<TExtras>, remove, picks };
+}
+
+/**
+ * Decide which profile a field group is taken from
+ */
+function pickSource(
+  strategy: MergeFieldStrategy,
+  survivorHasValue: boolean,
+  duplicateHasValue: boolean,
+  duplicateIsNewer: boolean
+): 'survivor' | 'duplicate' {
+  switch (strategy) {
+    case 'survivor':
+    case 'duplicate':
+      return strategy;
+    case 'preferNewest':
+      if (duplicateIsNewer) {
+        return duplicateHasValue || !survivorHasValue ? 'duplicate' : 'survivor';
+      }
+      return survivorHasValue || !duplicateHasValue ? 'survivor' : 'duplicate';
+    default:
+      return survivorHasValue || !duplicateHasValue ? 'survivor' : 'duplicate';
+  }
+}
+
+/**
+ * Merge extras: whole-object picks, or key by key with the preferred profile winning
+ */
+function mergeExtras(
+  survivor: PatientExtras | undefined,
+  duplicate: PatientExtras | undefined,
+  strategy: MergeFieldStrategy,
+  duplicateIsNewer: boolean
+): { value: PatientExtras; source: 'survivor' | 'duplicate' | 'both' } {
+  const { [MERGED_FROM_EXTRAS_KEY]: _, ...survivorExtras } = survivor || {};
+  const { [MERGED_FROM_EXTRAS_KEY]: __, [MERGED_INTO_EXTRAS_KEY]: ___, ...duplicateExtras } = duplicate || {};
+
+  if (strategy === 'survivor' || strategy === 'duplicate') {
+    return { value: strategy === 'survivor' ? survivorExtras : duplicateExtras, source: strategy };
+  }
+
+  const preferDuplicate = strategy === 'preferNewest' && duplicateIsNewer;
+  const [preferred, other] = preferDuplicate ? [duplicateExtras, survivorExtras] : [survivorExtras, duplicateExtras];
+  const value: PatientExtras = { ...other };
+  Object.entries(preferred).forEach(([key, entry]) => {
+    if (!isEmpty(entry) || !(key in value)) {
+      value[key] = entry;
+    }
+  });
+
+  const fromSurvivor = Object.keys(survivorExtras).some((key) => value[key] === survivorExtras[key]);
+  const fromDuplicate = Object.keys(duplicateExtras).some((key) => value[key] === duplicateExtras[key]);
+  return { value, source: !fromDuplicate ? 'survivor' : !fromSurvivor ? 'duplicate' : 'both' };
+}
+
+/**
+ * Whether all fields of a group are empty (is_age alone does not count as a value)
+ */
+function isEmptyGroup(patient: Patient, keys: (keyof Patient)[]): boolean {
+  return keys.every((key) => isEmpty(patient[key]) || typeof patient[key] === 'boolean');
+}
+
+/**
+ * Whether a field has no value (undefined, null or blank)
+ */
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * OIDs from a stored mergedFrom list, ignoring anything else
+ */
+function toOidList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((oid): oid is string => typeof oid === 'string') : [];
+}
@@ -0,0 +1,189 @@
+/**
+ * Patient name parsing and composition.
+ *
+ * `fln` is always composed as "fn mn ln" (salutation excluded, single spaces); the salutation is
+ * only added for display.
+ */
+
+import { PatientNameParts } from '../types';
+
+/**
+ * Honorifics recognised at the start of a full name, keyed by lower-case form without dots
+ */
+const SALUTATIONS: Record<string, string> = {
+  dr: 'Dr.',
+  prof: 'Prof.',
+  mr: 'Mr.',
+  mrs: 'Mrs.',
+  ms: 'Ms.',
+  miss: 'Miss',
+  master: 'Master',
+  shri: 'Shri',
+  shree: 'Shri',
+  sri: 'Sri',
+  smt: 'Smt.',
+  srimati: 'Smt.',
+  shrimati: 'Smt.',
+  kumari: 'Kumari',
+  km: 'Km.',
+};
+
+/** A single letter, optionally followed by a dot ("R", "R.") */
+const INITIAL_PATTERN = /^[a-z]\.?$/i;
+/** Run-together initials ("A.P.J.", "S.R") */
+const JOINED_INITIALS_PATTERN = /^(?:[a-z]\.){2,}[a-z]?\.?$|^(?:[a-z]\.)+[a-z]$/i;
+
+/**
+ * Split a full name into salutation, first, middle and last name.
+ *
+ * - Leading honorifics (Dr., Smt., Shri, ...) go to `s`, normalised ("smt" -> "Smt.")
+ * - Initials are written as "R." and run-together initials are split ("A.P.J." -> "A. P. J.")
+ * - A leading run of initials is `fn` and a trailing run is `ln`, with or without a salutation
+ * - Otherwise the first word is `fn`, the last is `ln` and anything between is `mn`
+ *
+ * @example
+ * ```typescript
+ * parseFullName('Dr. Asha Kumari Rao');  // { s: 'Dr.', fn: 'Asha', mn: 'Kumari', ln: 'Rao' }
+ * parseFullName('Smt. S.K. Lakshmi');    // { s: 'Smt.', fn: 'S. K.', ln: 'Lakshmi' }
+ * parseFullName('A.P.J. Abdul Kalam');   // { fn: 'A. P. J.', mn: 'Abdul', ln: 'Kalam' }
+ * parseFullName('Ramanathan S. R.');     // { fn: 'Ramanathan', ln: 'S. R.' }
+ * ```
+ */
+export function parseFullName(fullName: string): PatientNameParts {
+  const tokens = fullName
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .flatMap(splitInitials);
+
+  const salutations: string[] = [];
+  // Keep at least one token as the name itself ("Miss" alone is a name)
+  while (tokens.length > 1 && salutationOf(tokens[0])) {
+    salutations.push(salutationOf(tokens.shift()!)!);
+  }
+
+  const parts: PatientNameParts = {};
+  if (salutations.length > 0) {
+    parts.s = salutations.join(' ');
+  }
+  if (tokens.length === 0) {
+    return parts;
+  }
+
+  const units = groupInitials(tokens);
+  parts.fn = units[0];
+  if (units.length > 1) {
+    parts.ln = units[units.length - 1];
+  }
+  if (units.length > 2) {
+    parts.mn = units.slice(1, -1).join(' ');
+  }
+  return parts;
+}
+
+/**
+ * Build `fln` from name parts ("fn mn ln", empty parts skipped, salutation excluded)
+ *
+ * @example
+ * ```typescript
+ * composeFullName({ s: 'Dr.', fn: 'Asha', ln: ' Rao ' }); // 'Asha Rao'
+ * ```
+ */
+export function composeFullName(parts: PatientNameParts): string {
+  return [parts.fn, parts.mn, parts.ln]
+    .map((part) => part?.trim().replace(/\s+/g, ' '))
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Recompute `fln` after a partial name update from the stored name parts.
+ * A composed `fln` is never split back into parts, since that cannot tell which words were which.
+ *
+ * @param current Stored name parts (fn, mn, ln)
+ * @param changes Name parts being updated (undefined = unchanged, '' = cleared)
+ * @returns The new full name, or undefined when no name part changed
+ *
+ * @example
+ * ```typescript
+ * mergeNameParts({ fn: 'Asha', mn: 'Kumari', ln: 'Rao' }, { ln: 'Iyer' }); // 'Asha Kumari Iyer'
+ * ```
+ */
+export function mergeNameParts(
+  current: PatientNameParts,
+  changes: PatientNameParts & { fln?: string }
+): string | undefined {
+  if (changes.fln !== undefined) {
+    return changes.fln;
+  }
+  if (changes.fn === undefined && changes.mn === undefined && changes.ln === undefined) {
+    return undefined;
+  }
+
+  return composeFullName({
+    fn: changes.fn ?? current.fn,
+    mn: changes.mn ?? current.mn,
+    ln: changes.ln ?? current.ln,
+  });
+}
+
+/**
+ * Name for display: salutation followed by `fln` (or the composed parts)
+ */
+export function formatDisplayName(patient: PatientNameParts & { fln?: string }): string {
+  const name = patient.fln?.trim() || composeFullName(patient);
+  const salutation = patient.s?.trim();
+  if (!salutation || !name || name.toLowerCase().startsWith(`${salutation.toLowerCase()} `)) {
+    return name;
+  }
+  return `${salutation} ${name}`;
+}
+
+function salutationOf(token: string): string | undefined {
+  return SALUTATIONS[token.toLowerCase().replace(/\./g, '')];
+}
+
+function isInitial(token: string): boolean {
+  return INITIAL_PATTERN.test(token);
+}
+
+/**
+ * Join the leading and the trailing run of initials into one unit each
+ * ("A. P. J. Abdul Kalam" -> ["A. P. J.", "Abdul", "Kalam"])
+ */
+function groupInitials(tokens: string[]): string[] {
+  const first = tokens.findIndex((token) => !isInitial(token));
+  if (first === -1) {
+    return [tokens.join(' ')];
+  }
+
+  let last = tokens.length - 1;
+  while (isInitial(tokens[last])) {
+    last--;
+  }
+
+  const units = tokens.slice(first, last + 1);
+  if (first > 0) {
+    units.unshift(tokens.slice(0, first).join(' '));
+  }
+  if (last < tokens.length - 1) {
+    units.push(tokens.slice(last + 1).join(' '));
+  }
+  return units;
+}
+
+/**
+ * Normalise initials: "r" -> "R.", "A.P.J." -> ["A.", "P.", "J."]; other tokens are returned as-is
+ */
+function splitInitials(token: string): string[] {
+  if (JOINED_INITIALS_PATTERN.test(token)) {
+    return token
+      .split('.')
+      .filter(Boolean)
+      .map((letter) => `${letter.toUpperCase()}.`);
+  }
+  if (INITIAL_PATTERN.test(token)) {
+    return [`${token[0].toUpperCase()}.`];
+  }
+  return [token];
+}
@@ -0,0 +1,319 @@
+/**
+ * Schema-driven client-side validation for patient payloads
+ */
+
+import { ValidationError } from '../errors';
+import {
+  CreatePatientData,
+  PatientField,
+  PatientFieldErrors,
+  PatientValidationIssue,
+  PatientValidationResult,
+  PatientValidatorOptions,
+  UpdatePatientData,
+  ValidationSeverity,
+} from '../types';
+import { getAbhaKind, isAbhaAddress, toAbhaDigits, verifyVerhoeff } from './abha';
+import { parseIsoDate, startOfDay, yearsBetween } from './date';
+import { DEFAULT_COUNTRY_CODE } from './phone';
+
+const GENDERS = ['M', 'F', 'O'];
+const BLOOD_GROUPS = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+const NAME_FIELDS: PatientField[] = ['fn', 'mn', 'ln', 'fln'];
+
+/**
+ * National mobile number rules by country code
+ */
+const MOBILE_RULES: Record<string, { pattern: RegExp; description: string }> = {
+  '+91': { pattern: /^[6-9]\d{9}$/, description: '10 digits starting with 6-9' },
+  '+1': { pattern: /^[2-9]\d{9}$/, description: '10 digits' },
+  '+44': { pattern: /^7\d{9}$/, description: '10 digits starting with 7' },
+  '+61': { pattern: /^4\d{8}$/, description: '9 digits starting with 4' },
+  '+65': { pattern: /^[89]\d{7}$/, description: '8 digits starting with 8 or 9' },
+  '+971': { pattern: /^5\d{8}$/, description: '9 digits starting with 5' },
+  '+977': { pattern: /^9\d{9}$/, description: '10 digits starting with 9' },
+  '+880': { pattern: /^1\d{9}$/, description: '10 digits starting with 1' },
+  '+94': { pattern: /^7\d{8}$/, description: '9 digits starting with 7' },
+};
+
+type ResolvedOptions = Required<Omit<PatientValidatorOptions, 'referenceDate'>> & {
+  referenceDate: Date;
+};
+
+interface RuleContext {
+  data: CreatePatientData | UpdatePatientData;
+  options: ResolvedOptions;
+}
+
+interface RuleIssue {
+  code: string;
+  message: string;
+  severity?: ValidationSeverity;
+}
+
+/**
+ * A rule checks one present (non-empty) field value
+ */
+type Rule = (value: any, context: RuleContext) => RuleIssue | null;
+
+const oneOf =
+  (allowed: string[], message: string): Rule =>
+  (value) =>
+    allowed.includes(value) ? null : { code: 'invalid_choice', message };
+
+const maxLength =
+  (label: string, limit: (options: ResolvedOptions) => number): Rule =>
+  (value, { options }) =>
+    String(value).length > limit(options)
+      ? { code: 'too_long', message: `${label} must be at most ${limit(options)} characters` }
+      : null;
+
+const nameCharacters =
+  (label: string): Rule =>
+  (value) =>
+    /\d/.test(value)
+      ? { code: 'name_has_digits', message: `${label} contains digits`, severity: 'warning' }
+      : null;
+
+const validDate: Rule = (value) =>
+  parseIsoDate(value)
+    ? null
+    : { code: 'invalid_date', message: 'dob must be a valid date in YYYY-MM-DD format' };
+
+const notInFuture: Rule = (value, { options }) => {
+  const dob = parseIsoDate(value);
+  return dob && dob > startOfDay(options.referenceDate)
+    ? { code: 'dob_in_future', message: 'dob cannot be in the future' }
+    : null;
+};
+
+const plausibleAge: Rule = (value, { options }) => {
+  const dob = parseIsoDate(value);
+  if (!dob) {
+    return null;
+  }
+
+  const age = yearsBetween(dob, options.referenceDate);
+  if (age > options.maxAgeYears) {
+    return {
+      code: 'age_implausible',
+      message: `dob implies an age above ${options.maxAgeYears} years`,
+    };
+  }
+  if (age > options.warnAgeYears) {
+    return {
+      code: 'age_unusual',
+      message: `dob implies an age above ${options.warnAgeYears} years, please verify`,
+      severity: 'warning',
+    };
+  }
+  return null;
+};
+
+const countryMobile: Rule = (value, { data, options }) => {
+  if (!/^\d+$/.test(value)) {
+    return { code: 'invalid_mobile', message: 'mobile must contain digits only, without country code' };
+  }
+
+  const countryCode = data.ccd || options.defaultCountryCode;
+  const rule = MOBILE_RULES[countryCode];
+  if (rule) {
+    return rule.pattern.test(value)
+      ? null
+      : { code: 'invalid_mobile', message: `mobile must be ${rule.description} for ${countryCode}` };
+  }
+
+  return /^\d{6,15}$/.test(value)
+    ? null
+    : { code: 'invalid_mobile', message: 'mobile must be 6-15 digits without country code' };
+};
+
+const abhaIdentifier: Rule = (value) => {
+  if (getAbhaKind(value) === 'address') {
+    return isAbhaAddress(value)
+      ? null
+      : {
+          code: 'invalid_abha_address',
+          message: 'abha must be a valid ABHA address such as asha.rao@abdm (handle of 8-18 letters or digits, at most one "." or "_")',
+        };
+  }
+
+  const digits = toAbhaDigits(value)!;
+  if (digits.length !== 14) {
+    return { code: 'invalid_abha_number', message: 'ABHA number must have 14 digits' };
+  }
+  return verifyVerhoeff(digits)
+    ? null
+    : { code: 'abha_checksum', message: 'ABHA number has an invalid check digit' };
+};
+
+/**
+ * Rules applied to each field when it is present
+ */
+const PATIENT_SCHEMA: Partial<Record<PatientField, Rule[]>> = {
+  gen: [oneOf(GENDERS, 'gen must be M, F, or O')],
+  dob: [validDate, notInFuture, plausibleAge],
+  fn: [maxLength('First name', (o) => o.maxNameLength), nameCharacters('First name')],
+  mn: [maxLength('Middle name', (o) => o.maxNameLength), nameCharacters('Middle name')],
+  ln: [maxLength('Last name', (o) => o.maxNameLength), nameCharacters('Last name')],
+  fln: [maxLength('Full name', (o) => o.maxFullNameLength), nameCharacters('Full name')],
+  s: [maxLength('Salutation', () => 20)],
+  ccd: [
+    (value) =>
+      /^\+\d{1,4}$/.test(value)
+        ? null
+        : { code: 'invalid_ccd', message: 'ccd must be a valid country code starting with +' },
+  ],
+  mobile: [countryMobile],
+  email: [
+    (value) =>
+      /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
+        ? null
+        : { code: 'invalid_email', message: 'email must be a valid email address' },
+  ],
+  username: [maxLength('Username', () => 150)],
+  abha: [abhaIdentifier],
+  bg: [oneOf(BLOOD_GROUPS, 'bg must be a valid blood group (A+, A-, B+, B-, AB+, AB-, O+, O-)')],
+  is_age: [
+    (value) =>
+      typeof value === 'boolean' ? null : { code: 'invalid_type', message: 'is_age must be a boolean' },
+  ],
+};
+
+/**
+ * Validate patient creation data
+ *
+ * @example
+ * ```typescript
+ * const result = validateCreatePatientData({ gen: 'M', dob: '2090-01-01', fn: 'Ravi' });
+ * result.isValid;          // false
+ * result.errors.dob?.[0];  // { code: 'dob_in_future', severity: 'error', ... }
+ * ```
+ */
+export function validateCreatePatientData(
+  data: CreatePatientData,
+  options?: PatientValidatorOptions
+): PatientValidationResult {
+  const issues: PatientValidationIssue[] = [];
+
+  if (!data.gen) {
+    issues.push({ field: 'gen', code: 'required', message: 'gen is required', severity: 'error' });
+  }
+  if (!data.dob) {
+    issues.push({ field: 'dob', code: 'required', message: 'dob is required', severity: 'error' });
+  }
+  if (!NAME_FIELDS.some((field) => isPresent(data[field as keyof CreatePatientData]))) {
+    issues.push({
+      field: 'non_field',
+      code: 'name_required',
+      message: 'At least one name field (fn, mn, ln, or fln) is required',
+      severity: 'error',
+    });
+  }
+
+  return buildResult([...issues, ...applySchema(data, options)]);
+}
+
+/**
+ * Validate patient update data (only the fields present are checked)
+ */
+export function validateUpdatePatientData(
+  data: UpdatePatientData,
+  options?: PatientValidatorOptions
+): PatientValidationResult {
+  const issues: PatientValidationIssue[] = [];
+
+  if (Object.values(data).every((value) => value === undefined)) {
+    issues.push({
+      field: 'non_field',
+      code: 'empty_update',
+      message: 'No fields to update',
+      severity: 'warning',
+    });
+  }
+
+  return buildResult([...issues, ...applySchema(data, options)]);
+}
+
+/**
+ * Convert a failed validation result into a ValidationError
+ */
+export function toValidationError(result: PatientValidationResult): ValidationError {
+  const fieldErrors: PatientFieldErrors = {};
+  const nonFieldErrors: string[] = [];
+  const validationErrors: Record<string, string[]> = {};
+
+  result.issues
+    .filter((issue) => issue.severity === 'error')
+    .forEach((issue) => {
+      validationErrors[issue.field] = [...(validationErrors[issue.field] || []), issue.message];
+      if (issue.field === 'non_field') {
+        nonFieldErrors.push(issue.message);
+      } else {
+        fieldErrors[issue.field] = [...(fieldErrors[issue.field] || []), issue.message];
+      }
+    });
+
+  return new ValidationError(
+    'Patient data failed validation',
+    undefined,
+    validationErrors,
+    fieldErrors,
+    nonFieldErrors
+  );
+}
+
+function applySchema(
+  data: CreatePatientData | UpdatePatientData,
+  options: PatientValidatorOptions = {}
+): PatientValidationIssue[] {
+  const context: RuleContext = {
+    data,
+    options: {
+      defaultCountryCode: options.defaultCountryCode ?? DEFAULT_COUNTRY_CODE,
+      maxAgeYears: options.maxAgeYears ?? 120,
+      warnAgeYears: options.warnAgeYears ?? 100,
+      maxNameLength: options.maxNameLength ?? 50,
+      maxFullNameLength: options.maxFullNameLength ?? 150,
+      referenceDate: options.referenceDate ?? new Date(),
+    },
+  };
+
+  const issues: PatientValidationIssue[] = [];
+  (Object.keys(PATIENT_SCHEMA) as PatientField[]).forEach((field) => {
+    const value = (data as Record<string, unknown>)[field];
+    if (!isPresent(value)) {
+      return;
+    }
+
+    for (const rule of PATIENT_SCHEMA[field]!) {
+      const issue = rule(value, context);
+      if (issue) {
+        issues.push({ field, severity: 'error', ...issue });
+        // Later rules for a field assume the earlier ones passed
+        if ((issue.severity || 'error') === 'error') {
+          break;
+        }
+      }
+    }
+  });
+
+  return issues;
+}
+
+function buildResult(issues: PatientValidationIssue[]): PatientValidationResult {
+  const errors: PatientValidationResult['errors'] = {};
+  issues.forEach((issue) => {
+    errors[issue.field] = [...(errors[issue.field] || []), issue];
+  });
+
+  return {
+    isValid: !issues.some((issue) => issue.severity === 'error'),
+    errors,
+    issues,
+  };
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '';
+}
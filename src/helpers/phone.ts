@@ -0,0 +1,143 @@
+/**
+ * Phone number normalization.
+ *
+ * Patients store `mobile` without the country code and `ccd` separately ("+91", "9876543210").
+ * Users type numbers in many shapes ("+91 98765 43210", "098765 43210", "9876543210"); these
+ * helpers reduce them to E.164 ("+919876543210") so they compare equal.
+ */
+
+import { ParsedPhoneNumber } from '../types';
+
+export const DEFAULT_COUNTRY_CODE = '+91';
+
+/**
+ * Country calling codes recognised when a number carries its own code
+ */
+const COUNTRY_CODES = new Set([
+  '1', '7', '20', '27', '30', '31', '32', '33', '34', '39', '41', '44', '46', '47', '49',
+  '60', '61', '62', '63', '64', '65', '66', '81', '82', '84', '86', '90', '91', '92', '93',
+  '94', '95', '98', '212', '234', '254', '880', '960', '961', '962', '963', '964', '965',
+  '966', '968', '971', '972', '973', '974', '975', '977',
+]);
+
+/**
+ * National number lengths, used to recognise numbers typed with the country code but without "+"
+ */
+const NATIONAL_LENGTHS: Record<string, number> = {
+  '+1': 10,
+  '+44': 10,
+  '+61': 9,
+  '+65': 8,
+  '+91': 10,
+  '+94': 9,
+  '+971': 9,
+  '+977': 10,
+  '+880': 10,
+};
+
+/** Characters users put between digits */
+const FORMATTING_PATTERN = /[\s().-]/g;
+
+/**
+ * Parse a phone number typed in any common format
+ *
+ * @param input Number as typed, e.g. "+91 98765-43210", "0091 9876543210", "09876543210"
+ * @param defaultCountryCode Country code assumed when the number has none (default: "+91")
+ * @returns Parsed number, or null if the input is not a phone number or has an unknown country code
+ *
+ * @example
+ * ```typescript
+ * parsePhoneNumber('+91 98765 43210');
+ * // { countryCode: '+91', nationalNumber: '9876543210', e164: '+919876543210', hasCountryCode: true }
+ * parsePhoneNumber('098765 43210')?.e164; // '+919876543210'
+ * ```
+ */
+export function parsePhoneNumber(
+  input: string,
+  defaultCountryCode: string = DEFAULT_COUNTRY_CODE
+): ParsedPhoneNumber | null {
+  const compact = input.trim().replace(FORMATTING_PATTERN, '');
+  if (!/^(\+|00)?\d+$/.test(compact)) {
+    return null;
+  }
+
+  // International form: +CC... or 00CC...
+  if (compact.startsWith('+') || compact.startsWith('00')) {
+    const digits = compact.replace(/^(\+|00)/, '');
+    const code = [3, 2, 1]
+      .map((length) => digits.slice(0, length))
+      .find((candidate) => COUNTRY_CODES.has(candidate));
+    if (!code || digits.length === code.length) {
+      return null;
+    }
+    return build(`+${code}`, digits.slice(code.length), true);
+  }
+
+  // Country code typed without "+", recognised by the total length
+  const defaultDigits = defaultCountryCode.replace('+', '');
+  const nationalLength = NATIONAL_LENGTHS[defaultCountryCode];
+  if (
+    nationalLength &&
+    compact.length === defaultDigits.length + nationalLength &&
+    compact.startsWith(defaultDigits)
+  ) {
+    return build(defaultCountryCode, compact.slice(defaultDigits.length), true);
+  }
+
+  // Trunk prefix: 098765... -> 98765...
+  const national = compact.replace(/^0+/, '');
+  return national ? build(defaultCountryCode, national, false) : null;
+}
+
+/**
+ * E.164 form of a stored mobile/ccd pair
+ *
+ * @param mobile Mobile number (national; other formats are parsed too)
+ * @param ccd Stored country code, if any
+ * @param defaultCountryCode Country code assumed when ccd is missing (default: "+91")
+ * @returns E.164 number, or undefined if the mobile cannot be parsed
+ */
+export function toE164(
+  mobile: string | undefined,
+  ccd?: string,
+  defaultCountryCode: string = DEFAULT_COUNTRY_CODE
+): string | undefined {
+  if (!mobile) {
+    return undefined;
+  }
+  return parsePhoneNumber(mobile, ccd || defaultCountryCode)?.e164;
+}
+
+/**
+ * Turn a partially typed number into an E.164 prefix for matching stored E.164 numbers
+ *
+ * @returns E.164 prefix (e.g. "+9198765"), or null if the query is not number-like
+ */
+export function toE164Prefix(
+  query: string,
+  defaultCountryCode: string = DEFAULT_COUNTRY_CODE
+): string | null {
+  const compact = query.trim().replace(FORMATTING_PATTERN, '');
+  if (!/^(\+|00)?\d+$/.test(compact)) {
+    return null;
+  }
+  if (compact.startsWith('+') || compact.startsWith('00')) {
+    return `+${compact.replace(/^(\+|00)/, '')}`;
+  }
+  return parsePhoneNumber(compact, defaultCountryCode)?.e164 || null;
+}
+
+/**
+ * Check whether a stored number ends with the typed digits (front-desk "last 4 digits" lookup)
+ *
+ * @param stored Stored number in any format
+ * @param suffix Typed digits, formatting ignored
+ */
+export function matchesLastDigits(stored: string | undefined, suffix: string): boolean {
+  const digits = suffix.replace(/\D/g, '');
+  return Boolean(stored && digits && stored.replace(/\D/g, '').endsWith(digits));
+}
+
+function build(countryCode: string, nationalNumber: string, hasCountryCode: boolean): ParsedPhoneNumber {
+  return { countryCode, nationalNumber, e164: `${countryCode}${nationalNumber}`, hasCountryCode };
+}
@@ -25,35 +25,60 @@
  * ```
  */
 
-import { HttpClient } from './client';
+import { HttpClient, HttpInterceptor } from './client';
+import { TrinitySDKError, toTrinitySDKError } from './errors';
 import { PatientMethods } from './methods/patients';
 import { SearchMethods } from './methods/search';
 import { UtilsMethods } from './methods/utils';
+import { ExporterService } from './services/exporter';
+import { ImporterService } from './services/importer';
+import { LocalIndexSyncService } from './services/local-index-sync';
+import { OfflineQueueService } from './services/offline-queue';
+import { OutboxService } from './services/outbox';
+import { emitTelemetry } from './telemetry';
 import {
   ApiResponse,
+  CallOptions,
   CreatePatientData,
+  CreatePatientOptions,
+  CreatePatientResult,
   Environment,
   EnvironmentBaseUrl,
   Patient,
+  PatientExtras,
   SdkConfig,
   UpdatePatientData,
+  UpdatePatientOptions,
 } from './types';
 
 /**
  * Main SDK class
+ *
+ * @typeParam TExtras Shape of the clinic-specific attributes stored in `Patient.extras`
  */
-export class TrinityProfilesSDK {
-  private client: HttpClient;
-  private static instance: TrinityProfilesSDK | null = null;
+export class TrinityProfilesSDK<TExtras extends PatientExtras = PatientExtras> {
+  private readonly client: HttpClient;
+  private readonly localIndex: LocalIndexSyncService;
+  /** Stored untyped; `getInstance` callers choose the extras type they read it with */
+  private static instance: TrinityProfilesSDK<PatientExtras> | null = null;
 
   /** Patient CRUD operations */
-  public patients: PatientMethods;
+  public patients: PatientMethods<TExtras>;
 
   /** Search and lookup operations */
-  public search: SearchMethods;
+  public search: SearchMethods<TExtras>;
 
   /** Utility operations */
-  public utils: UtilsMethods;
+  public utils: UtilsMethods<TExtras>;
+
+  /** Bulk patient import from CSV or row arrays */
+  public importer: ImporterService<TExtras>;
+
+  /** Workspace export to CSV, NDJSON and vCard */
+  public exporter: ExporterService<TExtras>;
+
+  /** Offline mutation queue (null unless offline mode is enabled) */
+  public offline: OfflineQueueService | null = null;
 
   /**
    * Initialize the Trinity Profiles SDK
@@ -66,12 +91,19 @@ export class TrinityProfilesSDK {
    *   baseUrl: 'https://api.trinity.example.com',
    *   accessToken: 'your-jwt-token',
    *   workspaceId: 'your-workspace-id',
+   *   getAccessToken: async ({ forceRefresh }) => auth.getToken({ forceRefresh }), // optional, replaces accessToken
    *   enableLocalSearch: true, // optional, enables local search functionality
    *   timeout: 30000 // optional, defaults to 30s
    * });
+   *
+   * // Typed extras, checked at runtime by a registered schema (e.g. zod)
+   * const typedSdk = new TrinityProfilesSDK<{ clinicCode: string }>({
+   *   workspaceId: 'your-workspace-id',
+   *   extrasSchema: z.object({ clinicCode: z.string() }),
+   * });
    * ```
    */
-  constructor(config: SdkConfig) {
+  constructor(config: SdkConfig<TExtras>) {
     // Validate configuration
     if (config.env === Environment.DEV) {
       config.baseUrl = EnvironmentBaseUrl[Environment.DEV];
@@ -88,25 +120,36 @@ export class TrinityProfilesSDK {
     this.client = new HttpClient(config);
 
     // Initialize method groups
-    this.patients = new PatientMethods(this.client);
-    this.search = new SearchMethods(this.client, config);
-    this.utils = new UtilsMethods(this.client);
-
-    // Set up IndexedDB update callback for patients
-    if (config.workspaceId) {
-      this.patients.setIndexedDBUpdateCallback(async (patient) => {
-        const indexedDB = this.search.getDataLoader()?.getIndexedDB();
-        if (indexedDB) {
-          await indexedDB.updatePatient(patient);
-        }
-      });
-      this.patients.setIndexedDBPartialUpdateCallback(async (oid, updates) => {
-        const indexedDB = this.search.getDataLoader()?.getIndexedDB();
-        if (indexedDB) {
-          await indexedDB.partialUpdatePatient(oid, updates);
-        }
-      });
+    this.patients = new PatientMethods<TExtras>(this.client);
+    this.search = new SearchMethods<TExtras>(this.client, config);
+    this.utils = new UtilsMethods<TExtras>(this.client);
+    this.patients.setUtils(this.utils);
+    this.importer = new ImporterService<TExtras>(this.patients, config);
+    this.exporter = new ExporterService<TExtras>(this.client, this.search);
+
+    // Mirror every patient mutation into the local search index
+    this.localIndex = new LocalIndexSyncService(
+      config,
+      () => this.search.getDataLoader()?.getIndexedDB() || null,
+      (oid) => this.patients.get(oid)
+    );
+    this.patients.setLocalIndex(this.localIndex);
+    this.utils.setLocalIndex(this.localIndex);
+
+    // Queue patient mutations in a durable outbox while offline
+    if (config.offline?.enabled) {
+      this.offline = new OfflineQueueService(
+        this.client,
+        new OutboxService(config.workspaceId, config.indexedDB),
+        config.offline,
+        this.localIndex
+      );
+      this.patients.setOfflineQueue(this.offline);
+      this.offline.setOidResolvedCallback((provisionalOid, oid) => this.importer.oidResolved(provisionalOid, oid));
     }
+
+    // Duplicate candidates come from the local index and the mobile number lookup
+    this.patients.setDuplicateCandidatesCallback((data, options) => this.search.getDuplicateCandidates(data, options));
   }
 
   /**
@@ -128,7 +171,10 @@ export class TrinityProfilesSDK {
    * });
    * ```
    */
-  public static getInstance(config?: SdkConfig, force: boolean = false): TrinityProfilesSDK {
+  public static getInstance<TExtras extends PatientExtras = PatientExtras>(
+    config?: SdkConfig<TExtras>,
+    force: boolean = false
+  ): TrinityProfilesSDK<TExtras> {
     if (force) {
       TrinityProfilesSDK.instance = null;
     }
@@ -138,9 +184,9 @@ export class TrinityProfilesSDK {
           'Configuration is required for first initialization. Please provide SdkConfig.'
         );
       }
-      TrinityProfilesSDK.instance = new TrinityProfilesSDK(config);
+      TrinityProfilesSDK.instance = new TrinityProfilesSDK<TExtras>(config) as unknown as TrinityProfilesSDK<PatientExtras>;
     }
-    return TrinityProfilesSDK.instance;
+    return TrinityProfilesSDK.instance as unknown as TrinityProfilesSDK<TExtras>;
   }
 
   /**
@@ -174,37 +220,27 @@ export class TrinityProfilesSDK {
       throw new Error('Access token cannot be empty');
     }
 
-    // Get current config to preserve settings
-    const currentConfig = this.client.getConfig();
-    const newConfig = {
-      ...currentConfig,
-      accessToken: newToken,
-    };
-
-    // Create new client with updated token
-    this.client = new HttpClient(newConfig);
-
-    // Reinitialize method groups with new client
-    this.patients = new PatientMethods(this.client);
-    this.search = new SearchMethods(this.client, newConfig);
-    this.utils = new UtilsMethods(this.client);
-
-    // Re-establish IndexedDB update callback for patients
-    if (newConfig.workspaceId) {
-      this.patients.setIndexedDBUpdateCallback(async (patient) => {
-        const indexedDB = this.search.getDataLoader()?.getIndexedDB();
-        if (indexedDB) {
-          await indexedDB.updatePatient(patient);
-        }
-      });
+    // Method groups share this client, so in-flight and local-search state is preserved
+    this.client.setAccessToken(newToken);
+    this.syncWorker?.postMessage({ type: 'token', payload: { accessToken: newToken } });
+  }
 
-      this.patients.setIndexedDBPartialUpdateCallback(async (oid, updates) => {
-        const indexedDB = this.search.getDataLoader()?.getIndexedDB();
-        if (indexedDB) {
-          await indexedDB.partialUpdatePatient(oid, updates);
-        }
-      });
-    }
+  /**
+   * Register a request/response interceptor on the shared HTTP client
+   *
+   * @param interceptor Interceptor hooks
+   * @returns Function that removes the interceptor again
+   *
+   * @example
+   * ```typescript
+   * const eject = sdk.use({
+   *   onRequest: (options) => ({ ...options, path: `/proxy${options.path}` }),
+   *   onError: (error, options) => console.warn(options.path, error.statusCode),
+   * });
+   * ```
+   */
+  use(interceptor: HttpInterceptor): () => void {
+    return this.client.use(interceptor);
   }
 
   /**
@@ -222,10 +258,10 @@ export class TrinityProfilesSDK {
    * }
    * ```
    */
-  async testConnection(): Promise<void> {
+  async testConnection(options?: CallOptions): Promise<void> {
     try {
       // Try a simple search request to test connectivity
-      await this.search.bulkGet([]);
+      await this.search.bulkGet([], options);
     } catch (error) {
       throw new Error(
         `SDK connection test failed: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -254,6 +290,11 @@ export class TrinityProfilesSDK {
       await this.startSyncWithoutWorker();
     }
 
+    // Flush mutations left over from a previous offline session
+    if (this.offline && !this.offline.isOffline()) {
+      this.offline.replay().catch((error) => console.warn('Offline queue replay failed:', error));
+    }
+
     // TODO
     // if (this.shouldUseWorker()) {
     //     console.log("worker")
@@ -269,19 +310,26 @@ export class TrinityProfilesSDK {
     prefix: string,
     limit: number = 50,
     select?: string,
-    forceApiSearch: boolean = false
-  ): Promise<Patient[]> {
-    return await this.search.searchByPrefix(prefix, limit, select, forceApiSearch);
+    forceApiSearch: boolean = false,
+    options?: CallOptions
+  ): Promise<Patient<TExtras>[]> {
+    return await this.search.searchByPrefix(prefix, limit, select, forceApiSearch, options);
   }
 
   // TO CREATE PATIENT
-  async createPatient(patient: CreatePatientData): Promise<{ oid: string }> {
-    return await this.patients.create(patient);
+  async createPatient(
+    patient: CreatePatientData<TExtras>,
+    options?: CreatePatientOptions
+  ): Promise<CreatePatientResult<TExtras>> {
+    return await this.patients.create(patient, options);
   }
 
   // TO UPDATE PATIENT
-  async updatePatient(patient: { id: string; data: UpdatePatientData }): Promise<ApiResponse> {
-    return await this.patients.update(patient.id, patient.data);
+  async updatePatient(
+    patient: { id: string; data: UpdatePatientData<TExtras> },
+    options?: UpdatePatientOptions<TExtras>
+  ): Promise<ApiResponse> {
+    return await this.patients.update(patient.id, patient.data, options);
   }
 
   /**
@@ -301,7 +349,7 @@ export class TrinityProfilesSDK {
   async startLocalSync(callbacks?: {
     onProgress?: (progress: { progress: number; total: number; isComplete: boolean }) => void;
     onComplete?: () => void;
-    onError?: (error: string) => void;
+    onError?: (error: TrinitySDKError) => void;
   }): Promise<void> {
     if (this.shouldUseWorker()) {
       await this.startSyncWithWorker(callbacks);
@@ -359,6 +407,8 @@ export class TrinityProfilesSDK {
    */
   destroy(): void {
     this.search.destroy();
+    this.offline?.destroy();
+    this.importer.destroy();
     if (this.syncWorker) {
       this.syncWorker.terminate();
       this.syncWorker = null;
@@ -386,7 +436,7 @@ export class TrinityProfilesSDK {
   private async startSyncWithWorker(callbacks?: {
     onProgress?: (progress: { progress: number; total: number; isComplete: boolean }) => void;
     onComplete?: () => void;
-    onError?: (error: string) => void;
+    onError?: (error: TrinitySDKError) => void;
   }): Promise<void> {
     if (this.syncWorker) {
       this.syncWorker.terminate();
@@ -413,22 +463,34 @@ export class TrinityProfilesSDK {
             break;
           case 'error':
             if (callbacks?.onError && payload?.error) {
-              callbacks.onError(payload.error);
+              callbacks.onError(TrinitySDKError.fromJSON(payload.error));
+            }
+            break;
+          case 'telemetry':
+            if (payload?.event) {
+              emitTelemetry(this.client.getConfig().telemetry, payload.event);
             }
             break;
+          case 'tokenRequest':
+            this.sendWorkerToken(payload?.staleToken ?? '');
+            break;
         }
       };
 
       this.syncWorker.onerror = (error) => {
         if (callbacks?.onError) {
-          callbacks.onError(`Worker error: ${error.message}`);
+          callbacks.onError(new TrinitySDKError(`Worker error: ${error.message}`));
         }
       };
 
-      // Start sync
+      // Start sync with a freshly resolved token
+      const config = await this.client.getWorkerConfig();
       this.syncWorker.postMessage({
         type: 'start',
-        payload: { config: this.client.getConfig() },
+        payload: {
+          config,
+          telemetry: Boolean(this.client.getConfig().telemetry),
+        },
       });
     } catch (error) {
       console.warn('Failed to start Web Worker, falling back to direct sync:', error);
@@ -436,13 +498,25 @@ export class TrinityProfilesSDK {
     }
   }
 
+  /**
+   * Answer a worker's tokenRequest after a 401 with a refreshed token
+   */
+  private async sendWorkerToken(staleToken: string): Promise<void> {
+    try {
+      const accessToken = await this.client.refreshWorkerToken(staleToken);
+      this.syncWorker?.postMessage({ type: 'token', payload: { accessToken } });
+    } catch (error) {
+      this.syncWorker?.postMessage({ type: 'token', payload: { error: toTrinitySDKError(error).toJSON() } });
+    }
+  }
+
   /**
    * Start sync without Web Worker (direct)
    */
   private async startSyncWithoutWorker(callbacks?: {
     onProgress?: (progress: { progress: number; total: number; isComplete: boolean }) => void;
     onComplete?: () => void;
-    onError?: (error: string) => void;
+    onError?: (error: TrinitySDKError) => void;
   }): Promise<void> {
     const dataLoader = this.search.getDataLoader();
     if (!dataLoader) {
@@ -462,8 +536,7 @@ export class TrinityProfilesSDK {
       });
     } catch (error) {
       if (callbacks?.onError) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        callbacks.onError(errorMessage);
+        callbacks.onError(toTrinitySDKError(error));
       }
       throw error;
     }
@@ -474,9 +547,96 @@ export class TrinityProfilesSDK {
 }
 
 // Export all types and errors for external use
+export { IDEMPOTENCY_KEY_HEADER, IF_MATCH_HEADER } from './client';
+export type { HttpInterceptor, HttpMethod, HttpResponse, RequestOptions } from './client';
 export * from './errors';
 export * from './types';
+export { ageFromDob, dobFromAge, formatAge } from './helpers/age';
+export { matchesLastDigits, parsePhoneNumber, toE164, toE164Prefix } from './helpers/phone';
+export { composeFullName, formatDisplayName, mergeNameParts, parseFullName } from './helpers/name';
+export { nameSimilarity, scorePotentialDuplicate } from './helpers/duplicates';
+export { buildPatientMerge, MERGED_FROM_EXTRAS_KEY, MERGED_INTO_EXTRAS_KEY } from './helpers/merge';
+export type { DuplicateScoringOptions } from './helpers/duplicates';
+export {
+  formatAbhaNumber,
+  getAbhaKind,
+  isAbhaAddress,
+  isAbhaNumber,
+  normalizeAbha,
+  normalizeAbhaAddress,
+  normalizeAbhaNumber,
+} from './helpers/abha';
+export {
+  toValidationError,
+  validateCreatePatientData,
+  validateUpdatePatientData,
+} from './helpers/patient-validator';
+export {
+  ABHA_IDENTIFIER_SYSTEM,
+  FHIR_EXTENSION_BASE_URL,
+  fromFhirBundle,
+  fromFhirPatient,
+  toFhirBundle,
+  toFhirPatient,
+} from './interop/fhir';
+export type {
+  FhirCoding,
+  FhirContactPoint,
+  FhirExtension,
+  FhirGender,
+  FhirHumanName,
+  FhirIdentifier,
+  FhirMappingOptions,
+  FhirPatient,
+  FhirPatientBundle,
+  PatientFromFhir,
+} from './interop/fhir';
+export {
+  DEFAULT_HL7_SEPARATORS,
+  escapeHl7,
+  parsePidSegment,
+  pidToCreatePatientData,
+  toPidSegment,
+  unescapeHl7,
+} from './interop/hl7';
+export type { Hl7PidOptions, Hl7PidWriteOptions, Hl7Separators, PatientFromHl7 } from './interop/hl7';
+export type { LoadProgress } from './services/data-loader';
+export { ImporterService } from './services/importer';
+export type {
+  PatientImportMapping,
+  PatientImportOptions,
+  PatientImportReport,
+  PatientImportRow,
+  PatientImportRowResult,
+  PatientImportRowStatus,
+} from './services/importer';
+export { DEFAULT_EXPORT_FIELDS, ExporterService } from './services/exporter';
+export type {
+  PatientExportField,
+  PatientExportFormat,
+  PatientExportOptions,
+  PatientExportSource,
+} from './services/exporter';
+export { IndexedDBImportCheckpointStore, MemoryImportCheckpointStore } from './services/import-checkpoint';
+export type { ImportCheckpointEntry, ImportCheckpointStore } from './services/import-checkpoint';
+export { formatCsvRow, parseCsv, parseCsvRecords } from './helpers/csv';
+export { OfflineQueueService, isProvisionalOid } from './services/offline-queue';
+export type { OfflineReplayResult } from './services/offline-queue';
+export { createSpanTelemetry } from './telemetry';
+export type {
+  HttpRequestEvent,
+  IndexedDBOperationEvent,
+  SearchEvent,
+  SearchFallbackReason,
+  SpanLike,
+  SyncPageEvent,
+  TelemetryEvent,
+  TelemetrySink,
+  TracerLike,
+} from './telemetry';
 
 // Default export
-export const getTrinitySDKInstance = (config: SdkConfig, force: boolean = false) =>
-  TrinityProfilesSDK.getInstance(config, force);
+export const getTrinitySDKInstance = <TExtras extends PatientExtras = PatientExtras>(
+  config: SdkConfig<TExtras>,
+  force: boolean = false
+) => TrinityProfilesSDK.getInstance<TExtras>(config, force);
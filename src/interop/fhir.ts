@@ -0,0 +1,415 @@
+/**
+ * Mapping between Trinity patients and FHIR R4 Patient resources
+ *
+ * Only the parts of the FHIR model that Trinity fields map onto are typed here; resources from
+ * other systems may carry more and are read leniently.
+ */
+
+import { ValidationError } from '../errors';
+import { formatAbhaNumber, getAbhaKind, normalizeAbha } from '../helpers/abha';
+import { composeFullName, formatDisplayName, parseFullName } from '../helpers/name';
+import { DEFAULT_COUNTRY_CODE, parsePhoneNumber, toE164 } from '../helpers/phone';
+import { BloodGroup, CreatePatientData, Gender, Patient, PatientExtras, PatientNameParts } from '../types';
+
+/**
+ * FHIR Extension (only the value types used by the SDK)
+ */
+export interface FhirExtension {
+  url: string;
+  valueString?: string;
+  valueCode?: string;
+  valueBoolean?: boolean;
+}
+
+/**
+ * FHIR Coding
+ */
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+/**
+ * FHIR Identifier
+ */
+export interface FhirIdentifier {
+  use?: 'usual' | 'official' | 'temp' | 'secondary' | 'old';
+  type?: { coding?: FhirCoding[]; text?: string };
+  system?: string;
+  value?: string;
+}
+
+/**
+ * FHIR HumanName
+ */
+export interface FhirHumanName {
+  use?: 'usual' | 'official' | 'temp' | 'nickname' | 'anonymous' | 'old' | 'maiden';
+  text?: string;
+  family?: string;
+  given?: string[];
+  prefix?: string[];
+}
+
+/**
+ * FHIR ContactPoint
+ */
+export interface FhirContactPoint {
+  system?: 'phone' | 'fax' | 'email' | 'pager' | 'url' | 'sms' | 'other';
+  value?: string;
+  use?: 'home' | 'work' | 'temp' | 'old' | 'mobile';
+}
+
+/**
+ * FHIR administrative gender
+ */
+export type FhirGender = 'male' | 'female' | 'other' | 'unknown';
+
+/**
+ * FHIR R4 Patient resource
+ */
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id?: string;
+  meta?: { lastUpdated?: string };
+  extension?: FhirExtension[];
+  identifier?: FhirIdentifier[];
+  active?: boolean;
+  name?: FhirHumanName[];
+  telecom?: FhirContactPoint[];
+  gender?: FhirGender;
+  birthDate?: string;
+}
+
+/**
+ * FHIR R4 Bundle of Patient resources
+ */
+export interface FhirPatientBundle {
+  resourceType: 'Bundle';
+  type: 'searchset' | 'collection';
+  total?: number;
+  entry?: {
+    fullUrl?: string;
+    resource: FhirPatient;
+    search?: { mode: 'match' | 'include' };
+  }[];
+}
+
+/**
+ * Options for the FHIR mappers
+ */
+export interface FhirMappingOptions {
+  /** Country code for phone numbers without one (default: "+91") */
+  defaultCountryCode?: string;
+  /** Base URL of the SDK's StructureDefinitions (default: FHIR_EXTENSION_BASE_URL) */
+  extensionBaseUrl?: string;
+  /** Identifier system for ABHA numbers and addresses (default: ABHA_IDENTIFIER_SYSTEM) */
+  abhaSystem?: string;
+}
+
+/**
+ * Patient data read from a FHIR resource: create data plus the server-side fields FHIR carries
+ */
+export type PatientFromFhir<TExtras extends PatientExtras = PatientExtras> = CreatePatientData<TExtras> & {
+  /** Resource id */
+  oid?: string;
+  /** Update timestamp (epoch seconds) from meta.lastUpdated */
+  u_ate?: number;
+  /** Set when the resource is inactive */
+  arc?: boolean;
+};
+
+/** ABDM health ID identifier system */
+export const ABHA_IDENTIFIER_SYSTEM = 'https://healthid.ndhm.gov.in';
+
+/** Base URL of the extensions and identifier systems defined by this SDK */
+export const FHIR_EXTENSION_BASE_URL = 'https://trinity.eka.care/fhir/StructureDefinition';
+
+const GENDER_TO_FHIR: Record<Gender, FhirGender> = {
+  M: 'male',
+  F: 'female',
+  O: 'other',
+};
+
+const GENDER_FROM_FHIR: Record<FhirGender, Gender> = {
+  male: 'M',
+  female: 'F',
+  other: 'O',
+  unknown: 'O',
+};
+
+const BLOOD_GROUPS: BloodGroup[] = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+
+/**
+ * Convert a Trinity patient to a FHIR R4 Patient resource
+ *
+ * - `fln`, `fn`/`mn`/`ln` and `s` become an official HumanName
+ * - `mobile` + `ccd` become an E.164 mobile phone ContactPoint, `email` an email ContactPoint
+ * - `abha` becomes an identifier (numbers hyphenated as XX-XXXX-XXXX-XXXX), `username` a secondary identifier
+ * - `arc` becomes `active: false`; `bg`, `is_age` and `extras` become extensions
+ *
+ * @param patient Trinity patient
+ * @param options Mapping options
+ * @returns FHIR Patient resource
+ *
+ * @example
+ * ```typescript
+ * const resource = toFhirPatient(await sdk.patients.get('patient-oid'));
+ * // { resourceType: 'Patient', id: 'patient-oid', gender: 'female', birthDate: '1990-06-15', ... }
+ * ```
+ */
+export function toFhirPatient<TExtras extends PatientExtras>(
+  patient: Patient<TExtras>,
+  options: FhirMappingOptions = {}
+): FhirPatient {
+  const baseUrl = options.extensionBaseUrl || FHIR_EXTENSION_BASE_URL;
+  const resource: FhirPatient = { resourceType: 'Patient', id: patient.oid };
+
+  if (patient.u_ate) {
+    resource.meta = { lastUpdated: toInstant(patient.u_ate) };
+  }
+
+  const extension: FhirExtension[] = [];
+  if (patient.bg) {
+    extension.push({ url: `${baseUrl}/blood-group`, valueCode: patient.bg });
+  }
+  if (patient.is_age !== undefined) {
+    extension.push({ url: `${baseUrl}/dob-from-age`, valueBoolean: patient.is_age });
+  }
+  if (patient.extras && Object.keys(patient.extras).length > 0) {
+    extension.push({ url: `${baseUrl}/extras`, valueString: JSON.stringify(patient.extras) });
+  }
+  if (extension.length > 0) {
+    resource.extension = extension;
+  }
+
+  const identifier: FhirIdentifier[] = [];
+  const abhaKind = getAbhaKind(patient.abha);
+  if (patient.abha && abhaKind) {
+    identifier.push({
+      use: 'official',
+      type: { text: abhaKind === 'number' ? 'ABHA Number' : 'ABHA Address' },
+      system: options.abhaSystem || ABHA_IDENTIFIER_SYSTEM,
+      value: (abhaKind === 'number' ? formatAbhaNumber(patient.abha) : normalizeAbha(patient.abha)) || patient.abha,
+    });
+  }
+  if (patient.username) {
+    identifier.push({ use: 'secondary', system: `${baseUrl}/username`, value: patient.username });
+  }
+  if (identifier.length > 0) {
+    resource.identifier = identifier;
+  }
+
+  resource.active = !patient.arc;
+
+  const name: FhirHumanName = { use: 'official' };
+  const displayName = formatDisplayName(patient);
+  if (displayName) {
+    name.text = displayName;
+  }
+  const given = [patient.fn, patient.mn].filter((part): part is string => Boolean(part?.trim()));
+  if (given.length > 0) {
+    name.given = given;
+  }
+  if (patient.ln) {
+    name.family = patient.ln;
+  }
+  if (patient.s) {
+    name.prefix = [patient.s];
+  }
+  if (Object.keys(name).length > 1) {
+    resource.name = [name];
+  }
+
+  const telecom: FhirContactPoint[] = [];
+  const phone = toE164(patient.mobile, patient.ccd, options.defaultCountryCode);
+  if (phone) {
+    telecom.push({ system: 'phone', value: phone, use: 'mobile' });
+  }
+  if (patient.email) {
+    telecom.push({ system: 'email', value: patient.email });
+  }
+  if (telecom.length > 0) {
+    resource.telecom = telecom;
+  }
+
+  resource.gender = GENDER_TO_FHIR[patient.gen];
+  resource.birthDate = patient.dob;
+
+  return resource;
+}
+
+/**
+ * Convert a FHIR R4 Patient resource to Trinity patient data
+ *
+ * The official (or first) name is used; a name given only as text is split with parseFullName.
+ * The mobile (or first) phone is split into `ccd` and `mobile`. `unknown` gender maps to "O".
+ *
+ * @param resource FHIR Patient resource
+ * @param options Mapping options
+ * @returns Patient data, ready for `patients.create` once `oid`, `u_ate` and `arc` are dropped
+ * @throws ValidationError when the resource has no gender or birth date, or its extensions are malformed
+ *
+ * @example
+ * ```typescript
+ * const { oid, u_ate, arc, ...data } = fromFhirPatient(resource);
+ * await sdk.patients.create(data);
+ * ```
+ */
+export function fromFhirPatient<TExtras extends PatientExtras = PatientExtras>(
+  resource: FhirPatient,
+  options: FhirMappingOptions = {}
+): PatientFromFhir<TExtras> {
+  const baseUrl = options.extensionBaseUrl || FHIR_EXTENSION_BASE_URL;
+
+  const fieldErrors: Record<string, string[]> = {};
+  if (resource?.resourceType !== 'Patient') {
+    throw new ValidationError('Resource is not a FHIR Patient', resource, undefined, {}, [
+      'Resource is not a FHIR Patient',
+    ]);
+  }
+  const gen = resource.gender ? GENDER_FROM_FHIR[resource.gender] : undefined;
+  if (!gen) {
+    fieldErrors.gen = [resource.gender ? `Unsupported gender "${resource.gender}"` : 'Gender is required'];
+  }
+  if (!resource.birthDate || !/^\d{4}-\d{2}-\d{2}$/.test(resource.birthDate)) {
+    fieldErrors.dob = [resource.birthDate ? 'Birth date must be a full date (YYYY-MM-DD)' : 'Birth date is required'];
+  }
+
+  const extension = (name: string) => resource.extension?.find((item) => item.url === `${baseUrl}/${name}`);
+  const bloodGroup = extension('blood-group')?.valueCode;
+  if (bloodGroup && !BLOOD_GROUPS.includes(bloodGroup as BloodGroup)) {
+    fieldErrors.bg = [`Unsupported blood group "${bloodGroup}"`];
+  }
+  let extras: TExtras | undefined;
+  const extrasJson = extension('extras')?.valueString;
+  if (extrasJson) {
+    try {
+      extras = JSON.parse(extrasJson);
+    } catch {
+      fieldErrors.extras = ['Extras extension is not valid JSON'];
+    }
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError('FHIR Patient cannot be mapped to a Trinity patient', resource, fieldErrors, fieldErrors);
+  }
+
+  const data: PatientFromFhir<TExtras> = { gen: gen!, dob: resource.birthDate! };
+  if (resource.id) {
+    data.oid = resource.id;
+  }
+  if (resource.meta?.lastUpdated) {
+    const updatedAt = Date.parse(resource.meta.lastUpdated);
+    if (!Number.isNaN(updatedAt)) {
+      data.u_ate = Math.floor(updatedAt / 1000);
+    }
+  }
+  if (resource.active === false) {
+    data.arc = true;
+  }
+
+  const name = resource.name?.find((item) => item.use === 'official') || resource.name?.[0];
+  if (name) {
+    const parts: PatientNameParts = name.given?.length || name.family
+      ? { fn: name.given?.[0], mn: name.given?.slice(1).join(' ') || undefined, ln: name.family }
+      : parseFullName(name.text || '');
+    parts.s = name.prefix?.join(' ') || parts.s;
+    for (const key of ['s', 'fn', 'mn', 'ln'] as const) {
+      if (parts[key]) {
+        data[key] = parts[key];
+      }
+    }
+    const fullName = (name.text && withoutSalutation(name.text)) || composeFullName(parts);
+    if (fullName) {
+      data.fln = fullName;
+    }
+  }
+
+  const phones = resource.telecom?.filter((item) => item.system === 'phone' && item.value) || [];
+  const phone = phones.find((item) => item.use === 'mobile') || phones[0];
+  const parsed = phone && parsePhoneNumber(phone.value!, options.defaultCountryCode || DEFAULT_COUNTRY_CODE);
+  if (parsed) {
+    data.ccd = parsed.countryCode;
+    data.mobile = parsed.nationalNumber;
+  }
+  const email = resource.telecom?.find((item) => item.system === 'email' && item.value);
+  if (email) {
+    data.email = email.value;
+  }
+
+  const abhaSystem = options.abhaSystem || ABHA_IDENTIFIER_SYSTEM;
+  const abha = resource.identifier?.find((item) => item.system === abhaSystem && item.value);
+  if (abha) {
+    data.abha = normalizeAbha(abha.value!) || abha.value;
+  }
+  const username = resource.identifier?.find((item) => item.system === `${baseUrl}/username` && item.value);
+  if (username) {
+    data.username = username.value;
+  }
+
+  if (bloodGroup) {
+    data.bg = bloodGroup as BloodGroup;
+  }
+  const isAge = extension('dob-from-age')?.valueBoolean;
+  if (isAge !== undefined) {
+    data.is_age = isAge;
+  }
+  if (extras) {
+    data.extras = extras;
+  }
+
+  return data;
+}
+
+/**
+ * Wrap Trinity patients in a FHIR searchset Bundle
+ *
+ * @param patients Trinity patients
+ * @param options Mapping options
+ * @returns Bundle with one `Patient/<oid>` entry per patient
+ */
+export function toFhirBundle<TExtras extends PatientExtras>(
+  patients: Patient<TExtras>[],
+  options: FhirMappingOptions = {}
+): FhirPatientBundle {
+  return {
+    resourceType: 'Bundle',
+    type: 'searchset',
+    total: patients.length,
+    entry: patients.map((patient) => ({
+      fullUrl: `Patient/${patient.oid}`,
+      resource: toFhirPatient(patient, options),
+      search: { mode: 'match' },
+    })),
+  };
+}
+
+/**
+ * Read the Patient resources of a FHIR Bundle; entries of other resource types are skipped
+ *
+ * @throws ValidationError when a Patient resource cannot be mapped
+ */
+export function fromFhirBundle<TExtras extends PatientExtras = PatientExtras>(
+  bundle: FhirPatientBundle,
+  options: FhirMappingOptions = {}
+): PatientFromFhir<TExtras>[] {
+  return (bundle.entry || [])
+    .filter((entry) => entry.resource?.resourceType === 'Patient')
+    .map((entry) => fromFhirPatient<TExtras>(entry.resource, options));
+}
+
+/**
+ * Full name text without its leading salutations ("Dr. Asha Rao" -> "Asha Rao"), as `fln` is stored
+ */
+function withoutSalutation(text: string): string {
+  const salutations = parseFullName(text).s?.split(' ').length || 0;
+  return text.trim().split(/\s+/).slice(salutations).join(' ');
+}
+
+/**
+ * FHIR instant from an epoch timestamp in seconds (server) or milliseconds (local records)
+ */
+function toInstant(epoch: number): string {
+  return new Date(epoch < 1e12 ? epoch * 1000 : epoch).toISOString();
+}
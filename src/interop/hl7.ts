@@ -0,0 +1,365 @@
+/**
+ * HL7 v2 PID (patient identification) segment parsing and generation
+ *
+ * Fields used: PID-3 identifiers (CX), PID-5 name (XPN), PID-7 date of birth (TS),
+ * PID-8 administrative sex and PID-13 home phone/email (XTN).
+ */
+
+import { ValidationError } from '../errors';
+import { normalizeAbha } from '../helpers/abha';
+import { composeFullName, parseFullName } from '../helpers/name';
+import { DEFAULT_COUNTRY_CODE, parsePhoneNumber } from '../helpers/phone';
+import { CreatePatientData, Gender, Patient, PatientExtras, UpdatePatientData } from '../types';
+
+/**
+ * HL7 v2 delimiters, as declared in MSH-1 and MSH-2
+ */
+export interface Hl7Separators {
+  field: string;
+  component: string;
+  repetition: string;
+  escape: string;
+  subcomponent: string;
+}
+
+/**
+ * Options for PID parsing and generation
+ */
+export interface Hl7PidOptions {
+  /**
+   * Delimiters (default: "|^~\&"). When parsing a full message, the delimiters declared
+   * in its MSH segment are used unless given here.
+   */
+  separators?: Partial<Hl7Separators>;
+  /** Assigning authority of Trinity OIDs in PID-3 (default: "TRINITY") */
+  assigningAuthority?: string;
+  /** Assigning authority of ABHA identifiers in PID-3 (default: "ABDM") */
+  abhaAuthority?: string;
+  /** Country code for phone numbers without one (default: "+91") */
+  defaultCountryCode?: string;
+}
+
+/**
+ * Options for PID generation
+ */
+export interface Hl7PidWriteOptions extends Hl7PidOptions {
+  /** PID-1 set ID (default: 1) */
+  setId?: number;
+}
+
+/**
+ * Patient data read from a PID segment, with the Trinity OID when PID-3 carries one
+ */
+export type PatientFromHl7<TExtras extends PatientExtras = PatientExtras> = UpdatePatientData<TExtras> & {
+  oid?: string;
+};
+
+export const DEFAULT_HL7_SEPARATORS: Hl7Separators = {
+  field: '|',
+  component: '^',
+  repetition: '~',
+  escape: '\\',
+  subcomponent: '&',
+};
+
+const DEFAULT_ASSIGNING_AUTHORITY = 'TRINITY';
+const DEFAULT_ABHA_AUTHORITY = 'ABDM';
+
+/** HL7 table 0001 (administrative sex) to Trinity gender; U (unknown), A and N map to "O" */
+const SEX_TO_GENDER: Record<string, Gender> = {
+  M: 'M',
+  F: 'F',
+  O: 'O',
+  U: 'O',
+  A: 'O',
+  N: 'O',
+};
+
+/**
+ * Read patient data from a PID segment, or from the PID segment of a full message
+ *
+ * Only fields present in the segment are returned, so the result can be sent as an update.
+ *
+ * @param input PID segment, or a message containing one (segments separated by CR or LF)
+ * @param options Parsing options
+ * @returns Patient fields found in the segment
+ * @throws ValidationError when the input has no PID segment
+ *
+ * @example
+ * ```typescript
+ * parsePidSegment('PID|1||91502812345673^^^ABDM^NH||Rao^Asha^^^Dr.||19900615|F|||||^PRN^CP^^91^^9876543210');
+ * // { abha: '91502812345673', ln: 'Rao', fn: 'Asha', s: 'Dr.', fln: 'Asha Rao',
+ * //   dob: '1990-06-15', gen: 'F', ccd: '+91', mobile: '9876543210' }
+ * ```
+ */
+export function parsePidSegment<TExtras extends PatientExtras = PatientExtras>(
+  input: string,
+  options: Hl7PidOptions = {}
+): PatientFromHl7<TExtras> {
+  const segments = input.split(/\r\n|\r|\n/).filter((segment) => segment.trim());
+  const separators = resolveSeparators(segments, options.separators);
+  const segment = segments.find((line) => line.startsWith(`PID${separators.field}`) || line === 'PID');
+  if (!segment) {
+    throw new ValidationError('No PID segment found', undefined, undefined, {}, ['No PID segment found']);
+  }
+
+  const fields = segment.split(separators.field);
+  const field = (index: number) => fields[index] || '';
+  const repetitions = (index: number) =>
+    field(index).split(separators.repetition).map((repetition) => repetition.split(separators.component));
+  const text = (value: string | undefined) =>
+    unescapeHl7(value?.split(separators.subcomponent)[0] || '', separators).trim();
+
+  const data: PatientFromHl7<TExtras> = {};
+
+  // PID-3 identifiers (PID-2 kept for older senders)
+  const assigningAuthority = options.assigningAuthority || DEFAULT_ASSIGNING_AUTHORITY;
+  const abhaAuthority = options.abhaAuthority || DEFAULT_ABHA_AUTHORITY;
+  for (const identifier of [...repetitions(3), ...repetitions(2)]) {
+    const value = text(identifier[0]);
+    const authority = text(identifier[3]);
+    if (!value) {
+      continue;
+    }
+    if (authority === assigningAuthority && !data.oid) {
+      data.oid = value;
+    } else if (authority === abhaAuthority && !data.abha) {
+      data.abha = normalizeAbha(value) || value;
+    }
+  }
+
+  // PID-5 name: family^given^middle^suffix^prefix
+  const [name] = repetitions(5);
+  if (name && name.some((component) => component)) {
+    const parts = { ln: text(name[0]), fn: text(name[1]), mn: text(name[2]), s: text(name[4]) };
+    for (const key of ['ln', 'fn', 'mn', 's'] as const) {
+      if (parts[key]) {
+        data[key] = parts[key];
+      }
+    }
+    const fullName = composeFullName(parts);
+    if (fullName) {
+      data.fln = fullName;
+    }
+  }
+
+  // PID-7 date of birth: YYYYMMDD[HHMM[SS]]
+  const dob = /^(\d{4})(\d{2})(\d{2})/.exec(text(repetitions(7)[0]?.[0]));
+  if (dob) {
+    data.dob = `${dob[1]}-${dob[2]}-${dob[3]}`;
+  }
+
+  // PID-8 administrative sex
+  const sex = text(field(8)).toUpperCase();
+  if (sex) {
+    data.gen = SEX_TO_GENDER[sex] || 'O';
+  }
+
+  // PID-13 home phone and email; a cellular number is preferred over other phones
+  const telecoms = repetitions(13).filter((telecom) => telecom.some((component) => component));
+  const email = telecoms.find((telecom) => text(telecom[1]) === 'NET' || text(telecom[3]));
+  if (email && text(email[3])) {
+    data.email = text(email[3]);
+  }
+  const phones = telecoms.filter((telecom) => telecom !== email);
+  const phone = phones.find((telecom) => text(telecom[2]) === 'CP') || phones[0];
+  if (phone) {
+    const countryCode = text(phone[4]).replace(/^\+/, '');
+    const number = text(phone[6])
+      ? `${countryCode ? `+${countryCode}` : ''}${text(phone[5])}${text(phone[6])}`
+      : text(phone[0]);
+    const parsed = number && parsePhoneNumber(number, options.defaultCountryCode || DEFAULT_COUNTRY_CODE);
+    if (parsed) {
+      data.ccd = parsed.countryCode;
+      data.mobile = parsed.nationalNumber;
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Read create data from a PID segment
+ *
+ * @throws ValidationError when the segment has no sex or full date of birth
+ *
+ * @example
+ * ```typescript
+ * const { oid, ...data } = pidToCreatePatientData(message);
+ * await sdk.patients.create(data);
+ * ```
+ */
+export function pidToCreatePatientData<TExtras extends PatientExtras = PatientExtras>(
+  input: string,
+  options: Hl7PidOptions = {}
+): CreatePatientData<TExtras> & { oid?: string } {
+  const data = parsePidSegment<TExtras>(input, options);
+
+  const fieldErrors: Record<string, string[]> = {};
+  if (!data.gen) {
+    fieldErrors.gen = ['PID-8 (administrative sex) is required'];
+  }
+  if (!data.dob) {
+    fieldErrors.dob = ['PID-7 (date of birth) must include year, month and day'];
+  }
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError('PID segment cannot be mapped to a new patient', undefined, fieldErrors, fieldErrors);
+  }
+
+  return data as CreatePatientData<TExtras> & { oid?: string };
+}
+
+/**
+ * Build a PID segment for a patient
+ *
+ * @param patient Trinity patient
+ * @param options Generation options
+ * @returns PID segment without a segment terminator
+ *
+ * @example
+ * ```typescript
+ * toPidSegment(patient);
+ * // 'PID|1||p-123^^^TRINITY^PI~91502812345673^^^ABDM^NH||Rao^Asha^Kumari^^Dr.^^L||19900615|F|||||^PRN^CP^^91^^9876543210'
+ * ```
+ */
+export function toPidSegment<TExtras extends PatientExtras>(
+  patient: Patient<TExtras>,
+  options: Hl7PidWriteOptions = {}
+): string {
+  const separators = { ...DEFAULT_HL7_SEPARATORS, ...options.separators };
+  const escape = (value: string | undefined) => escapeHl7(value || '', separators);
+  const components = (values: (string | undefined)[]) => trimEmpty(values.map(escape)).join(separators.component);
+
+  const fields: string[] = ['PID', String(options.setId ?? 1), ''];
+
+  // PID-3
+  const identifiers = [
+    components([patient.oid, '', '', options.assigningAuthority || DEFAULT_ASSIGNING_AUTHORITY, 'PI']),
+  ];
+  if (patient.abha) {
+    const abha = normalizeAbha(patient.abha) || patient.abha;
+    identifiers.push(components([abha, '', '', options.abhaAuthority || DEFAULT_ABHA_AUTHORITY, 'NH']));
+  }
+  fields.push(identifiers.join(separators.repetition), '');
+
+  // PID-5 (legal name); the parts are parsed from fln when the patient has none
+  const hasParts = Boolean(patient.fn || patient.mn || patient.ln);
+  const name = hasParts ? patient : { ...parseFullName(patient.fln || ''), s: patient.s };
+  fields.push(components([name.ln, name.fn, name.mn, '', name.s, '', 'L']), '');
+
+  // PID-7, PID-8
+  fields.push(patient.dob ? patient.dob.replace(/-/g, '') : '', patient.gen || '');
+
+  // PID-9 to PID-12 are not used
+  fields.push('', '', '', '');
+
+  // PID-13
+  const telecoms: string[] = [];
+  const phone = patient.mobile
+    ? parsePhoneNumber(patient.mobile, patient.ccd || options.defaultCountryCode || DEFAULT_COUNTRY_CODE)
+    : null;
+  if (phone) {
+    telecoms.push(components(['', 'PRN', 'CP', '', phone.countryCode.replace('+', ''), '', phone.nationalNumber]));
+  }
+  if (patient.email) {
+    telecoms.push(components(['', 'NET', 'Internet', patient.email]));
+  }
+  fields.push(telecoms.join(separators.repetition));
+
+  return trimEmpty(fields).join(separators.field);
+}
+
+/**
+ * Escape delimiter characters and line breaks in a text value
+ *
+ * @example
+ * ```typescript
+ * escapeHl7('Rao|Iyer'); // 'Rao\\F\\Iyer'
+ * ```
+ */
+export function escapeHl7(value: string, separators: Hl7Separators = DEFAULT_HL7_SEPARATORS): string {
+  const { escape } = separators;
+  const sequences: Record<string, string> = {
+    [separators.escape]: 'E',
+    [separators.field]: 'F',
+    [separators.component]: 'S',
+    [separators.repetition]: 'R',
+    [separators.subcomponent]: 'T',
+  };
+
+  return Array.from(value)
+    .map((char) => {
+      if (sequences[char]) {
+        return `${escape}${sequences[char]}${escape}`;
+      }
+      if (char === '\r' || char === '\n') {
+        return `${escape}X${char === '\r' ? '0D' : '0A'}${escape}`;
+      }
+      return char;
+    })
+    .join('');
+}
+
+/**
+ * Replace escape sequences (\F\, \S\, \R\, \T\, \E\, \Xhh\, \.br\) with the characters they stand for
+ */
+export function unescapeHl7(value: string, separators: Hl7Separators = DEFAULT_HL7_SEPARATORS): string {
+  const { escape } = separators;
+  if (!value.includes(escape)) {
+    return value;
+  }
+
+  const quoted = escape.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`${quoted}([^${quoted}]*)${quoted}`, 'g');
+
+  return value.replace(pattern, (sequence, code: string) => {
+    switch (code) {
+      case 'F':
+        return separators.field;
+      case 'S':
+        return separators.component;
+      case 'R':
+        return separators.repetition;
+      case 'T':
+        return separators.subcomponent;
+      case 'E':
+        return separators.escape;
+      case '.br':
+        return '\n';
+      default:
+        if (/^X([0-9A-Fa-f]{2})+$/.test(code)) {
+          return code
+            .slice(1)
+            .match(/../g)!
+            .map((hex) => String.fromCharCode(parseInt(hex, 16)))
+            .join('');
+        }
+        // Formatting and character set sequences are dropped
+        return /^(H|N|\.\w+|[CM][0-9A-Fa-f]+)$/.test(code) ? '' : sequence;
+    }
+  });
+}
+
+/**
+ * Delimiters from the options, or from the MSH segment of the message
+ */
+function resolveSeparators(segments: string[], overrides: Partial<Hl7Separators> = {}): Hl7Separators {
+  const msh = segments.find((segment) => segment.startsWith('MSH'));
+  const declared: Partial<Hl7Separators> = {};
+  if (msh && msh.length >= 8) {
+    declared.field = msh[3];
+    [declared.component, declared.repetition, declared.escape, declared.subcomponent] = Array.from(msh.slice(4, 8));
+  }
+  return { ...DEFAULT_HL7_SEPARATORS, ...declared, ...overrides };
+}
+
+/**
+ * Drop trailing empty values (HL7 omits trailing delimiters)
+ */
+function trimEmpty(values: string[]): string[] {
+  let end = values.length;
+  while (end > 0 && !values[end - 1]) {
+    end--;
+  }
+  return values.slice(0, end);
+}
@@ -3,7 +3,7 @@
  */
 
 import { HttpClient } from '../client';
-import { MinifiedPatient } from '../types';
+import { CallOptions, MinifiedPatient } from '../types';
 
 /**
  * Minified patient methods for data loading
@@ -20,6 +20,7 @@ export class MinifiedMethods {
      * Get minified patient profiles with pagination
      * 
      * @param params Optional query parameters for filtering and pagination
+     * @param options Optional request options (signal, timeout)
      * @returns Array of minified patient profiles
      * 
      * @example
@@ -29,17 +30,16 @@ export class MinifiedMethods {
      * const profiles = await minifiedMethods.getMinified({ page: 1, limit: 50 });
      * ```
      */
-    async getMinified(params?: Record<string, string | number | boolean>): Promise<{ data: MinifiedPatient[] }> {
+    async getMinified(params?: Record<string, string | number | boolean>, options?: CallOptions): Promise<{ data: MinifiedPatient[] }> {
         const config = this.client.getConfig();
         let queryParams = { ...params };
 
-        if (config.extraMinifiedPatientFields) {
-            queryParams.select = config.extraMinifiedPatientFields.join(",");
-            // replace 'is_age,' or 'is_age' with ''
-            queryParams.select = queryParams.select.replace(",is_age", "");
-        }
+        // ccd is always selected: the local index keys mobiles by their E.164 form
+        const select = [...(config.extraMinifiedPatientFields || []), "ccd"];
+        // is_age comes with dob and is not a selectable field
+        queryParams.select = select.filter((field) => field !== "is_age").join(",");
 
-        const response = await this.client.get<{ data: MinifiedPatient[] }>(`${this.basePath}/minified`, queryParams);
+        const response = await this.client.get<{ data: MinifiedPatient[] }>(`${this.basePath}/minified`, queryParams, options);
         return response.data;
     }
 
@@ -48,9 +48,10 @@ export class MinifiedMethods {
      * 
      * @param page Page number (1-based)
      * @param limit Number of records per page
+     * @param options Optional request options (signal, timeout)
      * @returns Array of minified patient profiles
      */
-    async getPage(page: number, limit: number = 100): Promise<{ data: MinifiedPatient[] }> {
-        return this.getMinified({ page, limit });
+    async getPage(page: number, limit: number = 100, options?: CallOptions): Promise<{ data: MinifiedPatient[] }> {
+        return this.getMinified({ page, limit }, options);
     }
 }
\ No newline at end of file
@@ -2,53 +2,131 @@
  * Patient CRUD operations
  */
 
-import { HttpClient } from '../client';
+import { HttpClient, IDEMPOTENCY_KEY_HEADER, IF_MATCH_HEADER } from '../client';
+import { ConflictError, DuplicatePatientError, MergeError, NetworkError, toTrinitySDKError, ValidationError } from '../errors';
+import { dobFromAge } from '../helpers/age';
+import { mapWithConcurrency } from '../helpers/concurrency';
+import { scorePotentialDuplicate } from '../helpers/duplicates';
+import { parsePatientExtras } from '../helpers/extras';
+import { generateId } from '../helpers/id';
+import { buildPatientMerge, MERGED_INTO_EXTRAS_KEY } from '../helpers/merge';
+import { parsePhoneNumber } from '../helpers/phone';
 import {
+    toValidationError,
+    validateCreatePatientData,
+    validateUpdatePatientData
+} from '../helpers/patient-validator';
+import { LocalIndexSyncService } from '../services/local-index-sync';
+import { assertSyncedOid, isProvisionalOid, OfflineQueueService } from '../services/offline-queue';
+import {
+    AgeInput,
     ApiResponse,
+    BulkCreateOptions,
+    BulkItemResult,
+    BulkItemSuccess,
+    BulkOperationOptions,
+    BulkUpdateItem,
+    CallOptions,
     CreatePatientData,
-    LocalMinifiedPatient,
+    CreatePatientOptions,
+    CreatePatientResult,
+    DuplicateCandidateOptions,
+    FindDuplicatesOptions,
     Patient,
-    UpdatePatientData
+    PatientExtras,
+    PatientField,
+    PatientFieldDiff,
+    PatientMergePlan,
+    PatientMergeResult,
+    PatientMergeStep,
+    PatientMergeStrategy,
+    PatientValidationResult,
+    PatientValidatorOptions,
+    PotentialDuplicate,
+    UpdatePatientData,
+    UpdatePatientOptions
 } from '../types';
+import { UtilsMethods } from './utils';
+
+const DEFAULT_BULK_CONCURRENCY = 4;
+const DEFAULT_BULK_CHUNK_SIZE = 50;
+const DEFAULT_MAX_CONFLICT_RETRIES = 3;
+const DEFAULT_DUPLICATE_MIN_SCORE = 0.5;
+const DEFAULT_DUPLICATE_LIMIT = 10;
+const DEFAULT_DUPLICATE_THRESHOLD = 0.85;
+
+/**
+ * Apply an extras patch onto the current extras; keys set to undefined are removed
+ */
+function mergeExtras<TExtras extends PatientExtras>(current: TExtras | undefined, patch: Partial<TExtras>): TExtras {
+    const extras: Record<string, unknown> = { ...current, ...patch };
+    Object.keys(extras).forEach((key) => {
+        if (extras[key] === undefined) {
+            delete extras[key];
+        }
+    });
+    return extras as TExtras;
+}
 
 /**
  * Patient CRUD methods
  */
-export class PatientMethods {
+export class PatientMethods<TExtras extends PatientExtras = PatientExtras> {
     private client: HttpClient;
     private readonly basePath = '/profiles/v1/patient';
-    private indexedDBUpdateCallback: ((patient: LocalMinifiedPatient) => Promise<void>) | null = null;
-    private indexedDBPartialUpdateCallback: ((oid: string, updates: Partial<LocalMinifiedPatient>) => Promise<void>) | null = null;
+    private localIndex: LocalIndexSyncService | null = null;
+    private duplicateCandidatesCallback: ((data: CreatePatientData<TExtras>, options?: DuplicateCandidateOptions) => Promise<Patient<TExtras>[]>) | null = null;
+
+    private offlineQueue: OfflineQueueService | null = null;
+    private utils: UtilsMethods<TExtras> | null = null;
 
     constructor(client: HttpClient) {
         this.client = client;
     }
 
     /**
-     * Set callback for updating IndexedDB after patient operations
+     * Set offline queue used to store mutations while the network is unavailable
+     */
+    setOfflineQueue(queue: OfflineQueueService | null): void {
+        this.offlineQueue = queue;
+    }
+
+    /**
+     * Set the local index reconciliation layer that mirrors patient mutations into local search
+     */
+    setLocalIndex(localIndex: LocalIndexSyncService | null): void {
+        this.localIndex = localIndex;
+    }
+
+    /**
+     * Set the utility methods used by merge to archive and remove fields
      */
-    setIndexedDBUpdateCallback(callback: (patient: LocalMinifiedPatient) => Promise<void>): void {
-        this.indexedDBUpdateCallback = callback;
+    setUtils(utils: UtilsMethods<TExtras> | null): void {
+        this.utils = utils;
     }
 
     /**
-     * Set callback for partial updating IndexedDB after patient operations
+     * Set callback for collecting stored patients that could be duplicates of a new patient
      */
-    setIndexedDBPartialUpdateCallback(callback: (oid: string, updates: Partial<LocalMinifiedPatient>) => Promise<void>): void {
-        this.indexedDBPartialUpdateCallback = callback;
+    setDuplicateCandidatesCallback(callback: (data: CreatePatientData<TExtras>, options?: DuplicateCandidateOptions) => Promise<Patient<TExtras>[]>): void {
+        this.duplicateCandidatesCallback = callback;
     }
 
     /**
      * Create a new patient profile
      * 
      * @param data Patient creation data
-     * @returns Created patient or just the OID if is_developer flag is set
+     * @param options Optional request options (signal, timeout, idempotencyKey, validate, duplicateCheck).
+     * The idempotency key is sent as a header and reused across retries and offline replays.
+     * @returns Created patient OID; a provisional OID with queued: true when stored offline, and
+     * the potential duplicates when the duplicate check warned
+     * @throws ValidationError when validation is enabled and the payload has errors,
+     * or when extras do not match the registered extras schema
+     * @throws DuplicatePatientError when the duplicate check rejects the create
      * 
      * @example
      * ```typescript
-     * const patient = await sdk.patients.create({
-     *   oid: 'unique-id',
-     *   wid: 'workspace-id',
+     * const { oid } = await sdk.patients.create({
      *   gen: 'M',
      *   dob: '1990-01-01',
      *   fn: 'John',
@@ -58,57 +136,178 @@ export class PatientMethods {
      * });
      * ```
      */
-    async create(data: CreatePatientData): Promise<{ oid: string }> {
-        const response = await this.client.post<{ oid: string }>(this.basePath, data);
+    async create(input: CreatePatientData<TExtras>, options?: CreatePatientOptions): Promise<CreatePatientResult<TExtras>> {
+        const { duplicateCheck, ...createOptions } = options || {};
+        const check = { ...this.client.getConfig().duplicateCheck, ...duplicateCheck };
 
-        // Update IndexedDB if callback is available and we have patient data
-        if (this.indexedDBUpdateCallback && typeof response.data === 'object' && 'oid' in response.data) {
-            try {
-                // Build full name from available fields
-                const fullName = data.fln ||
-                    [data.fn, data.mn, data.ln].filter(Boolean).join(' ') ||
-                    'Unknown';
-
-                const localPatient: LocalMinifiedPatient = {
-                    oid: response.data.oid,
-                    fln: fullName,
-                    mobile: 'mobile' in data ? data.mobile : undefined,
-                    username: 'username' in data ? data.username : undefined
-                };
+        let duplicates: PotentialDuplicate<TExtras>[] = [];
+        if (check.enabled) {
+            duplicates = await this.findPotentialDuplicates(input, {
+                minScore: check.threshold ?? DEFAULT_DUPLICATE_THRESHOLD,
+                signal: createOptions.signal,
+                timeout: createOptions.timeout,
+            });
+            if (duplicates.length > 0 && check.action === 'reject') {
+                throw new DuplicatePatientError(
+                    `Patient may already exist (${duplicates.length} potential duplicate${duplicates.length === 1 ? '' : 's'})`,
+                    duplicates
+                );
+            }
+        }
 
-                // Add default fields to the local patient
-                const selectedExtraMinifiedFields = this.client.getConfig().extraMinifiedPatientFields;
-                if (selectedExtraMinifiedFields?.includes("u_ate")) {
-                    localPatient.u_ate = Date.now();
-                }
-                if (selectedExtraMinifiedFields?.includes("dob")) {
-                    localPatient.dob = data.dob;
-                    if ("is_age" in data) {
-                        localPatient.is_age = data.is_age;
-                    }
-                }
-                if (selectedExtraMinifiedFields?.includes('gen')) {
-                    localPatient.gen = data.gen;
-                }
-                if (selectedExtraMinifiedFields?.includes('abha')) {
-                    if ('abha' in data) {
-                        localPatient.abha = data.abha;
-                    }
-                }
+        const { result, data } = await this.sendCreate(input, createOptions);
+        await this.localIndex?.patientCreated(result.oid, data);
+        return duplicates.length > 0 ? { ...result, duplicates } : result;
+    }
 
-                await this.indexedDBUpdateCallback(localPatient);
-            } catch (error) {
-                console.warn('Failed to update IndexedDB after patient creation:', error);
+    /**
+     * Find stored patients that may be the same person as a patient about to be registered.
+     * Candidates come from the local index (when synced) and from a mobile number lookup; each is
+     * scored on name similarity, DOB or age closeness, gender, mobile and ABHA.
+     * 
+     * @param data New patient data
+     * @param options Optional options (minScore, limit, signal, timeout)
+     * @returns Matches scoring at least minScore, best first, with the reasons for each
+     * 
+     * @example
+     * ```typescript
+     * const matches = await sdk.patients.findPotentialDuplicates({
+     *   fln: 'Ramesh Kr', gen: 'M', dob: '1980-04-02', mobile: '9876543210'
+     * });
+     * matches.forEach(({ patient, score, reasons }) =>
+     *   console.log(patient.fln, score, reasons.map((reason) => reason.description))
+     * );
+     * ```
+     */
+    async findPotentialDuplicates(
+        data: CreatePatientData<TExtras>,
+        options?: FindDuplicatesOptions
+    ): Promise<PotentialDuplicate<TExtras>[]> {
+        const { minScore = DEFAULT_DUPLICATE_MIN_SCORE, limit = DEFAULT_DUPLICATE_LIMIT, ...callOptions } = options || {};
+        if (!this.duplicateCandidatesCallback) {
+            return [];
+        }
+
+        // Offline, only the local index is searched so the registration is not held up by the API
+        const localOnly = Boolean(this.offlineQueue?.isOffline());
+        const candidates = await this.duplicateCandidatesCallback(data, { ...callOptions, localOnly });
+        const scoringOptions = { defaultCountryCode: this.client.getConfig().defaultCountryCode };
+
+        return candidates
+            .map((patient) => ({ patient, ...scorePotentialDuplicate(data, patient, scoringOptions) }))
+            .filter((match) => match.score >= minScore)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+
+    /**
+     * Create many patients, sending at most `concurrency` requests at a time.
+     * A failing item does not stop the others; each item gets its own result. The local index
+     * is written in one transaction per chunk.
+     * 
+     * @param items Patient creation data
+     * @param options Optional options (concurrency, chunkSize, validate, idempotencyKeys, signal, timeout)
+     * @returns One result per item, in input order, with the new OID or the error
+     * 
+     * @example
+     * ```typescript
+     * const results = await sdk.patients.bulkCreate(rows, { concurrency: 8 });
+     * const failed = results.filter((result) => !result.success);
+     * ```
+     */
+    async bulkCreate(items: CreatePatientData<TExtras>[], options?: BulkCreateOptions): Promise<BulkItemResult[]> {
+        const { concurrency, chunkSize, idempotencyKeys, ...createOptions } = options || {};
+
+        return this.runBulk(
+            items,
+            concurrency,
+            chunkSize,
+            async (item, index) => {
+                const { result, data } = await this.sendCreate(item, {
+                    ...createOptions,
+                    idempotencyKey: idempotencyKeys?.[index],
+                });
+                return { result: { index, success: true, ...result }, local: { oid: result.oid, data } };
+            },
+            () => undefined,
+            async (created) => {
+                await this.localIndex?.patientsCreated(created);
+            }
+        );
+    }
+
+    /**
+     * Validate, queue or send a creation; the caller writes the local index
+     */
+    private async sendCreate(
+        input: CreatePatientData<TExtras>,
+        options?: CreatePatientOptions
+    ): Promise<{ result: { oid: string; queued?: boolean }; data: CreatePatientData<TExtras> }> {
+        const { idempotencyKey = generateId(), validate, ...callOptions } = options || {};
+        const data = this.writeExtras(this.normalizeMobile(input));
+
+        if (this.shouldValidate(validate)) {
+            this.assertValid(validateCreatePatientData(data, this.getValidatorOptions()));
+        }
+
+        if (this.offlineQueue && await this.offlineQueue.shouldQueue()) {
+            return { result: await this.queueCreate(data, idempotencyKey), data };
+        }
+
+        let response;
+        try {
+            response = await this.client.request<{ oid: string }>({
+                method: 'POST',
+                path: this.basePath,
+                body: data,
+                headers: { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey },
+                ...callOptions,
+            });
+        } catch (error) {
+            if (this.offlineQueue && error instanceof NetworkError) {
+                return { result: await this.queueCreate(data, idempotencyKey), data };
+            }
+            // The key was already used: the patient exists, resolve to its OID
+            const existingOid = error instanceof ConflictError ? error.response?.oid : undefined;
+            if (typeof existingOid === 'string') {
+                response = { data: { oid: existingOid } };
+            } else {
+                throw error;
             }
         }
 
-        return response.data;
+        return { result: response.data, data };
+    }
+
+    /**
+     * Create a patient from a stated age instead of a date of birth.
+     * The DOB is derived from the age (today minus the given units) and sent with is_age: true.
+     * 
+     * @param data Patient creation data without dob/is_age
+     * @param age Age in years, months and/or days
+     * @param options Optional request options (signal, timeout, idempotencyKey, validate, duplicateCheck)
+     * @returns The create result, as for create
+     * @throws ValidationError when the age is empty or not made of non-negative whole numbers
+     * 
+     * @example
+     * ```typescript
+     * const { oid } = await sdk.patients.createFromAge({ gen: 'F', fn: 'Asha' }, { years: 34 });
+     * const infant = await sdk.patients.createFromAge({ gen: 'M', fn: 'Baby' }, { months: 5 });
+     * ```
+     */
+    async createFromAge(
+        data: Omit<CreatePatientData<TExtras>, 'dob' | 'is_age'>,
+        age: AgeInput,
+        options?: CreatePatientOptions
+    ): Promise<CreatePatientResult<TExtras>> {
+        return this.create({ ...data, dob: dobFromAge(age), is_age: true }, options);
     }
 
     /**
      * Get a patient by ID
      * 
      * @param id Patient OID
+     * @param options Optional request options (signal, timeout)
      * @returns Patient profile
      * 
      * @example
@@ -116,9 +315,9 @@ export class PatientMethods {
      * const patient = await sdk.patients.get('patient-oid');
      * ```
      */
-    async get(id: string): Promise<Patient> {
-        const response = await this.client.get<Patient>(`${this.basePath}/${id}`);
-        return response.data;
+    async get(id: string, options?: CallOptions): Promise<Patient<TExtras>> {
+        const response = await this.client.get<Patient>(`${this.basePath}/${id}`, undefined, options);
+        return this.readPatient(response.data);
     }
 
     /**
@@ -126,83 +325,395 @@ export class PatientMethods {
      * 
      * @param id Patient OID
      * @param data Update data
+     * @param options Optional request options (signal, timeout, validate, expectedUpdatedAt, resolveConflict)
      * @returns API response with success message
+     * @throws ValidationError when validation is enabled and the payload has errors,
+     * or when extras do not match the registered extras schema
+     * @throws ConflictError when expectedUpdatedAt is stale and the conflict is not resolved
+     * @throws PendingSyncError for a conditional update of a patient whose offline creation is not synced
      * 
      * @example
      * ```typescript
      * const updated = await sdk.patients.update('patient-oid', {
      *   fn: 'Jane',
      *   email: 'jane@example.com'
-     * });
+     * }, { expectedUpdatedAt: loaded.u_ate });
      * ```
      */
-    async update(id: string, data: UpdatePatientData): Promise<ApiResponse> {
-        const response = await this.client.patch<ApiResponse>(`${this.basePath}/${id}`, data);
+    async update(id: string, input: UpdatePatientData<TExtras>, options?: UpdatePatientOptions<TExtras>): Promise<ApiResponse> {
+        const { response, data } = await this.sendUpdate(id, input, options);
+        await this.localIndex?.patientUpdated(id, data, response);
+        return response;
+    }
+
+    /**
+     * Update many patients, sending at most `concurrency` requests at a time.
+     * A failing item does not stop the others; each item gets its own result. The local index
+     * is written in one transaction per chunk.
+     * 
+     * @param items Patient OIDs with their update data
+     * @param options Optional options (concurrency, chunkSize, validate, signal, timeout)
+     * @returns One result per item, in input order, with the OID and the error for failed items
+     * 
+     * @example
+     * ```typescript
+     * const results = await sdk.patients.bulkUpdate([
+     *   { oid: 'oid1', data: { email: 'a@example.com' } },
+     *   { oid: 'oid2', data: { bg: 'O+' }, expectedUpdatedAt: loaded.u_ate },
+     * ]);
+     * ```
+     */
+    async bulkUpdate(items: BulkUpdateItem<TExtras>[], options?: BulkOperationOptions): Promise<BulkItemResult[]> {
+        const { concurrency, chunkSize, ...updateOptions } = options || {};
+
+        return this.runBulk(
+            items,
+            concurrency,
+            chunkSize,
+            async ({ oid, data: input, expectedUpdatedAt }, index) => {
+                const { response, data } = await this.sendUpdate(oid, input, { ...updateOptions, expectedUpdatedAt });
+                return {
+                    result: { index, success: true, oid, ...(response.queued ? { queued: true } : {}) },
+                    local: { oid, data, response },
+                };
+            },
+            (item) => item.oid,
+            async (updated) => {
+                await this.localIndex?.patientsUpdated(updated);
+            }
+        );
+    }
+
+    /**
+     * Validate, queue or send an update; the caller writes the local index
+     */
+    private async sendUpdate(
+        id: string,
+        input: UpdatePatientData<TExtras>,
+        options?: UpdatePatientOptions<TExtras>
+    ): Promise<{ response: ApiResponse & { queued?: boolean }; data: UpdatePatientData<TExtras> }> {
+        const { validate, expectedUpdatedAt, resolveConflict, maxConflictRetries, ...callOptions } = options || {};
+        const data = this.prepareUpdate(input, validate);
+
+        // Conditional updates are never queued: the precondition must be checked against the server
+        if (expectedUpdatedAt !== undefined) {
+            assertSyncedOid(id, 'conditionally update');
+            return this.sendConditionalUpdate(id, data, expectedUpdatedAt, options || {});
+        }
 
-        // Update IndexedDB if callback is available - use partial update
-        if (this.indexedDBPartialUpdateCallback) {
+        if (this.offlineQueue && await this.offlineQueue.shouldQueue(id)) {
+            return { response: await this.queueUpdate(id, data), data };
+        }
+
+        let response;
+        try {
+            response = await this.client.patch<ApiResponse>(`${this.basePath}/${id}`, data, callOptions);
+        } catch (error) {
+            if (this.offlineQueue && error instanceof NetworkError) {
+                return { response: await this.queueUpdate(id, data), data };
+            }
+            throw error;
+        }
+
+        return { response: response.data, data };
+    }
+
+    /**
+     * Send an update with an If-Match precondition, letting the resolver retry on conflicts
+     */
+    private async sendConditionalUpdate(
+        id: string,
+        data: UpdatePatientData<TExtras>,
+        expectedUpdatedAt: number,
+        options: UpdatePatientOptions<TExtras>
+    ): Promise<{ response: ApiResponse; data: UpdatePatientData<TExtras> }> {
+        const {
+            validate,
+            resolveConflict,
+            maxConflictRetries = DEFAULT_MAX_CONFLICT_RETRIES,
+            expectedUpdatedAt: _,
+            ...callOptions
+        } = options;
+        let attempted = data;
+        let version = expectedUpdatedAt;
+
+        for (let retries = 0; ; retries++) {
             try {
-                // Map UpdatePatientData fields to LocalMinifiedPatient fields
-                const updates: Partial<LocalMinifiedPatient> = {};
-
-                // Map overlapping fields
-                if (data.mobile !== undefined) updates.mobile = data.mobile;
-                if (data.username !== undefined) updates.username = data.username;
-
-                // Handle full name construction from name parts
-                if (data.fln !== undefined) {
-                    updates.fln = data.fln;
-                } else if (data.fn !== undefined || data.mn !== undefined || data.ln !== undefined) {
-                    // Construct full name from parts if individual name fields are updated
-                    const parts = [data.fn, data.mn, data.ln].filter(Boolean);
-                    if (parts.length > 0) {
-                        updates.fln = parts.join(' ');
-                    }
+                const response = await this.client.request<ApiResponse>({
+                    method: 'PATCH',
+                    path: `${this.basePath}/${id}`,
+                    body: attempted,
+                    headers: { [IF_MATCH_HEADER]: `"${version}"` },
+                    ...callOptions,
+                });
+                return { response: response.data, data: attempted };
+            } catch (error) {
+                // Only a failed precondition means the write was stale; other conflicts (e.g. a taken username) are not
+                if (!(error instanceof ConflictError) || error.statusCode !== 412) {
+                    throw error;
                 }
 
-                const selectedExtraMinifiedFields = this.client.getConfig().extraMinifiedPatientFields;
-                if (selectedExtraMinifiedFields?.includes("u_ate")) {
-                    updates.u_ate = Date.now();
+                const conflict = await this.describeConflict(id, attempted, error, callOptions);
+                if (!resolveConflict || retries >= maxConflictRetries || conflict.current?.u_ate === undefined) {
+                    throw conflict;
                 }
 
-                if (selectedExtraMinifiedFields?.includes("dob")) {
-                    if (data.dob !== undefined) updates.dob = data.dob;
-                    if (data.is_age !== undefined) updates.is_age = data.is_age;
+                const resolved = await resolveConflict({
+                    current: conflict.current as Patient<TExtras>,
+                    attempted,
+                    diff: conflict.diff || [],
+                });
+                if (!resolved) {
+                    throw conflict;
                 }
 
-                if (selectedExtraMinifiedFields?.includes("gen")) {
-                    if (data.gen !== undefined) updates.gen = data.gen;
-                }
+                attempted = this.prepareUpdate(resolved, validate);
+                version = conflict.current.u_ate;
+            }
+        }
+    }
 
-                if (selectedExtraMinifiedFields?.includes("abha")) {
-                    if (data.abha !== undefined) updates.abha = data.abha;
-                }
+    /**
+     * Turn a rejected conditional update into a ConflictError carrying the current record and a diff.
+     * The record is taken from the error response when the server includes it, otherwise fetched.
+     */
+    private async describeConflict(
+        id: string,
+        attempted: UpdatePatientData<TExtras>,
+        error: ConflictError,
+        options: CallOptions
+    ): Promise<ConflictError> {
+        const included = error.response?.current;
+        const current = included && typeof included === 'object' && included.oid
+            ? this.readPatient(included)
+            : await this.get(id, options);
 
-                // Only call the partial update if there are fields to update
-                if (Object.keys(updates).length > 1) { // More than just u_ate
-                    await this.indexedDBPartialUpdateCallback(id, updates);
-                }
-            } catch (error) {
-                console.warn('Failed to update IndexedDB after patient update:', error);
+        const diff: PatientFieldDiff[] = [];
+        for (const [field, value] of Object.entries(attempted)) {
+            const currentValue = current[field as keyof Patient];
+            if (JSON.stringify(value ?? null) !== JSON.stringify(currentValue ?? null)) {
+                diff.push({ field: field as PatientField, attempted: value, current: currentValue });
             }
         }
 
-        return response.data;
+        return new ConflictError(
+            'Patient was modified since it was loaded',
+            error.response,
+            error.statusCode,
+            { current, diff }
+        );
+    }
+
+    /**
+     * Update a patient's age; sets a DOB derived from the age with is_age: true
+     * 
+     * @param id Patient OID
+     * @param age Age in years, months and/or days
+     * @param options Optional request options (signal, timeout, validate)
+     * @returns API response with success message
+     * @throws ValidationError when the age is empty or not made of non-negative whole numbers
+     * 
+     * @example
+     * ```typescript
+     * await sdk.patients.updateAge('patient-oid', { years: 35 });
+     * ```
+     */
+    async updateAge(id: string, age: AgeInput, options?: UpdatePatientOptions<TExtras>): Promise<ApiResponse> {
+        return this.update(id, { dob: dobFromAge(age), is_age: true }, options);
+    }
+
+    /**
+     * Change individual extras keys, keeping the others.
+     * The API replaces extras as a whole, so the current extras are fetched and merged first;
+     * keys set to undefined are removed.
+     * 
+     * @param id Patient OID
+     * @param patch Extras keys to set (undefined removes a key)
+     * @param options Optional request options (signal, timeout, validate)
+     * @returns API response with success message
+     * @throws ValidationError when the merged extras do not match the registered extras schema
+     * @throws PendingSyncError when the patient's offline creation is not synced yet
+     * 
+     * @example
+     * ```typescript
+     * await sdk.patients.patchExtras('patient-oid', { clinicCode: 'BLR-02' });
+     * ```
+     */
+    async patchExtras(id: string, patch: Partial<TExtras>, options?: UpdatePatientOptions<TExtras>): Promise<ApiResponse> {
+        assertSyncedOid(id, 'patch extras of');
+        const { signal, timeout } = options || {};
+        const patient = await this.get(id, { signal, timeout });
+
+        // Guard the read-merge-write against concurrent changes: re-merge onto the newer extras on conflict
+        return this.update(id, { extras: mergeExtras(patient.extras, patch) }, {
+            expectedUpdatedAt: patient.u_ate,
+            resolveConflict: ({ current }) => ({ extras: mergeExtras(current.extras, patch) }),
+            ...options,
+        });
+    }
+
+    /**
+     * Merge a duplicate profile into a survivor.
+     * Both profiles are fetched and the merged update is built per field group (see PatientMergeStrategy).
+     * The duplicate is archived first, with `extras.mergedInto` pointing at the survivor; the update is then
+     * applied to the survivor, whose `extras.mergedFrom` lists the merged OIDs, and survivor fields the
+     * duplicate does not have are removed. Both writes are conditional on the fetched u_ate.
+     * If a step fails, the steps before it are undone and MergeError names the failed step.
+     * 
+     * @param survivorOid OID of the profile to keep
+     * @param duplicateOid OID of the profile merged into it and archived
+     * @param strategy Per-field-group strategies (default: prefer the survivor's non-empty values)
+     * @param options Optional request options (signal, timeout)
+     * @returns The update applied to the survivor and where each field group came from
+     * @throws ValidationError when both OIDs are the same
+     * @throws MergeError when either profile is archived (step `archiveDuplicate`) or a write step fails; `cause` is a ConflictError when either profile changed while merging
+     * @throws PendingSyncError when either patient's offline creation is not synced yet
+     * 
+     * @example
+     * ```typescript
+     * const result = await sdk.patients.merge('survivor-oid', 'duplicate-oid', {
+     *   default: 'preferNonEmpty',
+     *   fields: { mobile: 'preferNewest', name: 'survivor' },
+     * });
+     * ```
+     */
+    async merge(
+        survivorOid: string,
+        duplicateOid: string,
+        strategy?: PatientMergeStrategy,
+        options?: CallOptions
+    ): Promise<PatientMergeResult<TExtras>> {
+        if (survivorOid === duplicateOid) {
+            const message = 'Cannot merge a patient into itself';
+            throw new ValidationError(message, undefined, undefined, {}, [message]);
+        }
+        assertSyncedOid(survivorOid, 'merge');
+        assertSyncedOid(duplicateOid, 'merge');
+        const utils = this.getUtils();
+
+        const [survivor, duplicate] = await Promise.all([
+            this.get(survivorOid, options),
+            this.get(duplicateOid, options),
+        ]);
+        // Nothing has been written yet, so there is nothing to undo
+        if (survivor.arc) {
+            throw new MergeError(`Survivor ${survivorOid} is archived`, 'archiveDuplicate', true);
+        }
+        if (duplicate.arc) {
+            throw new MergeError(`Patient ${duplicateOid} is already archived`, 'archiveDuplicate', true);
+        }
+
+        const plan = buildPatientMerge(survivor, duplicate, strategy);
+        const completed: PatientMergeStep[] = [];
+        let step: PatientMergeStep = 'archiveDuplicate';
+
+        try {
+            await utils.archive(duplicateOid, {
+                ...options,
+                expectedUpdatedAt: duplicate.u_ate,
+                extras: { ...duplicate.extras, [MERGED_INTO_EXTRAS_KEY]: survivorOid } as PatientExtras as TExtras,
+            });
+            completed.push(step);
+
+            step = 'updateSurvivor';
+            await this.update(survivorOid, plan.update, { ...options, expectedUpdatedAt: survivor.u_ate });
+            completed.push(step);
+
+            if (plan.remove.length > 0) {
+                step = 'removeSurvivorFields';
+                await utils.removeFields(survivorOid, plan.remove, options);
+            }
+        } catch (error) {
+            const rolledBack = await this.rollbackMerge(survivor, duplicate, plan, completed, options);
+            throw new MergeError(
+                `Merging ${duplicateOid} into ${survivorOid} failed at ${step}: ${toTrinitySDKError(error).message}` +
+                    (rolledBack ? '' : ' (undoing the earlier steps failed as well)'),
+                step,
+                rolledBack,
+                error
+            );
+        }
+
+        return { survivorOid, duplicateOid, ...plan };
     }
 
     /**
-     * Delete a patient profile
+     * Undo the completed steps of a failed merge, last step first
+     *
+     * @returns Whether every completed step was undone
+     */
+    private async rollbackMerge(
+        survivor: Patient<TExtras>,
+        duplicate: Patient<TExtras>,
+        plan: PatientMergePlan<TExtras>,
+        completed: PatientMergeStep[],
+        options?: CallOptions
+    ): Promise<boolean> {
+        // The caller's signal may be what failed the merge; the rollback must still run
+        const rollbackOptions = { timeout: options?.timeout };
+
+        try {
+            if (completed.includes('updateSurvivor')) {
+                await this.restoreFields(survivor, Object.keys(plan.update) as PatientField[], rollbackOptions);
+            }
+            if (completed.includes('archiveDuplicate')) {
+                await this.getUtils().unarchive(duplicate.oid, rollbackOptions);
+                await this.restoreFields(duplicate, ['extras'], rollbackOptions);
+            }
+            return true;
+        } catch (error) {
+            console.warn(`Failed to roll back the merge of ${duplicate.oid} into ${survivor.oid}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Write back the fetched values of some fields, removing the fields that had no value
+     */
+    private async restoreFields(original: Patient<TExtras>, fields: PatientField[], options: CallOptions): Promise<void> {
+        const update: Record<string, unknown> = {};
+        const remove: PatientField[] = [];
+        fields.forEach((field) => {
+            const value = original[field as keyof Patient<TExtras>];
+            if (value === undefined || value === null || value === '') {
+                remove.push(field);
+            } else {
+                update[field] = value;
+            }
+        });
+
+        if (Object.keys(update).length > 0) {
+            await this.update(original.oid, update as UpdatePatientData<TExtras>, { ...options, validate: false });
+        }
+        if (remove.length > 0) {
+            await this.getUtils().removeFields(original.oid, remove, options);
+        }
+    }
+
+    /**
+     * Delete a patient profile.
+     * Deleting a patient created offline cancels its queued creation instead.
      * 
      * @param id Patient OID
+     * @param options Optional request options (signal, timeout)
      * @returns Success response
+     * @throws PendingSyncError when a provisional OID has no queued creation left
      * 
      * @example
      * ```typescript
      * await sdk.patients.delete('patient-oid');
      * ```
      */
-    async delete(id: string): Promise<ApiResponse> {
-        const response = await this.client.delete<ApiResponse>(`${this.basePath}/${id}`);
+    async delete(id: string, options?: CallOptions): Promise<ApiResponse> {
+        if (isProvisionalOid(id)) {
+            if (this.offlineQueue && await this.offlineQueue.cancelCreate(id)) {
+                return { message: 'Queued creation cancelled' };
+            }
+            assertSyncedOid(id, 'delete');
+        }
+
+        const response = await this.client.delete<ApiResponse>(`${this.basePath}/${id}`, options);
+        await this.localIndex?.patientDeleted(id);
         return response.data;
     }
 
@@ -210,6 +721,7 @@ export class PatientMethods {
      * Get patients by username
      * 
      * @param username Username to search for
+     * @param options Optional request options (signal, timeout)
      * @returns Array of patients (typically one)
      * 
      * @example
@@ -217,8 +729,146 @@ export class PatientMethods {
      * const patients = await sdk.patients.getByUsername('john.doe');
      * ```
      */
-    async getByUsername(username: string): Promise<Patient[]> {
-        const response = await this.client.get<Patient[]>(`${this.basePath}/${username}/username`);
-        return response.data;
+    async getByUsername(username: string, options?: CallOptions): Promise<Patient<TExtras>[]> {
+        const response = await this.client.get<Patient[]>(`${this.basePath}/${username}/username`, undefined, options);
+        return response.data.map((patient) => this.readPatient(patient));
+    }
+
+    /**
+     * Run a bulk operation chunk by chunk with bounded concurrency, collecting per-item results
+     * and writing each chunk's local index changes together
+     */
+    private async runBulk<T, TLocal>(
+        items: T[],
+        concurrency: number | undefined,
+        chunkSize: number | undefined,
+        send: (item: T, index: number) => Promise<{ result: BulkItemSuccess; local: TLocal | null }>,
+        getOid: (item: T) => string | undefined,
+        writeIndex: (locals: TLocal[]) => Promise<void>
+    ): Promise<BulkItemResult[]> {
+        const size = Math.max(1, chunkSize ?? DEFAULT_BULK_CHUNK_SIZE);
+        const results: BulkItemResult[] = [];
+
+        for (let start = 0; start < items.length; start += size) {
+            const chunk = items.slice(start, start + size);
+            const outcomes = await mapWithConcurrency(chunk, concurrency ?? DEFAULT_BULK_CONCURRENCY, async (item, offset) => {
+                const index = start + offset;
+                try {
+                    return await send(item, index);
+                } catch (error) {
+                    const oid = getOid(item);
+                    const result: BulkItemResult = { index, success: false, ...(oid ? { oid } : {}), error: toTrinitySDKError(error) };
+                    return { result, local: null };
+                }
+            });
+
+            results.push(...outcomes.map((outcome) => outcome.result));
+
+            const locals = outcomes
+                .map((outcome) => outcome.local)
+                .filter((local): local is TLocal => local !== null);
+            if (locals.length > 0) {
+                await writeIndex(locals);
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Whether to validate a payload before sending it; the per-call flag wins over the SDK config
+     */
+    private shouldValidate(validate: boolean | undefined): boolean {
+        return validate ?? this.client.getConfig().validation?.validateBeforeSend ?? false;
+    }
+
+    /**
+     * Normalize, check extras of and (when enabled) validate an outgoing update
+     */
+    private prepareUpdate(input: UpdatePatientData<TExtras>, validate: boolean | undefined): UpdatePatientData<TExtras> {
+        const data = this.writeExtras(this.normalizeMobile(input));
+        if (this.shouldValidate(validate)) {
+            this.assertValid(validateUpdatePatientData(data, this.getValidatorOptions()));
+        }
+        return data;
+    }
+
+    /**
+     * Utility methods set by the SDK; merge cannot run without them
+     */
+    private getUtils(): UtilsMethods<TExtras> {
+        if (!this.utils) {
+            const message = 'Merging patients requires the utility methods, see setUtils';
+            throw new ValidationError(message, undefined, undefined, {}, [message]);
+        }
+        return this.utils;
+    }
+
+    /**
+     * Check outgoing extras against the registered extras schema
+     */
+    private writeExtras<T extends CreatePatientData<TExtras> | UpdatePatientData<TExtras>>(data: T): T {
+        return parsePatientExtras(this.client.getConfig().extrasSchema, data, 'write');
+    }
+
+    /**
+     * Check the extras of a patient returned by the API against the registered extras schema
+     */
+    private readPatient(patient: Patient): Patient<TExtras> {
+        return parsePatientExtras(this.client.getConfig().extrasSchema, patient, 'read') as Patient<TExtras>;
+    }
+
+    /**
+     * Validator options from the SDK config
+     */
+    private getValidatorOptions(): PatientValidatorOptions {
+        const config = this.client.getConfig();
+        return { defaultCountryCode: config.defaultCountryCode, ...config.validation };
+    }
+
+    /**
+     * Split a mobile typed with its country code or trunk prefix ("+91 98765 43210", "098765 43210")
+     * into the national number and ccd the API expects; unparseable values are left for validation
+     */
+    private normalizeMobile<T extends CreatePatientData | UpdatePatientData>(data: T): T {
+        if (!data.mobile) {
+            return data;
+        }
+
+        const parsed = parsePhoneNumber(data.mobile, data.ccd || this.client.getConfig().defaultCountryCode);
+        if (!parsed) {
+            return data;
+        }
+
+        return {
+            ...data,
+            mobile: parsed.nationalNumber,
+            ...(parsed.hasCountryCode ? { ccd: parsed.countryCode } : {}),
+        };
+    }
+
+    /**
+     * Throw a ValidationError for a result with errors (warnings do not block the request)
+     */
+    private assertValid(result: PatientValidationResult): void {
+        if (!result.isValid) {
+            throw toValidationError(result);
+        }
+    }
+
+    /**
+     * Queue a creation while offline; the caller shows the patient locally under the provisional OID
+     */
+    private async queueCreate(data: CreatePatientData, idempotencyKey: string): Promise<{ oid: string; queued: boolean }> {
+        const oid = await this.offlineQueue!.enqueueCreate(data, idempotencyKey);
+        return { oid, queued: true };
+    }
+
+    /**
+     * Queue an update while offline; the caller applies it locally right away
+     */
+    private async queueUpdate(id: string, data: UpdatePatientData): Promise<ApiResponse & { queued: boolean }> {
+        await this.offlineQueue!.enqueueUpdate(id, data);
+        return { message: 'Update queued for sync', queued: true };
     }
 }
\ No newline at end of file
@@ -2,15 +2,31 @@
  * Patient search and lookup operations
  */
 
-import { HttpClient } from '../client';
+import { HttpClient, RequestOptions } from '../client';
+import { NetworkError, RateLimitError, ServerError, TimeoutError } from '../errors';
+import { getAbhaKind, normalizeAbhaNumber } from '../helpers/abha';
+import { parsePatientExtras } from '../helpers/extras';
+import { composeFullName } from '../helpers/name';
+import { parsePhoneNumber } from '../helpers/phone';
+import { FhirMappingOptions, FhirPatientBundle, toFhirBundle } from '../interop/fhir';
 import { DataLoaderService } from '../services/data-loader';
 import { IndexedDBService } from '../services/indexeddb';
-import { LocalMinifiedPatient, Patient, SdkConfig, SearchParams } from '../types';
+import { emitTelemetry, now, SearchFallbackReason } from '../telemetry';
+import {
+  CallOptions,
+  CreatePatientData,
+  DuplicateCandidateOptions,
+  LocalMinifiedPatient,
+  Patient,
+  PatientExtras,
+  SdkConfig,
+  SearchParams,
+} from '../types';
 
 /**
  * Search and lookup methods
  */
-export class SearchMethods {
+export class SearchMethods<TExtras extends PatientExtras = PatientExtras> {
   private client: HttpClient;
   private readonly basePath = '/profiles/v1/patient';
   private indexedDB: IndexedDBService | null = null;
@@ -24,8 +40,13 @@ export class SearchMethods {
 
     // Initialize local search components if enabled
     if (config && config.workspaceId) {
-      this.indexedDB = new IndexedDBService(config.workspaceId);
-      this.dataLoader = new DataLoaderService(config);
+      this.indexedDB = new IndexedDBService(
+        config.workspaceId,
+        config.indexedDB,
+        config.telemetry,
+        config.defaultCountryCode
+      );
+      this.dataLoader = new DataLoaderService(config, client);
     }
   }
 
@@ -33,6 +54,7 @@ export class SearchMethods {
    * Bulk get patients by OID list
    *
    * @param oidList Comma-separated list of patient OIDs
+   * @param options Optional request options (signal, timeout)
    * @returns Array of patients
    *
    * @example
@@ -42,53 +64,162 @@ export class SearchMethods {
    * const patients = await sdk.search.bulkGet(['oid1', 'oid2', 'oid3']);
    * ```
    */
-  async bulkGet(oidList: string | string[]): Promise<Patient[]> {
-    const oidListParam = Array.isArray(oidList) ? oidList.join(',') : oidList;
+  async bulkGet(oidList: string | string[], options?: CallOptions): Promise<Patient<TExtras>[]> {
+    return this.fetchBulk(oidList, options);
+  }
 
-    const response = await this.client.get<Patient[]>(`${this.basePath}/bulk`, {
-      oid_list: oidListParam,
+  /**
+   * Bulk get patients as a FHIR R4 searchset Bundle
+   *
+   * @param oidList Comma-separated list or array of patient OIDs
+   * @param options Optional request options (signal, timeout)
+   * @param fhirOptions FHIR mapping options (the country code defaults to `defaultCountryCode` from the config)
+   * @returns Bundle with one Patient resource per patient found
+   *
+   * @example
+   * ```typescript
+   * const bundle = await sdk.search.bulkGetAsFhirBundle(['oid1', 'oid2']);
+   * bundle.entry?.map((entry) => entry.resource.birthDate);
+   * ```
+   */
+  async bulkGetAsFhirBundle(
+    oidList: string | string[],
+    options?: CallOptions,
+    fhirOptions?: FhirMappingOptions
+  ): Promise<FhirPatientBundle> {
+    const patients = await this.bulkGet(oidList, options);
+    return toFhirBundle(patients, {
+      defaultCountryCode: this.config?.defaultCountryCode,
+      ...fhirOptions,
     });
-
-    return response.data;
   }
 
   /**
    * Get patients by mobile number
    *
-   * @param mobile Mobile number to search for
+   * @param mobile Mobile number in any format ("9876543210", "+91 98765 43210", "09876543210");
+   * the country code and trunk prefix are stripped before the lookup
+   * @param options Optional request options (signal, timeout)
    * @returns Array of patients with matching mobile number
    *
    * @example
    * ```typescript
-   * const patients = await sdk.search.getByMobile('1234567890');
+   * const patients = await sdk.search.getByMobile('+91 98765 43210');
    * ```
    */
-  async getByMobile(mobile: string): Promise<Patient[]> {
-    const response = await this.client.get<Patient[]>(`${this.basePath}/by-mobile`, {
-      mob: mobile,
-    });
+  async getByMobile(mobile: string, options?: CallOptions): Promise<Patient<TExtras>[]> {
+    return this.fetchByMobile(mobile, options);
+  }
 
-    return response.data;
+  /**
+   * Collect stored patients that could be duplicates of a new patient: patients with the same
+   * mobile number from the API, and from the local index (when synced) patients with the same
+   * mobile number, ABHA number or a name starting like the new one.
+   * The API lookups are sent once, without retries. With `localOnly`, or when they fail with a
+   * transient error, only the local candidates are returned, as minified profiles.
+   * Used by `patients.findPotentialDuplicates`, which scores the candidates.
+   *
+   * @param data New patient data
+   * @param options Optional options (localOnly, signal, timeout)
+   * @returns Candidate patients, each OID once
+   */
+  async getDuplicateCandidates(
+    data: CreatePatientData<TExtras>,
+    options?: DuplicateCandidateOptions
+  ): Promise<Patient<TExtras>[]> {
+    const { localOnly, ...callOptions } = options || {};
+    const candidates = new Map<string, Patient<TExtras>>();
+
+    if (this.indexedDB && this.isSyncComplete) {
+      const name = (data.fln || composeFullName(data)).trim().toLowerCase();
+      const abha = data.abha && getAbhaKind(data.abha) === 'number' ? normalizeAbhaNumber(data.abha) : null;
+      const mobile = data.mobile ? parsePhoneNumber(data.mobile, this.config?.defaultCountryCode) : null;
+
+      try {
+        const lookups: Promise<LocalMinifiedPatient[]>[] = [];
+        if (name) {
+          // A short prefix still finds spelling variants ("Ramesh" / "Ramesj")
+          lookups.push(this.indexedDB.searchByPrefix(name.split(/\s+/)[0].slice(0, 3)));
+        }
+        if (abha) {
+          lookups.push(this.indexedDB.searchByPrefix(abha));
+        }
+        if (mobile) {
+          lookups.push(this.indexedDB.searchByMobileSuffix(mobile.nationalNumber));
+        }
+        (await Promise.all(lookups)).forEach((results) =>
+          this.convertLocalToPatients(results).forEach((patient) => candidates.set(patient.oid, patient))
+        );
+      } catch (error) {
+        console.warn('Local duplicate lookup failed:', error);
+      }
+    }
+
+    if (localOnly) {
+      return [...candidates.values()];
+    }
+
+    const lookupOptions = { ...callOptions, retry: false };
+    try {
+      const minified = new Set(candidates.keys());
+      const addFull = (patients: Patient<TExtras>[]) =>
+        patients.forEach((patient) => {
+          candidates.set(patient.oid, patient);
+          minified.delete(patient.oid);
+        });
+
+      if (data.mobile) {
+        addFull(await this.fetchByMobile(data.mobile, lookupOptions));
+      }
+      // The local index only holds minified profiles; fetch the full ones so DOB, gender and ABHA can be scored
+      if (minified.size > 0) {
+        addFull(await this.fetchBulk([...minified], lookupOptions));
+      }
+    } catch (error) {
+      // API unreachable or struggling: score what the local index has rather than delay the registration
+      const transient = [NetworkError, TimeoutError, RateLimitError, ServerError].some(
+        (ErrorClass) => error instanceof ErrorClass
+      );
+      if (!transient) {
+        throw error;
+      }
+    }
+
+    return [...candidates.values()];
   }
 
   /**
    * Search patients using various criteria
    *
    * @param params Search parameters
+   * @param forceApiSearch Skip local search and query the API
+   * @param options Optional request options (signal, timeout) for the API request
    * @returns Array of matching patients
    *
    * @example
    * ```typescript
    * // Search by prefix (local search if available)
    * const patients = await sdk.search.search({ prefix: 'jo', limit: 15 });
+   *
+   * // Typeahead: cancel the previous query when a new one starts
+   * controller?.abort();
+   * controller = new AbortController();
+   * const results = await sdk.search.search({ prefix }, true, { signal: controller.signal });
    * ```
    */
-  async search(params: SearchParams, forceApiSearch = false): Promise<Patient[]> {
+  async search(
+    params: SearchParams,
+    forceApiSearch = false,
+    options?: CallOptions
+  ): Promise<Patient<TExtras>[]> {
     // Validate parameters
     if (!params.prefix) {
       throw new Error('prefix is required for search');
     }
 
+    const startedAt = now();
+    let fallbackReason: SearchFallbackReason = forceApiSearch ? 'forced' : 'local_search_disabled';
+
     // Check if we should use local search
     if (!forceApiSearch && this.indexedDB) {
       if (!this.isSyncComplete) {
@@ -99,9 +230,11 @@ export class SearchMethods {
 
       try {
         const localResults = await this.indexedDB.searchByPrefix(params.prefix, params.limit || 50);
+        this.emitSearchTelemetry('local', params.prefix, startedAt, localResults.length);
         return this.convertLocalToPatients(localResults);
       } catch (error) {
         console.warn('Local search failed, falling back to API:', error);
+        fallbackReason = 'local_search_failed';
       }
     }
 
@@ -115,8 +248,21 @@ export class SearchMethods {
       queryParams.select = params.select;
     }
 
-    const response = await this.client.get<Patient[]>(`${this.basePath}/search`, queryParams);
-    return response.data;
+    let patients: Patient[];
+    try {
+      const response = await this.client.get<Patient[]>(
+        `${this.basePath}/search`,
+        queryParams,
+        options
+      );
+      patients = response.data;
+      this.emitSearchTelemetry('api', params.prefix, startedAt, patients.length, fallbackReason);
+    } catch (error) {
+      this.emitSearchTelemetry('api', params.prefix, startedAt, 0, fallbackReason, error);
+      throw error;
+    }
+
+    return this.readPatients(patients);
   }
 
   /**
@@ -125,6 +271,8 @@ export class SearchMethods {
    * @param prefix Search prefix
    * @param limit Maximum number of results (default: 50, max: 50)
    * @param select Optional comma-separated list of fields to return
+   * @param forceApiSearch Skip local search and query the API
+   * @param options Optional request options (signal, timeout) for the API request
    * @returns Array of matching patients
    */
 
@@ -133,9 +281,38 @@ export class SearchMethods {
     prefix: string,
     limit: number = 50,
     select?: string,
-    forceApiSearch: boolean = false
-  ): Promise<Patient[]> {
-    return this.search({ prefix, limit, select }, forceApiSearch);
+    forceApiSearch: boolean = false,
+    options?: CallOptions
+  ): Promise<Patient<TExtras>[]> {
+    return this.search({ prefix, limit, select }, forceApiSearch, options);
+  }
+
+  /**
+   * Find patients whose mobile number ends with the given digits (local index only)
+   *
+   * @param digits Last digits of the mobile number, e.g. "3210"; formatting is ignored
+   * @param limit Maximum number of results (default: 50)
+   * @returns Array of matching patients
+   *
+   * @example
+   * ```typescript
+   * // Front desk: "number ending 3210"
+   * const patients = await sdk.search.searchByMobileSuffix('3210');
+   * ```
+   */
+  async searchByMobileSuffix(digits: string, limit: number = 50): Promise<Patient<TExtras>[]> {
+    if (!this.indexedDB) {
+      throw new Error('Mobile suffix search requires local search; set workspaceId and initialize local search');
+    }
+    if (!this.isSyncComplete) {
+      throw new Error('Data is still syncing. Please wait for sync to complete');
+    }
+    if (!/\d/.test(digits)) {
+      throw new Error('digits must contain at least one digit');
+    }
+
+    const localResults = await this.indexedDB.searchByMobileSuffix(digits, limit);
+    return this.convertLocalToPatients(localResults);
   }
 
   /**
@@ -192,10 +369,56 @@ export class SearchMethods {
     return this.dataLoader;
   }
 
+  private async fetchBulk(
+    oidList: string | string[],
+    options?: CallOptions & Pick<RequestOptions, 'retry'>
+  ): Promise<Patient<TExtras>[]> {
+    const oidListParam = Array.isArray(oidList) ? oidList.join(',') : oidList;
+
+    const response = await this.client.get<Patient[]>(
+      `${this.basePath}/bulk`,
+      { oid_list: oidListParam },
+      options
+    );
+
+    return this.readPatients(response.data);
+  }
+
+  private async fetchByMobile(
+    mobile: string,
+    options?: CallOptions & Pick<RequestOptions, 'retry'>
+  ): Promise<Patient<TExtras>[]> {
+    const parsed = parsePhoneNumber(mobile, this.config?.defaultCountryCode);
+    const response = await this.client.get<Patient[]>(
+      `${this.basePath}/by-mobile`,
+      { mob: parsed ? parsed.nationalNumber : mobile },
+      options
+    );
+
+    return this.readPatients(response.data);
+  }
+
+  /**
+   * Check the extras of patients returned by the API against the registered extras schema; patients
+   * whose extras fail the schema keep their unparsed extras
+   */
+  private readPatients(patients: Patient[]): Patient<TExtras>[] {
+    const schema = this.client.getConfig().extrasSchema;
+    return patients.map((patient) => {
+      try {
+        return parsePatientExtras(schema, patient, 'read') as Patient<TExtras>;
+      } catch (error) {
+        // One record with bad extras should not hide the rest of the results
+        console.warn(`Returning unparsed extras for patient ${patient.oid}:`, error);
+        return patient as Patient<TExtras>;
+      }
+    });
+  }
+
   /**
    * Convert local minified patients to full Patient objects
    */
-  private convertLocalToPatients(localPatients: LocalMinifiedPatient[]): Patient[] {
+  private convertLocalToPatients(localPatients: LocalMinifiedPatient[]): Patient<TExtras>[] {
     return localPatients.map(
       (local) =>
         ({
@@ -205,14 +428,38 @@ export class SearchMethods {
           fln: local.fln,
           mobile: local.mobile,
           username: local.username,
+          abha: local.abha,
           gen: local.gen,
           dob: local.dob,
           is_age: local.is_age,
           u_ate: local.u_ate,
-        } as Patient)
+        } as Patient<TExtras>)
     );
   }
 
+  /**
+   * Report a finished search to the telemetry sink
+   */
+  private emitSearchTelemetry(
+    source: 'local' | 'api',
+    prefix: string,
+    startedAt: number,
+    resultCount: number,
+    fallbackReason?: SearchFallbackReason,
+    error?: unknown
+  ): void {
+    emitTelemetry(this.config?.telemetry, {
+      type: 'search',
+      source,
+      prefixLength: prefix.length,
+      resultCount,
+      durationMs: now() - startedAt,
+      success: !error,
+      fallbackReason,
+      error: error instanceof Error ? error.name : undefined,
+    });
+  }
+
   /**
    * Cleanup resources
    */
@@ -2,26 +2,53 @@
  * Utility methods for patient profile management
  */
 
-import { HttpClient } from '../client';
-import { ApiResponse, RemoveFieldsData, Patient } from '../types';
+import { HttpClient, IF_MATCH_HEADER } from '../client';
+import { ageFromDob, formatAge } from '../helpers/age';
+import { parseExtras, parsePatientExtras } from '../helpers/extras';
+import { formatDisplayName } from '../helpers/name';
+import { validateCreatePatientData, validateUpdatePatientData } from '../helpers/patient-validator';
+import { LocalIndexSyncService } from '../services/local-index-sync';
+import { assertSyncedOid } from '../services/offline-queue';
+import {
+  ApiResponse,
+  ArchivePatientOptions,
+  CallOptions,
+  CreatePatientData,
+  Patient,
+  PatientAge,
+  PatientExtras,
+  PatientValidationResult,
+  RemoveFieldsData,
+  UpdatePatientData,
+} from '../types';
 
 /**
  * Utility methods for patient management
  */
-export class UtilsMethods {
+export class UtilsMethods<TExtras extends PatientExtras = PatientExtras> {
   private client: HttpClient;
   private readonly basePath = '/profiles/v1/patient';
+  private localIndex: LocalIndexSyncService | null = null;
 
   constructor(client: HttpClient) {
     this.client = client;
   }
 
+  /**
+   * Set the local index reconciliation layer that mirrors patient mutations into local search
+   */
+  setLocalIndex(localIndex: LocalIndexSyncService | null): void {
+    this.localIndex = localIndex;
+  }
+
   /**
    * Remove specific fields from a patient profile
    * 
    * @param id Patient OID
    * @param fields Array of field names to remove
+   * @param options Optional request options (signal, timeout)
    * @returns Success response
+   * @throws PendingSyncError when the patient's offline creation is not synced yet
    * 
    * @example
    * ```typescript
@@ -30,7 +57,12 @@ export class UtilsMethods {
    * await sdk.utils.removeFields('patient-oid', { fields: ['email', 'mobile'] });
    * ```
    */
-  async removeFields(id: string, fields: string[] | RemoveFieldsData): Promise<ApiResponse> {
+  async removeFields(
+    id: string,
+    fields: string[] | RemoveFieldsData,
+    options?: CallOptions
+  ): Promise<ApiResponse> {
+    assertSyncedOid(id, 'remove fields of');
     let payload: RemoveFieldsData;
     
     if (Array.isArray(fields)) {
@@ -39,7 +71,12 @@ export class UtilsMethods {
       payload = fields;
     }
 
-    const response = await this.client.patch<ApiResponse>(`${this.basePath}/${id}/remove-fields`, payload);
+    const response = await this.client.patch<ApiResponse>(
+      `${this.basePath}/${id}/remove-fields`,
+      payload,
+      options
+    );
+    await this.localIndex?.fieldsRemoved(id, payload.fields);
     return response.data;
   }
 
@@ -47,16 +84,26 @@ export class UtilsMethods {
    * Unarchive a patient profile
    * 
    * @param id Patient OID
+   * @param options Optional request options (signal, timeout)
    * @returns Updated patient profile or success response
+   * @throws PendingSyncError when the patient's offline creation is not synced yet
    * 
    * @example
    * ```typescript
    * const result = await sdk.utils.unarchive('patient-oid');
    * ```
    */
-  async unarchive(id: string): Promise<Patient | ApiResponse> {
-    const response = await this.client.patch<Patient | ApiResponse>(`${this.basePath}/${id}/unarchive`, {});
-    return response.data;
+  async unarchive(id: string, options?: CallOptions): Promise<Patient<TExtras> | ApiResponse> {
+    assertSyncedOid(id, 'unarchive');
+    const response = await this.client.patch<Patient | ApiResponse>(
+      `${this.basePath}/${id}/unarchive`,
+      {},
+      options
+    );
+    await this.localIndex?.patientUnarchived(id, response.data);
+    return parsePatientExtras(this.client.getConfig().extrasSchema, response.data as Patient, 'read') as
+      | Patient<TExtras>
+      | ApiResponse;
   }
 
   /**
@@ -64,113 +111,78 @@ export class UtilsMethods {
    * Note: This is typically done via the update method by setting arc: true
    * 
    * @param id Patient OID
+   * @param options Optional request options (signal, timeout), If-Match precondition and extras to write
    * @returns Updated patient profile
+   * @throws ConflictError when `expectedUpdatedAt` is set and the patient changed since
+   * @throws ValidationError when `extras` do not match the registered extras schema
+   * @throws PendingSyncError when the patient's offline creation is not synced yet
    * 
    * @example
    * ```typescript
    * const archivedPatient = await sdk.utils.archive('patient-oid');
+   * 
+   * // Only if nobody edited the patient since it was read
+   * await sdk.utils.archive(patient.oid, { expectedUpdatedAt: patient.u_ate });
    * ```
    */
-  async archive(id: string): Promise<Patient> {
-    const response = await this.client.patch<Patient>(`${this.basePath}/${id}`, {
-      arc: true,
-      u_ate: Math.floor(Date.now() / 1000)
+  async archive(id: string, options?: ArchivePatientOptions<TExtras>): Promise<Patient<TExtras>> {
+    assertSyncedOid(id, 'archive');
+    const { expectedUpdatedAt, extras, ...callOptions } = options || {};
+    const response = await this.client.request<Patient>({
+      method: 'PATCH',
+      path: `${this.basePath}/${id}`,
+      body: {
+        arc: true,
+        u_ate: Math.floor(Date.now() / 1000),
+        ...(extras ? { extras: parseExtras(this.client.getConfig().extrasSchema, extras, 'write') } : {}),
+      },
+      headers: expectedUpdatedAt !== undefined ? { [IF_MATCH_HEADER]: `"${expectedUpdatedAt}"` } : undefined,
+      ...callOptions,
     });
-    return response.data;
+    await this.localIndex?.patientArchived(id);
+    return parsePatientExtras(this.client.getConfig().extrasSchema, response.data, 'read') as Patient<TExtras>;
   }
 
   /**
    * Validate patient data before creation/update
-   * This method performs client-side validation to catch common errors early
+   * Client-side checks use the options from SdkConfig.validation (country code, age and name limits)
    * 
    * @param data Patient data to validate
-   * @param isUpdate Whether this is for an update operation (less strict validation)
-   * @returns Validation result
+   * @param isUpdate Whether this is for an update operation (only the fields present are checked)
+   * @returns Validation result with issues keyed by field
    * 
    * @example
    * ```typescript
    * const validation = sdk.utils.validatePatientData({
    *   gen: 'M',
    *   dob: '1990-01-01',
-   *   fn: 'John'
+   *   fn: 'John',
+   *   ccd: '+91',
+   *   mobile: '9876543210'
    * });
    * 
    * if (!validation.isValid) {
-   *   console.log('Validation errors:', validation.errors);
+   *   console.log('Mobile errors:', validation.errors.mobile);
    * }
    * ```
    */
-  validatePatientData(data: any, isUpdate: boolean = false): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-
-    // Required fields for creation
-    if (!isUpdate) {
-      if (!data.oid) errors.push('oid is required');
-      if (!data.wid) errors.push('wid is required');
-      if (!data.gen) errors.push('gen is required');
-      if (!data.dob) errors.push('dob is required');
-      
-      // At least one name field required
-      if (!data.fn && !data.mn && !data.ln && !data.fln) {
-        errors.push('At least one name field (fn, mn, ln, or fln) is required');
-      }
-    }
-
-    // Validate gender
-    if (data.gen && !['M', 'F', 'O'].includes(data.gen)) {
-      errors.push('gen must be M, F, or O');
-    }
-
-    // Validate blood group
-    if (data.bg && !['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'].includes(data.bg)) {
-      errors.push('bg must be a valid blood group (A+, A-, B+, B-, AB+, AB-, O+, O-)');
-    }
-
-    // Validate date format
-    if (data.dob) {
-      const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-      if (!dateRegex.test(data.dob)) {
-        errors.push('dob must be in YYYY-MM-DD format');
-      } else {
-        const date = new Date(data.dob);
-        if (isNaN(date.getTime())) {
-          errors.push('dob must be a valid date');
-        }
-      }
-    }
-
-    // Validate email format
-    if (data.email) {
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      if (!emailRegex.test(data.email)) {
-        errors.push('email must be a valid email address');
-      }
-    }
-
-    // Validate mobile number (should be digits only for v2)
-    if (data.mobile) {
-      const mobileRegex = /^\d{6,15}$/;
-      if (!mobileRegex.test(data.mobile)) {
-        errors.push('mobile must be 6-15 digits without country code');
-      }
-    }
-
-    // Validate country code
-    if (data.ccd) {
-      const ccdRegex = /^\+\d{1,4}$/;
-      if (!ccdRegex.test(data.ccd)) {
-        errors.push('ccd must be a valid country code starting with +');
-      }
-    }
-
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
+  validatePatientData(data: CreatePatientData, isUpdate?: false): PatientValidationResult;
+  validatePatientData(data: UpdatePatientData, isUpdate: true): PatientValidationResult;
+  validatePatientData(
+    data: CreatePatientData | UpdatePatientData,
+    isUpdate: boolean = false
+  ): PatientValidationResult {
+    const config = this.client.getConfig();
+    const options = { defaultCountryCode: config.defaultCountryCode, ...config.validation };
+    return isUpdate
+      ? validateUpdatePatientData(data as UpdatePatientData, options)
+      : validateCreatePatientData(data as CreatePatientData, options);
   }
 
   /**
    * Format patient data for display
+   * Age is calculated on local calendar dates; ages derived from a stated age (is_age) are
+   * shown as approximate, and infants are shown in months and days.
    * 
    * @param patient Patient data
    * @returns Formatted display data
@@ -179,6 +191,7 @@ export class UtilsMethods {
    * ```typescript
    * const formatted = sdk.utils.formatPatientDisplay(patient);
    * console.log(`Name: ${formatted.fullName}`);
+   * console.log(`Age: ${formatted.ageText}`); // e.g. "34 years", "~34 years", "5 months 12 days"
    * console.log(`Contact: ${formatted.contact}`);
    * ```
    */
@@ -186,11 +199,12 @@ export class UtilsMethods {
     fullName: string;
     contact: string;
     age?: number;
+    ageText?: string;
+    ageDetail?: PatientAge;
     displayId: string;
   } {
-    // Build full name
-    const nameParts = [patient.s, patient.fn, patient.mn, patient.ln].filter(Boolean);
-    const fullName = patient.fln || nameParts.join(' ') || 'N/A';
+    // Build full name (salutation + fln)
+    const fullName = formatDisplayName(patient) || 'N/A';
 
     // Build contact info
     const contactParts = [];
@@ -204,16 +218,7 @@ export class UtilsMethods {
     const contact = contactParts.join(' | ') || 'N/A';
 
     // Calculate age
-    let age: number | undefined;
-    if (patient.dob) {
-      const birthDate = new Date(patient.dob);
-      const today = new Date();
-      age = today.getFullYear() - birthDate.getFullYear();
-      const monthDiff = today.getMonth() - birthDate.getMonth();
-      if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-        age--;
-      }
-    }
+    const ageDetail = patient.dob ? ageFromDob(patient.dob) || undefined : undefined;
 
     // Display ID (username or oid)
     const displayId = patient.username || patient.oid;
@@ -221,7 +226,9 @@ export class UtilsMethods {
     return {
       fullName,
       contact,
-      age,
+      age: ageDetail?.years,
+      ageText: ageDetail ? formatAge(ageDetail, patient.is_age === true) : undefined,
+      ageDetail,
       displayId
     };
   }
@@ -3,7 +3,10 @@
  */
 
 import { HttpClient } from '../client';
+import { TrinitySDKError, toTrinitySDKError } from '../errors';
+import { toE164 } from '../helpers/phone';
 import { MinifiedMethods } from '../methods/minified';
+import { emitTelemetry, now, TelemetrySink } from '../telemetry';
 import { LocalMinifiedPatient, SdkConfig } from '../types';
 import { IndexedDBService } from './indexeddb';
 
@@ -16,7 +19,7 @@ export interface LoadProgress {
 export interface LoadCallbacks {
   onProgress?: (progress: LoadProgress) => void;
   onComplete?: () => void;
-  onError?: (error: string) => void;
+  onError?: (error: TrinitySDKError) => void;
 }
 
 /**
@@ -27,11 +30,19 @@ export class DataLoaderService {
   private indexedDB: IndexedDBService;
   private isLoading = false;
   private abortController: AbortController | null = null;
+  private telemetry: TelemetrySink | undefined;
+  private defaultCountryCode: string | undefined;
 
-  constructor(config: SdkConfig) {
-    const client = new HttpClient(config);
+  constructor(config: SdkConfig, client: HttpClient = new HttpClient(config)) {
     this.minifiedMethods = new MinifiedMethods(client);
-    this.indexedDB = new IndexedDBService(config.workspaceId);
+    this.indexedDB = new IndexedDBService(
+      config.workspaceId,
+      config.indexedDB,
+      config.telemetry,
+      config.defaultCountryCode
+    );
+    this.telemetry = config.telemetry;
+    this.defaultCountryCode = config.defaultCountryCode;
   }
 
   /**
@@ -75,9 +86,8 @@ export class DataLoaderService {
         callbacks.onComplete();
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       if (callbacks?.onError) {
-        callbacks.onError(errorMessage);
+        callbacks.onError(toTrinitySDKError(error));
       }
       throw error;
     } finally {
@@ -130,8 +140,12 @@ export class DataLoaderService {
         throw new Error('Data loading was aborted');
       }
 
+      const pageStartedAt = now();
+
       // Fetch page data
-      const patientsResponse = await this.minifiedMethods.getPage(page, limit);
+      const patientsResponse = await this.minifiedMethods.getPage(page, limit, {
+        signal: this.abortController?.signal,
+      });
       const patients = patientsResponse?.data || [];
 
       let localPatients: LocalMinifiedPatient[] = [];
@@ -143,6 +157,7 @@ export class DataLoaderService {
           u_ate: p.u_ate,
           fln: p.fln,
           mobile: p.mobile,
+          e164: toE164(p.mobile, p.ccd, this.defaultCountryCode),
           username: p.username,
           gen: p.gen,
           dob: p.dob,
@@ -156,6 +171,14 @@ export class DataLoaderService {
 
       totalLoaded += patients.length;
 
+      emitTelemetry(this.telemetry, {
+        type: 'sync.page',
+        page,
+        recordCount: patients.length,
+        totalLoaded,
+        durationMs: now() - pageStartedAt,
+      });
+
       // Report progress
       if (callbacks?.onProgress) {
         callbacks.onProgress({
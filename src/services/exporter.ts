@@ -0,0 +1,364 @@
+/**
+ * Workspace patient export to CSV, NDJSON and vCard
+ */
+
+import { HttpClient } from '../client';
+import { CancelledError, ValidationError } from '../errors';
+import { formatCsvRow } from '../helpers/csv';
+import { parsePhoneNumber } from '../helpers/phone';
+import { MinifiedMethods } from '../methods/minified';
+import { SearchMethods } from '../methods/search';
+import { CallOptions, LocalMinifiedPatient, MinifiedPatient, Patient, PatientExtras } from '../types';
+import { LoadProgress } from './data-loader';
+
+/**
+ * Export output format
+ */
+export type PatientExportFormat = 'csv' | 'ndjson' | 'vcard';
+
+/**
+ * Where exported patients are read from:
+ * - local: the local search index (requires a completed sync)
+ * - api: minified profile pages from the API
+ * - auto: local when the sync is complete, otherwise api
+ */
+export type PatientExportSource = 'auto' | 'local' | 'api';
+
+/**
+ * Exportable patient field
+ */
+export type PatientExportField = keyof Patient;
+
+/**
+ * Options for a patient export
+ */
+export interface PatientExportOptions extends CallOptions {
+  /** Output format (default: "csv") */
+  format?: PatientExportFormat;
+  /** Patient source (default: "auto") */
+  source?: PatientExportSource;
+  /** Fields to export, in column order (default: DEFAULT_EXPORT_FIELDS) */
+  fields?: PatientExportField[];
+  /** Fields to mask, keeping only a hint of the value (e.g. the last 4 digits of a mobile) */
+  mask?: PatientExportField[];
+  /**
+   * Fetch full profiles with search.bulkGet, in chunks of `enrichChunkSize`.
+   * Needed for fields missing from the index and minified pages (email, names, bg, extras, ...).
+   */
+  enrich?: boolean;
+  /** OIDs per bulkGet request when enriching (default: 100) */
+  enrichChunkSize?: number;
+  /** CSV field delimiter (default: ",") */
+  delimiter?: string;
+  /** Called after each batch of patients is written */
+  onProgress?: (progress: LoadProgress) => void;
+}
+
+/**
+ * Fields exported when none are chosen
+ */
+export const DEFAULT_EXPORT_FIELDS: PatientExportField[] = [
+  'oid', 'fln', 'gen', 'dob', 'is_age', 'ccd', 'mobile', 'email', 'username', 'abha', 'bg',
+];
+
+const PAGE_SIZE = 1000;
+const DEFAULT_ENRICH_CHUNK_SIZE = 100;
+
+/**
+ * Service that streams the workspace's patients in export formats
+ */
+export class ExporterService<TExtras extends PatientExtras = PatientExtras> {
+  private minifiedMethods: MinifiedMethods;
+  private search: SearchMethods<TExtras>;
+
+  constructor(client: HttpClient, search: SearchMethods<TExtras>) {
+    this.minifiedMethods = new MinifiedMethods(client);
+    this.search = search;
+  }
+
+  /**
+   * Export every patient in the workspace as a single string
+   *
+   * @param options Export options
+   * @returns The complete export
+   *
+   * @example
+   * ```typescript
+   * const csv = await sdk.exporter.export({
+   *   format: 'csv',
+   *   fields: ['oid', 'fln', 'dob', 'mobile', 'email'],
+   *   mask: ['mobile', 'email'],
+   *   enrich: true,
+   * });
+   * ```
+   */
+  async export(options: PatientExportOptions = {}): Promise<string> {
+    let output = '';
+    for await (const chunk of this.stream(options)) {
+      output += chunk;
+    }
+    return output;
+  }
+
+  /**
+   * Stream the export as text chunks (header first for CSV), for writing to a file or response
+   *
+   * @param options Export options
+   *
+   * @example
+   * ```typescript
+   * const parts: string[] = [];
+   * for await (const chunk of sdk.exporter.stream({ format: 'vcard' })) {
+   *   parts.push(chunk);
+   * }
+   * const file = new Blob(parts, { type: 'text/vcard' });
+   * ```
+   */
+  async *stream(options: PatientExportOptions = {}): AsyncGenerator<string> {
+    const format = options.format || 'csv';
+    const fields = options.fields || DEFAULT_EXPORT_FIELDS;
+    const delimiter = options.delimiter || ',';
+
+    if (format === 'csv') {
+      yield `${formatCsvRow(fields, delimiter)}\r\n`;
+    }
+
+    for await (const patients of this.patients(options)) {
+      const rows = patients.map((patient) => this.maskPatient(patient, options.mask || []));
+      if (format === 'csv') {
+        yield rows
+          .map((row) => `${formatCsvRow(fields.map((field) => this.formatCsvValue(row[field])), delimiter)}\r\n`)
+          .join('');
+      } else if (format === 'ndjson') {
+        yield rows.map((row) => `${JSON.stringify(this.pick(row, fields))}\n`).join('');
+      } else {
+        yield rows.map((row) => this.formatVCard(row, fields, options.mask || [])).join('');
+      }
+    }
+  }
+
+  /**
+   * Stream every patient of the workspace in batches, reporting progress after each batch
+   *
+   * @param options Source, enrichment, signal and progress options
+   */
+  async *patients(options: PatientExportOptions = {}): AsyncGenerator<Partial<Patient<TExtras>>[]> {
+    const callOptions: CallOptions = { signal: options.signal, timeout: options.timeout };
+    let exported = 0;
+    let total: number | undefined;
+
+    const batches = this.useLocalSource(options.source || 'auto')
+      ? this.localBatches((count) => (total = count))
+      : this.apiBatches(callOptions);
+
+    for await (const batch of batches) {
+      if (options.signal?.aborted) {
+        throw new CancelledError('Export cancelled');
+      }
+      const patients = options.enrich ? await this.enrich(batch, options, callOptions) : batch;
+
+      exported += patients.length;
+      options.onProgress?.({ progress: exported, total: total ?? exported, isComplete: false });
+      yield patients;
+    }
+
+    options.onProgress?.({ progress: exported, total: exported, isComplete: true });
+  }
+
+  private useLocalSource(source: PatientExportSource): boolean {
+    if (source === 'api') {
+      return false;
+    }
+
+    const available = Boolean(this.search.getDataLoader()) && this.search.isSyncCompleted();
+    if (source === 'local' && !available) {
+      const message = 'Local export requires local search to be enabled and the sync to be complete';
+      throw new ValidationError(message, undefined, undefined, {}, [message]);
+    }
+    return available;
+  }
+
+  /**
+   * Read the local index in page-sized batches (archived patients are left out, like in the API listing)
+   */
+  private async *localBatches(onTotal: (total: number) => void): AsyncGenerator<Partial<Patient<TExtras>>[]> {
+    const indexedDB = this.search.getDataLoader()!.getIndexedDB();
+    const patients = (await indexedDB.getAllPatients())
+      .filter((patient) => !patient.arc)
+      .map((patient) => this.fromLocal(patient));
+    onTotal(patients.length);
+
+    for (let start = 0; start < patients.length; start += PAGE_SIZE) {
+      yield patients.slice(start, start + PAGE_SIZE);
+    }
+  }
+
+  /**
+   * Read minified profile pages from the API until a short page
+   */
+  private async *apiBatches(callOptions: CallOptions): AsyncGenerator<Partial<Patient<TExtras>>[]> {
+    for (let page = 1; ; page++) {
+      const response = await this.minifiedMethods.getPage(page, PAGE_SIZE, callOptions);
+      const patients: MinifiedPatient[] = response?.data || [];
+      if (patients.length > 0) {
+        yield patients as Partial<Patient<TExtras>>[];
+      }
+      if (patients.length < PAGE_SIZE) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Replace minified records with full profiles, keeping records bulkGet did not return
+   */
+  private async enrich(
+    patients: Partial<Patient<TExtras>>[],
+    options: PatientExportOptions,
+    callOptions: CallOptions
+  ): Promise<Partial<Patient<TExtras>>[]> {
+    const chunkSize = Math.max(1, options.enrichChunkSize || DEFAULT_ENRICH_CHUNK_SIZE);
+    const profiles = new Map<string, Patient<TExtras>>();
+
+    for (let start = 0; start < patients.length; start += chunkSize) {
+      const oids = patients.slice(start, start + chunkSize).map((patient) => patient.oid!);
+      for (const profile of await this.search.bulkGet(oids, callOptions)) {
+        profiles.set(profile.oid, profile);
+      }
+    }
+
+    return patients.map((patient) => ({ ...patient, ...profiles.get(patient.oid!) }));
+  }
+
+  /**
+   * Local index record as patient fields; the index keeps the country code only in the E.164 number
+   */
+  private fromLocal(local: LocalMinifiedPatient): Partial<Patient<TExtras>> {
+    const { e164, ...patient } = local;
+    const parsed = e164 ? parsePhoneNumber(e164) : null;
+    return parsed ? { ...patient, ccd: parsed.countryCode } : patient;
+  }
+
+  private pick(patient: Partial<Patient<TExtras>>, fields: PatientExportField[]): Record<string, unknown> {
+    return Object.fromEntries(
+      fields.filter((field) => patient[field] !== undefined).map((field) => [field, patient[field]])
+    );
+  }
+
+  private formatCsvValue(value: unknown): unknown {
+    return value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+  }
+
+  private maskPatient(patient: Partial<Patient<TExtras>>, mask: PatientExportField[]): Partial<Patient<TExtras>> {
+    if (mask.length === 0) {
+      return patient;
+    }
+
+    const masked: Record<string, unknown> = { ...patient };
+    for (const field of mask) {
+      if (masked[field] !== undefined && masked[field] !== null && masked[field] !== '') {
+        masked[field] = maskValue(field, masked[field]);
+      }
+    }
+    return masked as Partial<Patient<TExtras>>;
+  }
+
+  /**
+   * vCard 4.0 (RFC 6350) card for a patient. FN is always written, as vCard requires it.
+   */
+  private formatVCard(
+    patient: Partial<Patient<TExtras>>,
+    fields: PatientExportField[],
+    mask: PatientExportField[]
+  ): string {
+    const has = (field: PatientExportField) =>
+      fields.includes(field) && patient[field] !== undefined && patient[field] !== '';
+    const lines = ['BEGIN:VCARD', 'VERSION:4.0'];
+
+    if (has('oid')) {
+      lines.push(`UID;VALUE=text:${escapeVCard(String(patient.oid))}`);
+    }
+    lines.push(`FN:${escapeVCard(patient.fln || '')}`);
+    if (has('fn') || has('mn') || has('ln') || has('s')) {
+      const part = (field: 'ln' | 'fn' | 'mn' | 's') => (has(field) ? escapeVCard(String(patient[field])) : '');
+      lines.push(`N:${part('ln')};${part('fn')};${part('mn')};${part('s')};`);
+    }
+    if (has('gen')) {
+      lines.push(`GENDER:${patient.gen}`);
+    }
+    if (has('dob')) {
+      lines.push(mask.includes('dob')
+        ? `BDAY;VALUE=text:${escapeVCard(String(patient.dob))}`
+        : `BDAY:${String(patient.dob).replace(/-/g, '')}`);
+    }
+    if (has('mobile')) {
+      // The tel URI needs the country code even when ccd is not an exported field
+      const ccd = mask.includes('ccd') ? undefined : patient.ccd;
+      lines.push(mask.includes('mobile')
+        ? `TEL;TYPE=cell;VALUE=text:${escapeVCard(String(patient.mobile))}`
+        : `TEL;TYPE=cell;VALUE=uri:tel:${ccd || ''}${patient.mobile}`);
+    }
+    if (has('email')) {
+      lines.push(`EMAIL:${escapeVCard(String(patient.email))}`);
+    }
+    if (has('abha')) {
+      lines.push(`X-ABHA:${escapeVCard(String(patient.abha))}`);
+    }
+    if (has('bg')) {
+      lines.push(`X-BLOOD-GROUP:${escapeVCard(String(patient.bg))}`);
+    }
+    if (has('u_ate')) {
+      const updatedAt = new Date(patient.u_ate! < 1e12 ? patient.u_ate! * 1000 : patient.u_ate!);
+      lines.push(`REV:${updatedAt.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+    }
+    lines.push('END:VCARD');
+
+    return lines.map(foldVCardLine).join('\r\n') + '\r\n';
+  }
+}
+
+/**
+ * Mask a value, keeping a hint for recognisable fields:
+ * the last 4 characters of mobiles, ABHA numbers and usernames, the first letter and domain of emails,
+ * the year of dates of birth; anything else is fully masked
+ */
+function maskValue(field: PatientExportField, value: unknown): string {
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  switch (field) {
+    case 'mobile':
+    case 'abha':
+    case 'username':
+      return text.length > 4 ? `${'*'.repeat(text.length - 4)}${text.slice(-4)}` : '*'.repeat(text.length);
+    case 'email': {
+      const at = text.lastIndexOf('@');
+      return at > 0 ? `${text[0]}***${text.slice(at)}` : '***';
+    }
+    case 'dob':
+      return /^\d{4}-/.test(text) ? `${text.slice(0, 4)}-**-**` : '***';
+    default:
+      return '***';
+  }
+}
+
+/**
+ * Escape a vCard text value (backslash, comma, semicolon, newline)
+ */
+function escapeVCard(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/,/g, '\\,').replace(/;/g, '\\;').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line longer than 75 characters (continuation lines start with a space)
+ */
+function foldVCardLine(line: string): string {
+  if (line.length <= 75) {
+    return line;
+  }
+
+  const chunks = [line.slice(0, 75)];
+  for (let start = 75; start < line.length; start += 74) {
+    chunks.push(line.slice(start, start + 74));
+  }
+  return chunks.join('\r\n ');
+}
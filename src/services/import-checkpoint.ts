@@ -0,0 +1,175 @@
+/**
+ * Checkpoint stores recording which rows of a patient import have been created
+ */
+
+/**
+ * A row of an import that was created on the server
+ */
+export interface ImportCheckpointEntry {
+  importId: string;
+  /** 1-based data row number */
+  row: number;
+  oid: string;
+  /** Set while the create waits in the offline queue; `oid` is then provisional */
+  queued?: boolean;
+}
+
+/**
+ * Storage for import progress, so an interrupted import can resume where it stopped
+ */
+export interface ImportCheckpointStore {
+  /** Rows of the import created so far */
+  list(importId: string): Promise<ImportCheckpointEntry[]>;
+  /** Record a created row */
+  add(entry: ImportCheckpointEntry): Promise<void>;
+  /** Replace the provisional OID of a queued row with the server OID once the create is replayed */
+  resolveOid(provisionalOid: string, oid: string): Promise<void>;
+  /** Forget the progress of an import */
+  clear(importId: string): Promise<void>;
+}
+
+/**
+ * In-memory checkpoint store (progress survives retries within a session, not page reloads)
+ */
+export class MemoryImportCheckpointStore implements ImportCheckpointStore {
+  private entries = new Map<string, Map<number, ImportCheckpointEntry>>();
+
+  async list(importId: string): Promise<ImportCheckpointEntry[]> {
+    return [...(this.entries.get(importId)?.values() || [])];
+  }
+
+  async add(entry: ImportCheckpointEntry): Promise<void> {
+    if (!this.entries.has(entry.importId)) {
+      this.entries.set(entry.importId, new Map());
+    }
+    this.entries.get(entry.importId)!.set(entry.row, entry);
+  }
+
+  async resolveOid(provisionalOid: string, oid: string): Promise<void> {
+    for (const rows of this.entries.values()) {
+      for (const entry of rows.values()) {
+        if (entry.oid === provisionalOid) {
+          rows.set(entry.row, { importId: entry.importId, row: entry.row, oid });
+        }
+      }
+    }
+  }
+
+  async clear(importId: string): Promise<void> {
+    this.entries.delete(importId);
+  }
+}
+
+/**
+ * IndexedDB-backed checkpoint store (progress survives page reloads)
+ */
+export class IndexedDBImportCheckpointStore implements ImportCheckpointStore {
+  private dbName: string;
+  private storeName = 'rows';
+  private version = 1;
+  private db: IDBDatabase | null = null;
+  private factory: IDBFactory | undefined;
+
+  constructor(workspaceId: string, factory?: IDBFactory) {
+    this.dbName = `TrinityProfilesImports_${workspaceId}`;
+    this.factory = factory;
+  }
+
+  /**
+   * Initialize the IndexedDB connection
+   */
+  async init(): Promise<void> {
+    if (this.db) {
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = (this.factory || indexedDB).open(this.dbName, this.version);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          const store = db.createObjectStore(this.storeName, { keyPath: ['importId', 'row'] });
+          store.createIndex('importId', 'importId', { unique: false });
+        }
+      };
+    });
+  }
+
+  async list(importId: string): Promise<ImportCheckpointEntry[]> {
+    await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readonly');
+      const request = transaction.objectStore(this.storeName).index('importId').getAll(importId);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async add(entry: ImportCheckpointEntry): Promise<void> {
+    await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readwrite');
+      transaction.objectStore(this.storeName).put(entry);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async resolveOid(provisionalOid: string, oid: string): Promise<void> {
+    await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readwrite');
+      const request = transaction.objectStore(this.storeName).openCursor();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          return;
+        }
+        const entry = cursor.value as ImportCheckpointEntry;
+        if (entry.oid === provisionalOid) {
+          cursor.update({ importId: entry.importId, row: entry.row, oid });
+        }
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async clear(importId: string): Promise<void> {
+    await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readwrite');
+      const store = transaction.objectStore(this.storeName);
+      store.delete(IDBKeyRange.bound([importId, -Infinity], [importId, Infinity]));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
@@ -0,0 +1,498 @@
+/**
+ * Bulk patient import from CSV or row arrays
+ */
+
+import { TrinitySDKError, ValidationError, toTrinitySDKError } from '../errors';
+import { mapWithConcurrency } from '../helpers/concurrency';
+import { parseCsvRecords } from '../helpers/csv';
+import { formatIsoDate, parseIsoDate } from '../helpers/date';
+import { parsePatientExtras } from '../helpers/extras';
+import { hashString } from '../helpers/id';
+import { validateCreatePatientData } from '../helpers/patient-validator';
+import { parsePhoneNumber } from '../helpers/phone';
+import { PatientMethods } from '../methods/patients';
+import {
+  CreatePatientData,
+  PatientField,
+  PatientExtras,
+  PatientValidationIssue,
+  SdkConfig,
+} from '../types';
+import { LoadProgress } from './data-loader';
+import {
+  ImportCheckpointStore,
+  IndexedDBImportCheckpointStore,
+  MemoryImportCheckpointStore,
+} from './import-checkpoint';
+
+/**
+ * A source row: column name to cell value
+ */
+export type PatientImportRow = Record<string, unknown>;
+
+/**
+ * Where each patient field comes from: a column name, or a function of the row.
+ * Column values are trimmed, empty cells are omitted, and `gen`, `dob`, `is_age`, `bg`
+ * and `extras` (JSON) are converted to the API format.
+ */
+export type PatientImportMapping<TExtras extends PatientExtras = PatientExtras> = {
+  [K in keyof CreatePatientData<TExtras>]?:
+    | string
+    | ((row: PatientImportRow) => CreatePatientData<TExtras>[K] | undefined);
+};
+
+/**
+ * Options for a patient import
+ */
+export interface PatientImportOptions<TExtras extends PatientExtras = PatientExtras> {
+  /** Column mapping (default: columns named after the patient fields) */
+  mapping?: PatientImportMapping<TExtras>;
+  /**
+   * Identifier of this import, used for checkpoints and idempotency keys.
+   * Defaults to a hash of the input, so re-running the same file resumes it.
+   */
+  importId?: string;
+  /** CSV field delimiter (default: ",") */
+  delimiter?: string;
+  /** Format of date-of-birth columns (default: "YYYY-MM-DD") */
+  dateFormat?: 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+  /** Maximum number of creates in flight (default: 4) */
+  concurrency?: number;
+  /** Create nothing if any row is invalid (default: false, invalid rows are skipped) */
+  requireAllValid?: boolean;
+  /** Where progress is recorded (default: IndexedDB when available, otherwise memory) */
+  checkpointStore?: ImportCheckpointStore;
+  /** Stop starting new rows; rows not started are reported as pending and can be resumed */
+  signal?: AbortSignal;
+  /** Called after each row is settled */
+  onProgress?: (progress: LoadProgress) => void;
+}
+
+/**
+ * Outcome of one row:
+ * - created: the patient exists on the server (now, or from an earlier run)
+ * - invalid: the row failed validation and was not sent
+ * - failed: the create was rejected or could not be sent; resuming retries it
+ * - pending: the row was not attempted (import cancelled or blocked by requireAllValid)
+ */
+export type PatientImportRowStatus = 'created' | 'invalid' | 'failed' | 'pending';
+
+/**
+ * Result for one source row
+ */
+export interface PatientImportRowResult {
+  /** 1-based data row number (the CSV header is not counted) */
+  row: number;
+  status: PatientImportRowStatus;
+  /** OID of the created patient */
+  oid?: string;
+  /** Set when the create was stored in the offline queue; `oid` is then provisional */
+  queued?: boolean;
+  /** Set when the row was created by an earlier run of the same import */
+  resumed?: boolean;
+  /** Validation errors and warnings for the row */
+  issues: PatientValidationIssue[];
+  /** Error that made the create fail */
+  error?: TrinitySDKError;
+  /**
+   * Error writing the row's checkpoint after it was created. The row stays `created`, but a
+   * resumed run does not know about it and relies on the idempotency key to avoid a duplicate.
+   */
+  checkpointError?: TrinitySDKError;
+}
+
+/**
+ * Report of an import run
+ */
+export interface PatientImportReport {
+  importId: string;
+  total: number;
+  created: number;
+  invalid: number;
+  failed: number;
+  pending: number;
+  /** True when every valid row was attempted */
+  completed: boolean;
+  rows: PatientImportRowResult[];
+}
+
+interface PreparedRow<TExtras extends PatientExtras> {
+  result: PatientImportRowResult;
+  data: CreatePatientData<TExtras>;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+const IMPORT_FIELDS: (keyof CreatePatientData)[] = [
+  'gen', 'dob', 's', 'fn', 'mn', 'ln', 'fln', 'ccd', 'mobile', 'email', 'username', 'bg', 'abha', 'is_age', 'extras',
+];
+
+/**
+ * Service that validates source rows and creates patients from them, resumably
+ */
+export class ImporterService<TExtras extends PatientExtras = PatientExtras> {
+  private patients: PatientMethods<TExtras>;
+  private config: SdkConfig;
+  private defaultStore: ImportCheckpointStore | null = null;
+  /** Custom checkpoint stores passed to `run`, updated when queued creates are replayed */
+  private customStores = new Set<ImportCheckpointStore>();
+
+  constructor(patients: PatientMethods<TExtras>, config: SdkConfig) {
+    this.patients = patients;
+    this.config = config;
+  }
+
+  /**
+   * Validate rows without creating anything
+   *
+   * @param input CSV text with a header row, or an array of rows
+   * @param options Import options (mapping, delimiter, dateFormat and importId are used)
+   * @returns Report with every row either pending (valid) or invalid
+   *
+   * @example
+   * ```typescript
+   * const report = await sdk.importer.validate(csvText, { mapping: { fln: 'Name', dob: 'DOB', gen: 'Sex' } });
+   * report.rows.filter((row) => row.status === 'invalid').forEach((row) => console.log(row.row, row.issues));
+   * ```
+   */
+  async validate(
+    input: string | PatientImportRow[],
+    options: PatientImportOptions<TExtras> = {}
+  ): Promise<PatientImportReport> {
+    const rows = this.toRows(input, options);
+    const importId = options.importId || this.defaultImportId(rows);
+    return this.report(importId, this.prepare(rows, options).map((prepared) => prepared.result), true);
+  }
+
+  /**
+   * Validate every row, then create the valid ones with bounded concurrency.
+   *
+   * Each row is sent with an idempotency key derived from the import id, row number and row
+   * content, and created rows are checkpointed; running the same import again skips created rows
+   * and retries the rest without creating duplicates. Transient failures are retried by the
+   * HTTP client's retry policy.
+   *
+   * @param input CSV text with a header row, or an array of rows
+   * @param options Import options
+   * @returns Per-row report
+   *
+   * @example
+   * ```typescript
+   * const report = await sdk.importer.run(csvText, {
+   *   mapping: { fln: 'Name', dob: 'DOB', gen: 'Sex', mobile: 'Phone' },
+   *   dateFormat: 'DD/MM/YYYY',
+   *   onProgress: ({ progress, total }) => console.log(`${progress}/${total}`),
+   * });
+   * console.log(`${report.created} created, ${report.invalid} invalid, ${report.failed} failed`);
+   * ```
+   */
+  async run(
+    input: string | PatientImportRow[],
+    options: PatientImportOptions<TExtras> = {}
+  ): Promise<PatientImportReport> {
+    const rows = this.toRows(input, options);
+    const importId = options.importId || this.defaultImportId(rows);
+    const prepared = this.prepare(rows, options);
+    const results = prepared.map((item) => item.result);
+
+    const store = options.checkpointStore || this.getDefaultStore();
+    if (options.checkpointStore) {
+      this.customStores.add(options.checkpointStore);
+    }
+    const done = new Map((await store.list(importId)).map((entry) => [entry.row, entry]));
+    const valid = prepared.filter((item) => item.result.status !== 'invalid');
+
+    if (options.requireAllValid && valid.length < prepared.length) {
+      return this.report(importId, results, false);
+    }
+
+    let settled = prepared.length - valid.length;
+    const notify = () =>
+      options.onProgress?.({ progress: settled, total: prepared.length, isComplete: settled === prepared.length });
+
+    const pending: PreparedRow<TExtras>[] = [];
+    for (const item of valid) {
+      const entry = done.get(item.result.row);
+      if (entry) {
+        Object.assign(item.result, { status: 'created', oid: entry.oid, queued: entry.queued, resumed: true });
+        settled++;
+      } else {
+        pending.push(item);
+      }
+    }
+    notify();
+
+    await mapWithConcurrency(pending, options.concurrency ?? DEFAULT_CONCURRENCY, async ({ result, data }) => {
+      if (options.signal?.aborted) {
+        return;
+      }
+
+      try {
+        const created = await this.patients.create(data, {
+          idempotencyKey: `import-${importId}-${result.row}-${hashString(JSON.stringify(data))}`,
+          validate: false,
+          signal: options.signal,
+        });
+        result.status = 'created';
+        result.oid = created.oid;
+        if (created.queued) {
+          result.queued = true;
+        }
+      } catch (error) {
+        if (options.signal?.aborted) {
+          return;
+        }
+        result.status = 'failed';
+        result.error = toTrinitySDKError(error);
+      }
+
+      if (result.status === 'created') {
+        try {
+          await store.add({ importId, row: result.row, oid: result.oid!, queued: result.queued });
+        } catch (error) {
+          result.checkpointError = toTrinitySDKError(error);
+        }
+      }
+
+      settled++;
+      notify();
+    });
+
+    return this.report(importId, results, !options.signal?.aborted);
+  }
+
+  /**
+   * Record the server OID of a row whose create was queued offline and has now been replayed.
+   * Called by the offline queue; checkpoint failures are logged and do not stop the replay.
+   *
+   * @param provisionalOid OID the row was checkpointed with
+   * @param oid Server OID
+   */
+  async oidResolved(provisionalOid: string, oid: string): Promise<void> {
+    for (const store of new Set([this.getDefaultStore(), ...this.customStores])) {
+      try {
+        await store.resolveOid(provisionalOid, oid);
+      } catch (error) {
+        console.warn(`Failed to update import checkpoint for patient ${provisionalOid}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Forget the recorded progress of an import, so running it again creates every row anew
+   */
+  async clearCheckpoint(importId: string, store?: ImportCheckpointStore): Promise<void> {
+    await (store || this.getDefaultStore()).clear(importId);
+  }
+
+  /**
+   * Close the default checkpoint store
+   */
+  destroy(): void {
+    if (this.defaultStore instanceof IndexedDBImportCheckpointStore) {
+      this.defaultStore.close();
+    }
+    this.defaultStore = null;
+    this.customStores.clear();
+  }
+
+  private toRows(input: string | PatientImportRow[], options: PatientImportOptions<TExtras>): PatientImportRow[] {
+    return typeof input === 'string' ? parseCsvRecords(input, options.delimiter) : input;
+  }
+
+  /**
+   * Import id derived from the input content
+   */
+  private defaultImportId(rows: PatientImportRow[]): string {
+    return hashString(JSON.stringify(rows));
+  }
+
+  /**
+   * Map and validate every row
+   */
+  private prepare(rows: PatientImportRow[], options: PatientImportOptions<TExtras>): PreparedRow<TExtras>[] {
+    const validatorOptions = { defaultCountryCode: this.config.defaultCountryCode, ...this.config.validation };
+
+    return rows.map((row, index) => {
+      const result: PatientImportRowResult = { row: index + 1, status: 'pending', issues: [] };
+      const mappingIssues: PatientValidationIssue[] = [];
+      let data: CreatePatientData<TExtras>;
+
+      try {
+        data = this.mapRow(row, options, mappingIssues);
+      } catch (error) {
+        result.status = 'invalid';
+        result.issues = this.toIssues(error);
+        return { result, data: {} as CreatePatientData<TExtras> };
+      }
+
+      const validation = validateCreatePatientData(data, validatorOptions);
+      // A mapping issue explains its field better than the validator's generic one
+      const mappedFields = new Set(mappingIssues.map((issue) => issue.field));
+      result.issues = [
+        ...mappingIssues,
+        ...validation.issues.filter((issue) => !mappedFields.has(issue.field)),
+      ];
+      if (!validation.isValid || mappingIssues.length > 0) {
+        result.status = 'invalid';
+      }
+      return { result, data };
+    });
+  }
+
+  /**
+   * Build create data from a row using the mapping; cells that cannot be converted add to `issues`
+   */
+  private mapRow(
+    row: PatientImportRow,
+    options: PatientImportOptions<TExtras>,
+    issues: PatientValidationIssue[]
+  ): CreatePatientData<TExtras> {
+    const mapping: PatientImportMapping<TExtras> =
+      options.mapping || Object.fromEntries(IMPORT_FIELDS.map((field) => [field, field]));
+    const data: Record<string, unknown> = {};
+
+    for (const [field, source] of Object.entries(mapping)) {
+      if (source === undefined) {
+        continue;
+      }
+      const value = typeof source === 'function'
+        ? source(row)
+        : this.convertCell(field as keyof CreatePatientData, row[source], options, issues);
+      if (value !== undefined && value !== '') {
+        data[field] = value;
+      }
+    }
+
+    const patient = data as unknown as CreatePatientData<TExtras>;
+    if (patient.mobile) {
+      const parsed = parsePhoneNumber(patient.mobile, patient.ccd || this.config.defaultCountryCode);
+      if (parsed) {
+        patient.mobile = parsed.nationalNumber;
+        if (parsed.hasCountryCode) {
+          patient.ccd = parsed.countryCode;
+        }
+      }
+    }
+
+    return parsePatientExtras(this.config.extrasSchema, patient, 'write');
+  }
+
+  /**
+   * Convert a cell to the API format of its field; unrecognised values are passed on for validation
+   */
+  private convertCell(
+    field: keyof CreatePatientData,
+    cell: unknown,
+    options: PatientImportOptions<TExtras>,
+    issues: PatientValidationIssue[]
+  ): unknown {
+    const value = cell === undefined || cell === null ? '' : String(cell).trim();
+    if (value === '') {
+      return undefined;
+    }
+
+    switch (field) {
+      case 'gen': {
+        const gender = value.toUpperCase();
+        return { MALE: 'M', FEMALE: 'F', OTHER: 'O' }[gender] || gender;
+      }
+      case 'dob': {
+        const format = options.dateFormat || 'YYYY-MM-DD';
+        const date = this.convertDate(value, format);
+        if (!date) {
+          issues.push(dateFormatIssue(field, value, format));
+        }
+        return date ?? value;
+      }
+      case 'bg':
+        return value.toUpperCase().replace(/\s+/g, '');
+      case 'is_age':
+        return ['true', 'yes', 'y', '1'].includes(value.toLowerCase());
+      case 'extras':
+        try {
+          return JSON.parse(value);
+        } catch {
+          throw new ValidationError('Extras column is not valid JSON', undefined, undefined, {
+            extras: ['Extras column is not valid JSON'],
+          });
+        }
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Convert a date in the import's date format to YYYY-MM-DD
+   *
+   * @returns The ISO date, or undefined when the value is not a valid date in that format
+   */
+  private convertDate(value: string, format: NonNullable<PatientImportOptions['dateFormat']>): string | undefined {
+    if (format === 'YYYY-MM-DD') {
+      return parseIsoDate(value) ? value : undefined;
+    }
+
+    const match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(value);
+    if (!match) {
+      return undefined;
+    }
+    const [day, month] = format === 'DD/MM/YYYY' ? [match[1], match[2]] : [match[2], match[1]];
+    const iso = `${match[3]}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    const date = parseIsoDate(iso);
+    return date ? formatIsoDate(date) : undefined;
+  }
+
+  /**
+   * Validation issues from a mapping error (e.g. extras rejected by the extras schema)
+   */
+  private toIssues(error: unknown): PatientValidationIssue[] {
+    if (error instanceof ValidationError && Object.keys(error.fieldErrors).length > 0) {
+      return Object.entries(error.fieldErrors).flatMap(([field, messages]) =>
+        (messages || []).map((message) => ({
+          field: field as PatientValidationIssue['field'],
+          code: 'invalid',
+          message,
+          severity: 'error' as const,
+        }))
+      );
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return [{ field: 'non_field', code: 'invalid', message, severity: 'error' }];
+  }
+
+  private getDefaultStore(): ImportCheckpointStore {
+    if (!this.defaultStore) {
+      const factory = this.config.indexedDB || (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+      this.defaultStore = factory && this.config.workspaceId
+        ? new IndexedDBImportCheckpointStore(this.config.workspaceId, factory)
+        : new MemoryImportCheckpointStore();
+    }
+    return this.defaultStore;
+  }
+
+  private report(importId: string, rows: PatientImportRowResult[], completed: boolean): PatientImportReport {
+    const count = (status: PatientImportRowStatus) => rows.filter((row) => row.status === status).length;
+    return {
+      importId,
+      total: rows.length,
+      created: count('created'),
+      invalid: count('invalid'),
+      failed: count('failed'),
+      pending: count('pending'),
+      completed,
+      rows,
+    };
+  }
+}
+
+/**
+ * Issue for a date cell that does not match the import's date format
+ */
+function dateFormatIssue(field: PatientField, value: string, format: string): PatientValidationIssue {
+  return {
+    field,
+    code: 'invalid_date_format',
+    message: `${field} "${value}" is not a valid date in the ${format} format set by dateFormat`,
+    severity: 'error',
+  };
+}
@@ -2,46 +2,62 @@
  * IndexedDB service for local patient data storage
  */
 
-import { LocalMinifiedPatient } from '../types';
+import { toAbhaDigits } from '../helpers/abha';
+import { matchesLastDigits, toE164, toE164Prefix } from '../helpers/phone';
+import { emitTelemetry, now, TelemetrySink } from '../telemetry';
+import { LocalMinifiedPatient, LocalPatientUpdate } from '../types';
 
 export class IndexedDBService {
   private dbName = 'TrinityProfilesDB';
   private version = 1;
   private db: IDBDatabase | null = null;
   private workspaceId: string;
-
-  constructor(workspaceId: string) {
+  private factory: IDBFactory | undefined;
+  private telemetry: TelemetrySink | undefined;
+  private defaultCountryCode: string | undefined;
+
+  constructor(
+    workspaceId: string,
+    factory?: IDBFactory,
+    telemetry?: TelemetrySink,
+    defaultCountryCode?: string
+  ) {
     this.workspaceId = workspaceId;
+    this.factory = factory;
+    this.telemetry = telemetry;
+    this.defaultCountryCode = defaultCountryCode;
   }
 
   /**
    * Initialize the IndexedDB connection
    */
   async init(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, this.version + 1);
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        this.db = request.result;
-        resolve();
-      };
-
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // Create object store for patients with workspace-specific naming
-        const storeName = this.getStoreName();
-        if (!db.objectStoreNames.contains(storeName)) {
-          const store = db.createObjectStore(storeName, { keyPath: 'oid' });
-
-          // Create indexes for search fields
-          store.createIndex('fln', 'fln', { unique: false });
-          store.createIndex('mobile', 'mobile', { unique: false });
-          store.createIndex('username', 'username', { unique: false });
-          store.createIndex('u_ate', 'u_ate', { unique: false });
-        }
-      };
+    return this.measure('init', async () => {
+      return new Promise((resolve, reject) => {
+        const request = (this.factory || indexedDB).open(this.dbName, this.version + 1);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          this.db = request.result;
+          resolve();
+        };
+
+        request.onupgradeneeded = (event) => {
+          const db = (event.target as IDBOpenDBRequest).result;
+
+          // Create object store for patients with workspace-specific naming
+          const storeName = this.getStoreName();
+          if (!db.objectStoreNames.contains(storeName)) {
+            const store = db.createObjectStore(storeName, { keyPath: 'oid' });
+
+            // Create indexes for search fields
+            store.createIndex('fln', 'fln', { unique: false });
+            store.createIndex('mobile', 'mobile', { unique: false });
+            store.createIndex('username', 'username', { unique: false });
+            store.createIndex('u_ate', 'u_ate', { unique: false });
+          }
+        };
+      });
     });
   }
 
@@ -52,114 +68,168 @@ export class IndexedDBService {
     return `patients_${this.workspaceId}`;
   }
 
+  /**
+   * Whether the database connection is open
+   */
+  isOpen(): boolean {
+    return this.db !== null;
+  }
+
   /**
    * Store multiple patients in batch
    */
   async batchStore(patients: LocalMinifiedPatient[]): Promise<void> {
-    if (!this.db) {
-      await this.init();
-    }
+    return this.measure('batchStore', async () => {
+      if (!this.db) {
+        await this.init();
+      }
 
-    const storeName = this.getStoreName();
-    if (!this.db || !this.db.objectStoreNames.contains(storeName)) {
-      // Close current connection and reinitialize
-      this.close();
-      await this.init();
+      const storeName = this.getStoreName();
+      if (!this.db || !this.db.objectStoreNames.contains(storeName)) {
+        // Close current connection and reinitialize
+        this.close();
+        await this.init();
 
-      // Check again after reinitialization
-      if (!this.db?.objectStoreNames.contains(storeName)) {
-        throw new Error(`Object store '${storeName}' still not found after reinitialization`);
+        // Check again after reinitialization
+        if (!this.db?.objectStoreNames.contains(storeName)) {
+          throw new Error(`Object store '${storeName}' still not found after reinitialization`);
+        }
       }
-    }
 
-    return new Promise((resolve, reject) => {
-      try {
-        const transaction = this.db!.transaction([this.getStoreName()], 'readwrite');
+      return new Promise((resolve, reject) => {
+        try {
+          const transaction = this.db!.transaction([this.getStoreName()], 'readwrite');
+          const store = transaction.objectStore(this.getStoreName());
+
+          transaction.oncomplete = () => {
+            resolve();
+          };
+          transaction.onerror = () => {
+            reject(transaction.error);
+          };
+
+          patients?.forEach((patient) => {
+            store.put(patient);
+          });
+        } catch (error) {
+          console.error('Error creating transaction:', error);
+          reject(error);
+        }
+      });
+    }, () => patients?.length);
+  }
+
+  /**
+   * Search patients by prefix with field-specific logic.
+   * Numeric prefixes (hyphens allowed) also match the start of stored ABHA numbers, and
+   * phone-like prefixes ("+91 98765", "098765") are compared in E.164 form. Archived patients are skipped.
+   */
+  async searchByPrefix(prefix: string, limit: number = 50): Promise<LocalMinifiedPatient[]> {
+    return this.measure('searchByPrefix', async () => {
+      if (!this.db) throw new Error('Database not initialized');
+
+      const results: LocalMinifiedPatient[] = [];
+      const isNumeric = /^\d+$/.test(prefix);
+      const lowerPrefix = prefix.toLowerCase();
+      // Hyphenated input such as "91-5028" can only be a partial ABHA number
+      const abhaPrefix = /^\d[\d-]*$/.test(prefix) ? prefix.replace(/-/g, '') : '';
+      const phonePrefix = toE164Prefix(prefix, this.defaultCountryCode);
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.getStoreName()], 'readonly');
         const store = transaction.objectStore(this.getStoreName());
+        const request = store.openCursor();
+
+        request.onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest).result;
+          if (cursor && results.length < limit) {
+            const patient = cursor.value as LocalMinifiedPatient;
+            let match = false;
+
+            if (patient.arc) {
+              // Archived profiles stay stored but are not searchable
+            } else if (abhaPrefix || phonePrefix) {
+              // Search in mobile, username and ABHA number fields for numeric prefix
+              if (
+                (isNumeric && patient.mobile?.startsWith(prefix)) ||
+                (phonePrefix && this.getE164(patient)?.startsWith(phonePrefix)) ||
+                (isNumeric && patient.username?.toLowerCase().startsWith(lowerPrefix)) ||
+                (abhaPrefix && toAbhaDigits(patient.abha)?.startsWith(abhaPrefix))
+              ) {
+                match = true;
+              }
+            } else {
+              // Search in fln and username fields for alphabetic prefix
+              if (
+                patient.fln?.toLowerCase().startsWith(lowerPrefix) ||
+                patient.username?.toLowerCase().startsWith(lowerPrefix)
+              ) {
+                match = true;
+              }
+            }
 
-        transaction.oncomplete = () => {
-          resolve();
-        };
-        transaction.onerror = () => {
-          reject(transaction.error);
+            if (match) {
+              results.push(patient);
+            }
+
+            cursor.continue();
+          } else {
+            resolve(results);
+          }
         };
 
-        patients?.forEach((patient) => {
-          store.put(patient);
-        });
-      } catch (error) {
-        console.error('Error creating transaction:', error);
-        reject(error);
-      }
-    });
+        request.onerror = () => reject(request.error);
+      });
+    }, (results) => results.length);
   }
 
   /**
-   * Search patients by prefix with field-specific logic
+   * Find patients whose mobile number ends with the given digits (formatting ignored); archived patients are skipped
    */
-  async searchByPrefix(prefix: string, limit: number = 50): Promise<LocalMinifiedPatient[]> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    const results: LocalMinifiedPatient[] = [];
-    const isNumeric = /^\d+$/.test(prefix);
-    const lowerPrefix = prefix.toLowerCase();
-
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.getStoreName()], 'readonly');
-      const store = transaction.objectStore(this.getStoreName());
-      const request = store.openCursor();
-
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
-        if (cursor && results.length < limit) {
-          const patient = cursor.value as LocalMinifiedPatient;
-          let match = false;
-
-          if (isNumeric) {
-            // Search in mobile and username fields for numeric prefix
-            if (
-              patient.mobile?.startsWith(prefix) ||
-              patient.username?.toLowerCase().startsWith(lowerPrefix)
-            ) {
-              match = true;
+  async searchByMobileSuffix(suffix: string, limit: number = 50): Promise<LocalMinifiedPatient[]> {
+    return this.measure('searchByMobileSuffix', async () => {
+      if (!this.db) throw new Error('Database not initialized');
+
+      const results: LocalMinifiedPatient[] = [];
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.getStoreName()], 'readonly');
+        const store = transaction.objectStore(this.getStoreName());
+        const request = store.openCursor();
+
+        request.onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest).result;
+          if (cursor && results.length < limit) {
+            const patient = cursor.value as LocalMinifiedPatient;
+            if (!patient.arc && matchesLastDigits(patient.e164 || patient.mobile, suffix)) {
+              results.push(patient);
             }
+            cursor.continue();
           } else {
-            // Search in fln and username fields for alphabetic prefix
-            if (
-              patient.fln?.toLowerCase().startsWith(lowerPrefix) ||
-              patient.username?.toLowerCase().startsWith(lowerPrefix)
-            ) {
-              match = true;
-            }
-          }
-
-          if (match) {
-            results.push(patient);
+            resolve(results);
           }
+        };
 
-          cursor.continue();
-        } else {
-          resolve(results);
-        }
-      };
-
-      request.onerror = () => reject(request.error);
-    });
+        request.onerror = () => reject(request.error);
+      });
+    }, (results) => results.length);
   }
 
   /**
    * Get patient by OID (primary key)
    */
   async getByOid(oid: string): Promise<LocalMinifiedPatient | null> {
-    if (!this.db) throw new Error('Database not initialized');
+    return this.measure('getByOid', async () => {
+      if (!this.db) throw new Error('Database not initialized');
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.getStoreName()], 'readonly');
-      const store = transaction.objectStore(this.getStoreName());
-      const request = store.get(oid);
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.getStoreName()], 'readonly');
+        const store = transaction.objectStore(this.getStoreName());
+        const request = store.get(oid);
 
-      request.onsuccess = () => resolve(request.result || null);
-      request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result || null);
+        request.onerror = () => reject(request.error);
+      });
     });
   }
 
@@ -167,15 +237,17 @@ export class IndexedDBService {
    * Update single patient by OID
    */
   async updatePatient(patient: LocalMinifiedPatient): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+    return this.measure('updatePatient', async () => {
+      if (!this.db) throw new Error('Database not initialized');
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.getStoreName()], 'readwrite');
-      const store = transaction.objectStore(this.getStoreName());
-      const request = store.put(patient);
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.getStoreName()], 'readwrite');
+        const store = transaction.objectStore(this.getStoreName());
+        const request = store.put(patient);
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
     });
   }
 
@@ -183,36 +255,109 @@ export class IndexedDBService {
    * Partially update patient by OID - only updates specified fields
    */
   async partialUpdatePatient(oid: string, updates: Partial<LocalMinifiedPatient>): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+    return this.measure('partialUpdatePatient', async () => {
+      if (!this.db) throw new Error('Database not initialized');
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.getStoreName()], 'readwrite');
-      const store = transaction.objectStore(this.getStoreName());
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.getStoreName()], 'readwrite');
+        const store = transaction.objectStore(this.getStoreName());
 
-      // First get the existing patient record
-      const getRequest = store.get(oid);
+        // First get the existing patient record
+        const getRequest = store.get(oid);
 
-      getRequest.onsuccess = () => {
-        const existingPatient = getRequest.result;
-        if (!existingPatient) {
-          reject(new Error(`Patient with OID ${oid} not found`));
-          return;
-        }
+        getRequest.onsuccess = () => {
+          const existingPatient = getRequest.result;
+          if (!existingPatient) {
+            reject(new Error(`Patient with OID ${oid} not found`));
+            return;
+          }
 
-        // Merge existing data with updates
-        const updatedPatient: LocalMinifiedPatient = {
-          ...existingPatient,
-          ...updates,
-          oid, // Ensure OID is preserved
+          // Merge existing data with updates
+          const updatedPatient: LocalMinifiedPatient = {
+            ...existingPatient,
+            ...updates,
+            oid, // Ensure OID is preserved
+          };
+
+          // Update the record
+          const putRequest = store.put(updatedPatient);
+          putRequest.onsuccess = () => resolve();
+          putRequest.onerror = () => reject(putRequest.error);
         };
 
-        // Update the record
-        const putRequest = store.put(updatedPatient);
-        putRequest.onsuccess = () => resolve();
-        putRequest.onerror = () => reject(putRequest.error);
-      };
+        getRequest.onerror = () => reject(getRequest.error);
+      });
+    });
+  }
 
-      getRequest.onerror = () => reject(getRequest.error);
+  /**
+   * Partially update several patients in one transaction; OIDs without a stored record are skipped
+   */
+  async batchPartialUpdate(updates: LocalPatientUpdate[]): Promise<void> {
+    return this.measure('batchPartialUpdate', async () => {
+      if (!this.db) throw new Error('Database not initialized');
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.getStoreName()], 'readwrite');
+        const store = transaction.objectStore(this.getStoreName());
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+
+        updates.forEach(({ oid, updates: changes }) => {
+          const getRequest = store.get(oid);
+          getRequest.onsuccess = () => {
+            if (getRequest.result) {
+              store.put({ ...getRequest.result, ...changes, oid });
+            }
+          };
+        });
+      });
+    }, () => updates.length);
+  }
+
+  /**
+   * Delete patient by OID
+   */
+  async deletePatient(oid: string): Promise<void> {
+    return this.measure('deletePatient', async () => {
+      if (!this.db) throw new Error('Database not initialized');
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.getStoreName()], 'readwrite');
+        const store = transaction.objectStore(this.getStoreName());
+        const request = store.delete(oid);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+    });
+  }
+
+  /**
+   * Move a patient record to a new OID (e.g. provisional OID -> server OID)
+   */
+  async replaceOid(oldOid: string, newOid: string): Promise<void> {
+    return this.measure('replaceOid', async () => {
+      if (!this.db) throw new Error('Database not initialized');
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.getStoreName()], 'readwrite');
+        const store = transaction.objectStore(this.getStoreName());
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+
+        const getRequest = store.get(oldOid);
+        getRequest.onsuccess = () => {
+          const existingPatient = getRequest.result as LocalMinifiedPatient | undefined;
+          if (!existingPatient) {
+            return;
+          }
+          store.delete(oldOid);
+          store.put({ ...existingPatient, oid: newOid });
+        };
+      });
     });
   }
 
@@ -220,22 +365,24 @@ export class IndexedDBService {
    * Check if any data exists
    */
   async hasData(): Promise<boolean> {
-    if (!this.db) {
-      await this.init();
-    }
+    return this.measure('hasData', async () => {
+      if (!this.db) {
+        await this.init();
+      }
 
-    const storeName = this.getStoreName();
-    if (!this.db || !this.db.objectStoreNames.contains(storeName)) {
-      return false;
-    }
+      const storeName = this.getStoreName();
+      if (!this.db || !this.db.objectStoreNames.contains(storeName)) {
+        return false;
+      }
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.getStoreName()], 'readonly');
-      const store = transaction.objectStore(this.getStoreName());
-      const request = store.count();
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.getStoreName()], 'readonly');
+        const store = transaction.objectStore(this.getStoreName());
+        const request = store.count();
 
-      request.onsuccess = () => resolve(request.result > 0);
-      request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result > 0);
+        request.onerror = () => reject(request.error);
+      });
     });
   }
 
@@ -243,40 +390,44 @@ export class IndexedDBService {
    * Get all patients (for internal use)
    */
   async getAllPatients(): Promise<LocalMinifiedPatient[]> {
-    if (!this.db) throw new Error('Database not initialized');
+    return this.measure('getAllPatients', async () => {
+      if (!this.db) throw new Error('Database not initialized');
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.getStoreName()], 'readonly');
-      const store = transaction.objectStore(this.getStoreName());
-      const request = store.getAll();
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.getStoreName()], 'readonly');
+        const store = transaction.objectStore(this.getStoreName());
+        const request = store.getAll();
 
-      request.onsuccess = () => resolve(request.result);
-      request.onerror = () => reject(request.error);
-    });
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }, (results) => results.length);
   }
 
   /**
    * Get the latest update timestamp
    */
   async getLatestUpdateTime(): Promise<number> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.getStoreName()], 'readonly');
-      const store = transaction.objectStore(this.getStoreName());
-      const index = store.index('u_ate');
-      const request = index.openCursor(null, 'prev');
-
-      request.onsuccess = () => {
-        const cursor = request.result;
-        if (cursor) {
-          resolve(cursor.value.u_ate);
-        } else {
-          resolve(0);
-        }
-      };
+    return this.measure('getLatestUpdateTime', async () => {
+      if (!this.db) throw new Error('Database not initialized');
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.getStoreName()], 'readonly');
+        const store = transaction.objectStore(this.getStoreName());
+        const index = store.index('u_ate');
+        const request = index.openCursor(null, 'prev');
+
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            resolve(cursor.value.u_ate);
+          } else {
+            resolve(0);
+          }
+        };
 
-      request.onerror = () => reject(request.error);
+        request.onerror = () => reject(request.error);
+      });
     });
   }
 
@@ -284,18 +435,64 @@ export class IndexedDBService {
    * Clear all data for the current workspace
    */
   async clearData(): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+    return this.measure('clearData', async () => {
+      if (!this.db) throw new Error('Database not initialized');
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.getStoreName()], 'readwrite');
-      const store = transaction.objectStore(this.getStoreName());
-      const request = store.clear();
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([this.getStoreName()], 'readwrite');
+        const store = transaction.objectStore(this.getStoreName());
+        const request = store.clear();
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
     });
   }
 
+  /**
+   * E.164 mobile of a stored patient; records synced before e164 was stored derive it from mobile
+   */
+  private getE164(patient: LocalMinifiedPatient): string | undefined {
+    return patient.e164 || toE164(patient.mobile, undefined, this.defaultCountryCode);
+  }
+
+  /**
+   * Run an operation and report its duration and outcome to the telemetry sink
+   */
+  private async measure<T>(
+    operation: string,
+    run: () => Promise<T>,
+    recordCount?: (result: T) => number
+  ): Promise<T> {
+    if (!this.telemetry) {
+      return run();
+    }
+
+    const startedAt = now();
+    try {
+      const result = await run();
+      emitTelemetry(this.telemetry, {
+        type: 'indexeddb.operation',
+        operation,
+        storeName: this.getStoreName(),
+        durationMs: now() - startedAt,
+        success: true,
+        recordCount: recordCount?.(result),
+      });
+      return result;
+    } catch (error) {
+      emitTelemetry(this.telemetry, {
+        type: 'indexeddb.operation',
+        operation,
+        storeName: this.getStoreName(),
+        durationMs: now() - startedAt,
+        success: false,
+        error: error instanceof Error ? error.name : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
   /**
    * Close the database connection
    */
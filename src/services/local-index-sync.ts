@@ -0,0 +1,353 @@
+/**
+ * Reconciliation of the local search index with patient mutations
+ */
+
+import { composeFullName } from '../helpers/name';
+import { parsePhoneNumber, toE164 } from '../helpers/phone';
+import {
+  CreatePatientData,
+  LocalMinifiedPatient,
+  LocalPatientUpdate,
+  Patient,
+  SdkConfig,
+  UpdatePatientData,
+} from '../types';
+import { IndexedDBService } from './indexeddb';
+
+/** Removed fields that change the stored full name */
+const NAME_FIELDS = ['fn', 'mn', 'ln', 'fln'];
+/** Removed fields that change the stored E.164 mobile */
+const PHONE_FIELDS = ['mobile', 'ccd'];
+
+/**
+ * Applies every patient mutation (create, update, delete, archive, unarchive, removeFields and
+ * offline OID swaps) to the local index, so local search reflects the server.
+ *
+ * Only an index that is already open is written; with local search off or not yet initialized
+ * nothing happens. Index failures are logged and never fail the mutation itself.
+ */
+export class LocalIndexSyncService {
+  private config: SdkConfig;
+  private getIndex: () => IndexedDBService | null;
+  private fetchPatient: (oid: string) => Promise<Patient>;
+
+  /**
+   * @param config SDK configuration
+   * @param getIndex Returns the local index, or null while local search is not initialized
+   * @param fetchPatient Loads a patient from the server when a change cannot be applied from the
+   * request and response alone (e.g. the new `fln` after a partial name update)
+   */
+  constructor(
+    config: SdkConfig,
+    getIndex: () => IndexedDBService | null,
+    fetchPatient: (oid: string) => Promise<Patient>
+  ) {
+    this.config = config;
+    this.getIndex = getIndex;
+    this.fetchPatient = fetchPatient;
+  }
+
+  /**
+   * Add a newly created patient
+   */
+  async patientCreated(oid: string, data: CreatePatientData): Promise<void> {
+    await this.write('patient creation', (index) => index.updatePatient(this.toLocalPatient(oid, data)));
+  }
+
+  /**
+   * Add several newly created patients in one transaction
+   */
+  async patientsCreated(created: { oid: string; data: CreatePatientData }[]): Promise<void> {
+    if (created.length === 0) {
+      return;
+    }
+    await this.write('bulk creation', (index) =>
+      index.batchStore(created.map(({ oid, data }) => this.toLocalPatient(oid, data)))
+    );
+  }
+
+  /**
+   * Apply a patient update to the stored record
+   *
+   * @param oid Patient OID
+   * @param data Update sent to the server
+   * @param response Server response; when it is the updated patient its `fln` is used
+   */
+  async patientUpdated(oid: string, data: UpdatePatientData, response?: unknown): Promise<void> {
+    await this.write('patient update', async (index) => {
+      const updates = await this.toLocalUpdates(index, oid, data, response);
+      if (updates) {
+        await index.partialUpdatePatient(oid, updates);
+      }
+    });
+  }
+
+  /**
+   * Apply several patient updates in one transaction; patients without a stored record are skipped
+   */
+  async patientsUpdated(updated: { oid: string; data: UpdatePatientData; response?: unknown }[]): Promise<void> {
+    await this.write('bulk update', async (index) => {
+      const updates: LocalPatientUpdate[] = [];
+      for (const { oid, data, response } of updated) {
+        const changes = await this.toLocalUpdates(index, oid, data, response);
+        if (changes) {
+          updates.push({ oid, updates: changes });
+        }
+      }
+      if (updates.length > 0) {
+        await index.batchPartialUpdate(updates);
+      }
+    });
+  }
+
+  /**
+   * Remove a deleted patient
+   */
+  async patientDeleted(oid: string): Promise<void> {
+    await this.write('patient deletion', (index) => index.deletePatient(oid));
+  }
+
+  /**
+   * Flag an archived patient; archived records are left out of local search
+   */
+  async patientArchived(oid: string): Promise<void> {
+    await this.write('patient archive', (index) =>
+      index.batchPartialUpdate([{ oid, updates: { arc: true, ...this.timestamp() } }])
+    );
+  }
+
+  /**
+   * Clear the archived flag. A patient the index does not have is added, from the unarchive response
+   * when it is the patient record, otherwise fetched from the server.
+   */
+  async patientUnarchived(oid: string, response?: unknown): Promise<void> {
+    await this.write('patient unarchive', async (index) => {
+      if (!(await index.getByOid(oid))) {
+        const patient = isPatientRecord(response) ? response : await this.fetchForIndex(oid);
+        if (patient) {
+          await index.updatePatient(this.toLocalPatient(oid, patient));
+        }
+        return;
+      }
+      await index.batchPartialUpdate([{ oid, updates: { arc: false, ...this.timestamp() } }]);
+    });
+  }
+
+  /**
+   * Clear removed fields from the stored record (a removed mobile no longer matches phone searches)
+   */
+  async fieldsRemoved(oid: string, fields: string[]): Promise<void> {
+    await this.write('field removal', async (index) => {
+      const current = await index.getByOid(oid);
+      if (!current) {
+        return;
+      }
+
+      const next: LocalMinifiedPatient = { ...current, ...this.timestamp() };
+      const removed = new Set(fields);
+
+      (['mobile', 'username', 'abha', 'gen', 'dob', 'is_age'] as const).forEach((field) => {
+        if (removed.has(field)) {
+          delete next[field];
+        }
+      });
+      if (removed.has('dob')) {
+        delete next.is_age;
+      }
+
+      if (PHONE_FIELDS.some((field) => removed.has(field))) {
+        // Without a country code the number falls back to the default one
+        const ccd = removed.has('ccd') || !current.e164 ? undefined : parsePhoneNumber(current.e164)?.countryCode;
+        next.e164 = toE164(next.mobile, ccd, this.config.defaultCountryCode);
+        if (!next.e164) {
+          delete next.e164;
+        }
+      }
+
+      if (NAME_FIELDS.some((field) => removed.has(field))) {
+        next.fln = (await this.fetchFullName(oid)) ?? current.fln;
+      }
+
+      await index.updatePatient(next);
+    });
+  }
+
+  /**
+   * Move a record from a provisional OID to the server OID after an offline create was replayed
+   */
+  async oidReplaced(oldOid: string, newOid: string): Promise<void> {
+    await this.write('provisional OID replacement', (index) => index.replaceOid(oldOid, newOid));
+  }
+
+  /**
+   * Run a write against the open index, logging failures
+   */
+  private async write(operation: string, run: (index: IndexedDBService) => Promise<void>): Promise<void> {
+    const index = this.getIndex();
+    if (!index?.isOpen()) {
+      return;
+    }
+
+    try {
+      await run(index);
+    } catch (error) {
+      console.warn(`Failed to update IndexedDB after ${operation}:`, error);
+    }
+  }
+
+  /**
+   * Build the local index record of a newly created patient
+   */
+  private toLocalPatient(oid: string, data: CreatePatientData): LocalMinifiedPatient {
+    const fullName = data.fln || composeFullName(data) || 'Unknown';
+
+    const localPatient: LocalMinifiedPatient = {
+      oid: oid,
+      fln: fullName,
+      mobile: 'mobile' in data ? data.mobile : undefined,
+      e164: toE164(data.mobile, data.ccd, this.config.defaultCountryCode),
+      username: 'username' in data ? data.username : undefined,
+    };
+
+    // Add default fields to the local patient
+    const selectedExtraMinifiedFields = this.config.extraMinifiedPatientFields;
+    if (selectedExtraMinifiedFields?.includes('u_ate')) {
+      localPatient.u_ate = Date.now();
+    }
+    if (selectedExtraMinifiedFields?.includes('dob')) {
+      localPatient.dob = data.dob;
+      if ('is_age' in data) {
+        localPatient.is_age = data.is_age;
+      }
+    }
+    if (selectedExtraMinifiedFields?.includes('gen')) {
+      localPatient.gen = data.gen;
+    }
+    if (selectedExtraMinifiedFields?.includes('abha')) {
+      if ('abha' in data) {
+        localPatient.abha = data.abha;
+      }
+    }
+
+    return localPatient;
+  }
+
+  /**
+   * Build the local index changes of a patient update; null when no indexed field changes
+   */
+  private async toLocalUpdates(
+    index: IndexedDBService,
+    oid: string,
+    data: UpdatePatientData,
+    response: unknown
+  ): Promise<Partial<LocalMinifiedPatient> | null> {
+    // Map UpdatePatientData fields to LocalMinifiedPatient fields
+    const updates: Partial<LocalMinifiedPatient> = {};
+
+    // Map overlapping fields
+    if (data.mobile !== undefined) updates.mobile = data.mobile;
+    if (data.username !== undefined) updates.username = data.username;
+
+    // Phone changes are merged with the stored record
+    const changesPhone = data.mobile !== undefined || data.ccd !== undefined;
+    const current = changesPhone ? await index.getByOid(oid) : null;
+
+    if (changesPhone) {
+      const currentCcd = current?.e164 ? parsePhoneNumber(current.e164)?.countryCode : undefined;
+      updates.e164 = toE164(
+        data.mobile ?? current?.mobile,
+        data.ccd ?? currentCcd,
+        this.config.defaultCountryCode
+      );
+    }
+
+    const fullName = await this.resolveFullName(oid, data, response);
+    if (fullName !== undefined) {
+      updates.fln = fullName;
+    }
+
+    const selectedExtraMinifiedFields = this.config.extraMinifiedPatientFields;
+    if (selectedExtraMinifiedFields?.includes('u_ate')) {
+      updates.u_ate = Date.now();
+    }
+
+    if (selectedExtraMinifiedFields?.includes('dob')) {
+      if (data.dob !== undefined) updates.dob = data.dob;
+      if (data.is_age !== undefined) updates.is_age = data.is_age;
+    }
+
+    if (selectedExtraMinifiedFields?.includes('gen')) {
+      if (data.gen !== undefined) updates.gen = data.gen;
+    }
+
+    if (selectedExtraMinifiedFields?.includes('abha')) {
+      if (data.abha !== undefined) updates.abha = data.abha;
+    }
+
+    // Only update the index if there are fields to update besides u_ate
+    return Object.keys(updates).some((key) => key !== 'u_ate') ? updates : null;
+  }
+
+  /**
+   * New `fln` after an update: the one sent, the server's, or one composed from a complete set of
+   * name parts. The index only stores `fln`, so a partial name change fetches the patient rather than
+   * guessing which stored words were the first, middle or last name.
+   *
+   * @returns The new full name, or undefined when the name did not change or cannot be resolved
+   */
+  private async resolveFullName(oid: string, data: UpdatePatientData, response: unknown): Promise<string | undefined> {
+    if (data.fln !== undefined) {
+      return data.fln;
+    }
+    if (data.fn === undefined && data.mn === undefined && data.ln === undefined) {
+      return undefined;
+    }
+    if (isPatientRecord(response)) {
+      return response.fln || composeFullName(response);
+    }
+    if (data.fn !== undefined && data.mn !== undefined && data.ln !== undefined) {
+      return composeFullName(data);
+    }
+    // A queued update is not on the server yet; the name is refreshed by the next sync
+    if ((response as { queued?: boolean } | undefined)?.queued) {
+      return undefined;
+    }
+
+    return this.fetchFullName(oid);
+  }
+
+  /**
+   * Server `fln` of a patient; undefined when the patient cannot be fetched
+   */
+  private async fetchFullName(oid: string): Promise<string | undefined> {
+    const patient = await this.fetchForIndex(oid);
+    return patient ? patient.fln || composeFullName(patient) : undefined;
+  }
+
+  /**
+   * Load a patient from the server for the local index; failures are logged and leave the index as it is
+   */
+  private async fetchForIndex(oid: string): Promise<Patient | undefined> {
+    try {
+      return await this.fetchPatient(oid);
+    } catch (error) {
+      console.warn(`Failed to fetch patient ${oid} for the local index:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * u_ate for a locally applied change, when u_ate is an indexed field
+   */
+  private timestamp(): Partial<LocalMinifiedPatient> {
+    return this.config.extraMinifiedPatientFields?.includes('u_ate') ? { u_ate: Date.now() } : {};
+  }
+}
+
+/**
+ * Whether a response body is a patient record (some endpoints return the updated patient)
+ */
+function isPatientRecord(value: unknown): value is Patient {
+  const record = value as Partial<Patient> | null | undefined;
+  return typeof record?.oid === 'string' && (typeof record.fln === 'string' || typeof record.fn === 'string');
+}
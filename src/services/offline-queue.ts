@@ -0,0 +1,395 @@
+/**
+ * Offline mutation queue with in-order replay
+ */
+
+import { HttpClient, IDEMPOTENCY_KEY_HEADER } from '../client';
+import {
+  AuthenticationError,
+  ConflictError,
+  NetworkError,
+  PendingSyncError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  TrinitySDKError,
+} from '../errors';
+import { generateId } from '../helpers/id';
+import { CreatePatientData, OfflineConfig, QueuedMutation, UpdatePatientData } from '../types';
+import { LocalIndexSyncService } from './local-index-sync';
+import { OutboxService } from './outbox';
+
+/**
+ * Prefix of OIDs assigned to patients created while offline
+ */
+export const PROVISIONAL_OID_PREFIX = 'local-';
+
+/**
+ * Check whether an OID is a provisional (not yet synced) OID
+ */
+export function isProvisionalOid(oid: string): boolean {
+  return oid.startsWith(PROVISIONAL_OID_PREFIX);
+}
+
+/**
+ * Reject an operation that cannot be queued on a patient whose offline creation is not synced yet
+ *
+ * @param oid Patient OID
+ * @param operation Operation name for the error message (e.g. "archive")
+ * @throws PendingSyncError when the OID is provisional
+ */
+export function assertSyncedOid(oid: string, operation: string): void {
+  if (isProvisionalOid(oid)) {
+    throw new PendingSyncError(
+      `Cannot ${operation} patient ${oid} before its offline creation is synced`
+    );
+  }
+}
+
+/**
+ * Outcome of a replay run
+ */
+export interface OfflineReplayResult {
+  /** Mutations accepted by the server */
+  replayed: number;
+  /** Mutations dropped after a server rejection */
+  discarded: number;
+  /** Mutations still queued */
+  remaining: number;
+}
+
+/**
+ * Service that stores patient mutations while offline and replays them in order
+ */
+export class OfflineQueueService {
+  private client: HttpClient;
+  private outbox: OutboxService;
+  private config: OfflineConfig;
+  private localIndex: LocalIndexSyncService;
+  private readonly basePath = '/profiles/v1/patient';
+  private replayPromise: Promise<OfflineReplayResult> | null = null;
+  private onlineListener: (() => void) | null = null;
+  /** Number of queued mutations per OID, loaded from the outbox on first use */
+  private pending: Map<string, number> | null = null;
+  private pendingLoad: Promise<Map<string, number>> | null = null;
+  private oidResolvedCallback: ((provisionalOid: string, oid: string) => Promise<void>) | null = null;
+
+  constructor(
+    client: HttpClient,
+    outbox: OutboxService,
+    config: OfflineConfig,
+    localIndex: LocalIndexSyncService
+  ) {
+    this.client = client;
+    this.outbox = outbox;
+    this.config = config;
+    this.localIndex = localIndex;
+
+    if (config.autoReplay !== false && typeof globalThis.addEventListener === 'function') {
+      this.onlineListener = () => {
+        this.replay().catch((error) => console.warn('Offline queue replay failed:', error));
+      };
+      globalThis.addEventListener('online', this.onlineListener);
+    }
+  }
+
+  /**
+   * Set callback run after a provisional OID is replaced, before `onOidResolved` is notified
+   */
+  setOidResolvedCallback(callback: (provisionalOid: string, oid: string) => Promise<void>): void {
+    this.oidResolvedCallback = callback;
+  }
+
+  /**
+   * Check if the runtime reports no connectivity
+   */
+  isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+  }
+
+  /**
+   * Check whether a mutation must be queued instead of sent.
+   * Updates are queued behind earlier queued mutations of the same patient to keep order.
+   */
+  async shouldQueue(oid?: string): Promise<boolean> {
+    if (this.isOffline()) {
+      return true;
+    }
+    if (!oid) {
+      return false;
+    }
+    if (isProvisionalOid(oid)) {
+      return true;
+    }
+
+    return (await this.getPending()).has(oid);
+  }
+
+  /**
+   * Queue a patient creation
+   *
+   * @param data Patient creation data
+   * @param idempotencyKey Key reused when the create is replayed
+   * @returns Provisional OID for the new patient
+   */
+  async enqueueCreate(data: CreatePatientData, idempotencyKey: string): Promise<string> {
+    const oid = `${PROVISIONAL_OID_PREFIX}${generateId()}`;
+    await this.outbox.add({
+      type: 'create',
+      oid,
+      data,
+      createdAt: Date.now(),
+      attempts: 0,
+      idempotencyKey,
+    });
+    this.track([oid], 1);
+    return oid;
+  }
+
+  /**
+   * Queue a patient update
+   */
+  async enqueueUpdate(oid: string, data: UpdatePatientData): Promise<void> {
+    await this.outbox.add({ type: 'update', oid, data, createdAt: Date.now(), attempts: 0 });
+    this.track([oid], 1);
+  }
+
+  /**
+   * Get queued mutations in replay order
+   *
+   * @example
+   * ```typescript
+   * const pending = await sdk.offline?.list();
+   * console.log(`${pending?.length} changes waiting to sync`);
+   * ```
+   */
+  async list(): Promise<QueuedMutation[]> {
+    return this.outbox.list();
+  }
+
+  /**
+   * Cancel a queued mutation.
+   * Cancelling a create also drops its queued updates and its provisional local record.
+   *
+   * @param id Queue entry ID
+   */
+  async cancel(id: number): Promise<void> {
+    const mutations = await this.outbox.list();
+    const mutation = mutations.find((entry) => entry.id === id);
+    if (!mutation) {
+      return;
+    }
+
+    await this.discard(mutation, mutations);
+  }
+
+  /**
+   * Cancel the queued creation of a patient created offline, with its queued updates and
+   * provisional local record
+   *
+   * @param oid Provisional OID
+   * @returns Whether a queued creation was found
+   */
+  async cancelCreate(oid: string): Promise<boolean> {
+    const mutations = await this.outbox.list();
+    const mutation = mutations.find((entry) => entry.type === 'create' && entry.oid === oid);
+    if (!mutation) {
+      return false;
+    }
+
+    await this.discard(mutation, mutations);
+    return true;
+  }
+
+  /**
+   * Replay queued mutations in order.
+   * Stops at the first transient failure; concurrent calls share one run.
+   *
+   * @example
+   * ```typescript
+   * const { replayed, remaining } = await sdk.offline!.replay();
+   * ```
+   */
+  replay(): Promise<OfflineReplayResult> {
+    if (!this.replayPromise) {
+      this.replayPromise = this.runReplay().finally(() => {
+        this.replayPromise = null;
+      });
+    }
+    return this.replayPromise;
+  }
+
+  /**
+   * Stop listening for connectivity changes and close the outbox
+   */
+  destroy(): void {
+    if (this.onlineListener) {
+      globalThis.removeEventListener('online', this.onlineListener);
+      this.onlineListener = null;
+    }
+    this.outbox.close();
+  }
+
+  private async runReplay(): Promise<OfflineReplayResult> {
+    let replayed = 0;
+    let discarded = 0;
+    let mutations = await this.outbox.list();
+
+    while (mutations.length > 0) {
+      const [mutation] = mutations;
+
+      try {
+        if (mutation.type === 'create') {
+          const oid = await this.replayCreate(mutation);
+          mutations = await this.resolveProvisionalOid(mutation.oid, oid, mutations);
+        } else {
+          await this.client.patch(`${this.basePath}/${mutation.oid}`, mutation.data);
+        }
+
+        await this.outbox.remove([mutation.id]);
+        this.track([mutation.oid], -1);
+        mutations = mutations.slice(1);
+        replayed++;
+      } catch (error) {
+        const sdkError =
+          error instanceof TrinitySDKError ? error : new TrinitySDKError(String(error));
+
+        if (this.isTransient(sdkError)) {
+          await this.outbox.putMany([
+            { ...mutation, attempts: mutation.attempts + 1, lastError: sdkError.message },
+          ]);
+          break;
+        }
+
+        const resolution = this.config.onConflict
+          ? await this.config.onConflict(mutation, sdkError)
+          : 'discard';
+
+        if (resolution === 'keep') {
+          await this.outbox.putMany([
+            { ...mutation, attempts: mutation.attempts + 1, lastError: sdkError.message },
+          ]);
+          break;
+        }
+
+        const removed = await this.discard(mutation, mutations);
+        mutations = mutations.filter((entry) => !removed.includes(entry.id));
+        discarded += removed.length;
+      }
+    }
+
+    return { replayed, discarded, remaining: mutations.length };
+  }
+
+  /**
+   * Send a queued create, resolving to the existing OID if its idempotency key was already used
+   */
+  private async replayCreate(mutation: QueuedMutation): Promise<string> {
+    try {
+      const response = await this.client.request<{ oid: string }>({
+        method: 'POST',
+        path: this.basePath,
+        body: mutation.data,
+        headers: mutation.idempotencyKey
+          ? { [IDEMPOTENCY_KEY_HEADER]: mutation.idempotencyKey }
+          : undefined,
+      });
+      return response.data.oid;
+    } catch (error) {
+      if (error instanceof ConflictError && typeof error.response?.oid === 'string') {
+        return error.response.oid;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Swap a provisional OID for the server OID in the local index and in queued mutations
+   */
+  private async resolveProvisionalOid(
+    provisionalOid: string,
+    oid: string,
+    mutations: QueuedMutation[]
+  ): Promise<QueuedMutation[]> {
+    const rewritten = mutations.map((mutation) =>
+      mutation.oid === provisionalOid && mutation.type === 'update' ? { ...mutation, oid } : mutation
+    );
+    const moved = rewritten.filter((mutation, index) => mutation !== mutations[index]);
+    await this.outbox.putMany(moved);
+    this.track(moved.map(() => provisionalOid), -1);
+    this.track(moved.map(() => oid), 1);
+
+    await this.localIndex.oidReplaced(provisionalOid, oid);
+    await this.oidResolvedCallback?.(provisionalOid, oid);
+
+    this.config.onOidResolved?.(provisionalOid, oid);
+    return rewritten;
+  }
+
+  /**
+   * Drop a mutation; for creates also drop dependent updates and the provisional record
+   *
+   * @returns IDs of the removed queue entries
+   */
+  private async discard(mutation: QueuedMutation, mutations: QueuedMutation[]): Promise<number[]> {
+    const removed =
+      mutation.type === 'create' ? mutations.filter((entry) => entry.oid === mutation.oid) : [mutation];
+    const ids = removed.map((entry) => entry.id);
+    await this.outbox.remove(ids);
+    this.track(removed.map((entry) => entry.oid), -1);
+
+    if (mutation.type === 'create') {
+      await this.localIndex.patientDeleted(mutation.oid);
+    }
+
+    return ids;
+  }
+
+  /**
+   * Queued mutation counts per OID; the outbox is read once, later changes are tracked in memory
+   */
+  private async getPending(): Promise<Map<string, number>> {
+    if (this.pending) {
+      return this.pending;
+    }
+    if (!this.pendingLoad) {
+      this.pendingLoad = this.outbox.list().then((mutations) => {
+        const pending = new Map<string, number>();
+        mutations.forEach((mutation) => pending.set(mutation.oid, (pending.get(mutation.oid) || 0) + 1));
+        this.pending = pending;
+        return pending;
+      });
+    }
+    return this.pendingLoad;
+  }
+
+  /**
+   * Record mutations added to (delta 1) or removed from (delta -1) the outbox
+   */
+  private track(oids: string[], delta: 1 | -1): void {
+    if (!this.pending) {
+      // Not loaded yet: the first read of the outbox includes this change
+      return;
+    }
+    oids.forEach((oid) => {
+      const count = (this.pending!.get(oid) || 0) + delta;
+      if (count > 0) {
+        this.pending!.set(oid, count);
+      } else {
+        this.pending!.delete(oid);
+      }
+    });
+  }
+
+  /**
+   * Errors that leave the mutation queued for a later replay
+   */
+  private isTransient(error: TrinitySDKError): boolean {
+    return (
+      error instanceof NetworkError ||
+      error instanceof TimeoutError ||
+      error instanceof ServerError ||
+      error instanceof RateLimitError ||
+      error instanceof AuthenticationError
+    );
+  }
+}
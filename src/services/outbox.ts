@@ -0,0 +1,122 @@
+/**
+ * IndexedDB-backed outbox for mutations made while offline
+ */
+
+import { QueuedMutation } from '../types';
+
+export class OutboxService {
+  private dbName: string;
+  private storeName = 'mutations';
+  private version = 1;
+  private db: IDBDatabase | null = null;
+  private factory: IDBFactory | undefined;
+
+  constructor(workspaceId: string, factory?: IDBFactory) {
+    this.dbName = `TrinityProfilesOutbox_${workspaceId}`;
+    this.factory = factory;
+  }
+
+  /**
+   * Initialize the IndexedDB connection
+   */
+  async init(): Promise<void> {
+    if (this.db) {
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = (this.factory || indexedDB).open(this.dbName, this.version);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          // Auto-incrementing keys preserve the order mutations were queued in
+          const store = db.createObjectStore(this.storeName, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('oid', 'oid', { unique: false });
+        }
+      };
+    });
+  }
+
+  /**
+   * Append a mutation to the outbox
+   */
+  async add(mutation: Omit<QueuedMutation, 'id'>): Promise<QueuedMutation> {
+    await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readwrite');
+      const store = transaction.objectStore(this.storeName);
+      const request = store.add(mutation);
+
+      request.onsuccess = () => resolve({ ...mutation, id: request.result as number });
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Get all queued mutations in replay order
+   */
+  async list(): Promise<QueuedMutation[]> {
+    await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readonly');
+      const store = transaction.objectStore(this.storeName);
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Replace stored mutations (e.g. after an OID swap or a failed attempt)
+   */
+  async putMany(mutations: QueuedMutation[]): Promise<void> {
+    await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readwrite');
+      const store = transaction.objectStore(this.storeName);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+
+      mutations.forEach((mutation) => store.put(mutation));
+    });
+  }
+
+  /**
+   * Remove mutations by queue ID
+   */
+  async remove(ids: number[]): Promise<void> {
+    await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readwrite');
+      const store = transaction.objectStore(this.storeName);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+
+      ids.forEach((id) => store.delete(id));
+    });
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
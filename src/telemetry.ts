@@ -0,0 +1,157 @@
+/**
+ * Telemetry events and adapters for the Trinity Profiles SDK
+ */
+
+/**
+ * Emitted once per HTTP attempt
+ */
+export interface HttpRequestEvent {
+  type: 'http.request';
+  method: string;
+  path: string;
+  /** HTTP status, or 0 when no response was received */
+  status: number;
+  /** Attempt number (1-based); greater than 1 for retries */
+  attempt: number;
+  durationMs: number;
+  /** Error class name when the attempt failed */
+  error?: string;
+}
+
+/**
+ * Emitted once per IndexedDB operation
+ */
+export interface IndexedDBOperationEvent {
+  type: 'indexeddb.operation';
+  operation: string;
+  storeName: string;
+  durationMs: number;
+  success: boolean;
+  /** Number of records read or written, when known */
+  recordCount?: number;
+  error?: string;
+}
+
+/**
+ * Emitted once per page fetched and stored during a sync
+ */
+export interface SyncPageEvent {
+  type: 'sync.page';
+  page: number;
+  recordCount: number;
+  totalLoaded: number;
+  durationMs: number;
+}
+
+/**
+ * Why a search was served by the API instead of the local index
+ */
+export type SearchFallbackReason = 'forced' | 'local_search_disabled' | 'local_search_failed';
+
+/**
+ * Emitted once per SearchMethods.search call.
+ * The prefix itself is not included to keep patient data out of telemetry.
+ */
+export interface SearchEvent {
+  type: 'search';
+  source: 'local' | 'api';
+  prefixLength: number;
+  resultCount: number;
+  durationMs: number;
+  success: boolean;
+  fallbackReason?: SearchFallbackReason;
+  error?: string;
+}
+
+/**
+ * Any telemetry event emitted by the SDK
+ */
+export type TelemetryEvent = HttpRequestEvent | IndexedDBOperationEvent | SyncPageEvent | SearchEvent;
+
+/**
+ * Receiver of SDK telemetry events
+ */
+export interface TelemetrySink {
+  emit(event: TelemetryEvent): void;
+}
+
+/**
+ * Minimal span interface, compatible with OpenTelemetry's Span
+ */
+export interface SpanLike {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(endTime?: number): void;
+}
+
+/**
+ * Minimal tracer interface, compatible with OpenTelemetry's Tracer
+ */
+export interface TracerLike {
+  startSpan(name: string, options?: { startTime?: number }): SpanLike;
+}
+
+/** OpenTelemetry SpanStatusCode values */
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Create a telemetry sink that records every event as a span on the given tracer
+ *
+ * @param tracer OpenTelemetry-compatible tracer
+ * @param prefix Span name prefix (default: "trinity")
+ *
+ * @example
+ * ```typescript
+ * import { trace } from '@opentelemetry/api';
+ *
+ * const sdk = new TrinityProfilesSDK({
+ *   workspaceId: 'your-workspace-id',
+ *   telemetry: createSpanTelemetry(trace.getTracer('patient-directory')),
+ * });
+ * ```
+ */
+export function createSpanTelemetry(tracer: TracerLike, prefix: string = 'trinity'): TelemetrySink {
+  return {
+    emit(event: TelemetryEvent) {
+      const endTime = Date.now();
+      const span = tracer.startSpan(`${prefix}.${event.type}`, {
+        startTime: endTime - event.durationMs,
+      });
+
+      Object.entries(event).forEach(([key, value]) => {
+        if (key !== 'type' && value !== undefined) {
+          span.setAttribute(`${prefix}.${key}`, value as string | number | boolean);
+        }
+      });
+
+      const failed = 'error' in event && event.error !== undefined;
+      span.setStatus(
+        failed ? { code: SPAN_STATUS_ERROR, message: event.error } : { code: SPAN_STATUS_OK }
+      );
+      span.end(endTime);
+    },
+  };
+}
+
+/**
+ * Current high-resolution time in milliseconds
+ */
+export function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+/**
+ * Deliver an event to a sink; telemetry failures never affect SDK calls
+ */
+export function emitTelemetry(sink: TelemetrySink | undefined, event: TelemetryEvent): void {
+  if (!sink) {
+    return;
+  }
+
+  try {
+    sink.emit(event);
+  } catch (error) {
+    console.warn('Telemetry sink failed:', error);
+  }
+}
@@ -0,0 +1,395 @@
+/**
+ * In-memory fake of the Trinity /profiles/v1/patient endpoints for tests
+ */
+
+import { composeFullName } from '../helpers/name';
+import { CreatePatientData, MinifiedPatient, Patient, Transport, UpdatePatientData } from '../types';
+
+/**
+ * Options for the fake backend
+ */
+export interface FakeTrinityBackendOptions {
+  /** Patients to seed the store with */
+  patients?: Patient[];
+  /** When set, requests must carry this bearer token or receive a 401 */
+  accessToken?: string;
+  /** Custom OID generator */
+  generateOid?: () => string;
+  /** Simulated latency in milliseconds; requests honor the AbortSignal while waiting */
+  latency?: number;
+}
+
+/**
+ * Request recorded by the fake backend
+ */
+export interface FakeRequestRecord {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+/**
+ * Response injected for an upcoming request
+ */
+interface QueuedFailure {
+  status: number;
+  body: any;
+  headers: Record<string, string>;
+}
+
+interface FakeResult {
+  status: number;
+  body: any;
+  headers?: Record<string, string>;
+}
+
+const BASE_PATH = '/profiles/v1/patient';
+const DEFAULT_MINIFIED_FIELDS: (keyof MinifiedPatient)[] = ['oid', 'fln', 'mobile', 'username'];
+
+/**
+ * In-memory fake Trinity backend.
+ * Pass `backend.transport` as `SdkConfig.transport` to run the SDK without a network.
+ *
+ * @example
+ * ```typescript
+ * const backend = new FakeTrinityBackend();
+ * const sdk = new TrinityProfilesSDK({ workspaceId: 'ws-test', transport: backend.transport });
+ *
+ * const { oid } = await sdk.patients.create({ gen: 'F', dob: '1990-01-01', fn: 'Asha' });
+ * expect(backend.patients.get(oid)?.fln).toBe('Asha');
+ * ```
+ */
+export class FakeTrinityBackend {
+  /** Stored patients keyed by OID */
+  readonly patients = new Map<string, Patient>();
+  /** Every request received, in order */
+  readonly requests: FakeRequestRecord[] = [];
+
+  private accessToken: string | undefined;
+  private latency: number;
+  private generateOid: () => string;
+  private failures: QueuedFailure[] = [];
+  private idempotencyKeys = new Map<string, string>();
+  private oidCounter = 0;
+  private lastTimestamp = 0;
+
+  constructor(options: FakeTrinityBackendOptions = {}) {
+    this.accessToken = options.accessToken;
+    this.latency = options.latency || 0;
+    this.generateOid =
+      options.generateOid || (() => String(100000000000000 + ++this.oidCounter));
+    options.patients?.forEach((patient) => this.patients.set(patient.oid, { ...patient }));
+  }
+
+  /**
+   * Fetch-compatible transport backed by the in-memory store
+   */
+  readonly transport: Transport = async (url, init) => {
+    await this.wait(init.signal);
+    const result = this.handle(url, init);
+    return new Response(result.body === undefined ? null : JSON.stringify(result.body), {
+      status: result.status,
+      headers: { 'content-type': 'application/json', ...result.headers },
+    });
+  };
+
+  /**
+   * Make the next request fail with the given status (queued failures are used in order)
+   */
+  failNext(status: number, body: any = { error: 'Injected failure' }, headers: Record<string, string> = {}): void {
+    this.failures.push({ status, body, headers });
+  }
+
+  /**
+   * Change the token the backend accepts (e.g. to simulate expiry)
+   */
+  setAccessToken(token: string | undefined): void {
+    this.accessToken = token;
+  }
+
+  /**
+   * Remove all patients, recorded requests and queued failures
+   */
+  reset(): void {
+    this.patients.clear();
+    this.requests.length = 0;
+    this.failures = [];
+    this.idempotencyKeys.clear();
+  }
+
+  /**
+   * Route a request to the matching endpoint handler
+   */
+  private handle(url: string, init: RequestInit): FakeResult {
+    const parsed = new URL(url);
+    const method = (init.method || 'GET').toUpperCase();
+    const headers = this.normalizeHeaders(init.headers);
+    const params: Record<string, string> = {};
+    parsed.searchParams.forEach((value, key) => {
+      params[key] = value;
+    });
+    const body = typeof init.body === 'string' ? JSON.parse(init.body) : undefined;
+
+    const baseIndex = parsed.pathname.indexOf(BASE_PATH);
+    const path = baseIndex === -1 ? parsed.pathname : parsed.pathname.slice(baseIndex);
+    this.requests.push({ method, path, params, headers, body });
+
+    const failure = this.failures.shift();
+    if (failure) {
+      return failure;
+    }
+
+    if (this.accessToken && headers['authorization'] !== `Bearer ${this.accessToken}`) {
+      return { status: 401, body: { error: 'Invalid or expired token' } };
+    }
+
+    if (baseIndex === -1) {
+      return this.notFound();
+    }
+
+    const segments = path
+      .slice(BASE_PATH.length)
+      .split('/')
+      .filter(Boolean)
+      .map(decodeURIComponent);
+
+    if (segments.length === 0) {
+      return method === 'POST'
+        ? this.createPatient(body, headers['idempotency-key'])
+        : this.methodNotAllowed();
+    }
+
+    if (segments.length === 1) {
+      const [segment] = segments;
+      if (method === 'GET') {
+        switch (segment) {
+          case 'bulk':
+            return this.bulkGet(params.oid_list);
+          case 'by-mobile':
+            return this.getByMobile(params.mob);
+          case 'search':
+            return this.search(params.prefix, Number(params.limit) || 50);
+          case 'minified':
+            return this.getMinified(params);
+          default:
+            return this.getPatient(segment);
+        }
+      }
+      if (method === 'PATCH') {
+        return this.updatePatient(segment, body, headers['if-match']);
+      }
+      if (method === 'DELETE') {
+        return this.deletePatient(segment);
+      }
+      return this.methodNotAllowed();
+    }
+
+    const [id, action] = segments;
+    if (action === 'username' && method === 'GET') {
+      return this.getByUsername(id);
+    }
+    if (action === 'remove-fields' && method === 'PATCH') {
+      return this.removeFields(id, body);
+    }
+    if (action === 'unarchive' && method === 'PATCH') {
+      return this.unarchive(id);
+    }
+
+    return this.notFound();
+  }
+
+  private createPatient(data: CreatePatientData | undefined, idempotencyKey?: string): FakeResult {
+    // A repeated idempotency key returns the patient created by the first request
+    const existingOid = idempotencyKey ? this.idempotencyKeys.get(idempotencyKey) : undefined;
+    if (existingOid) {
+      return { status: 200, body: { oid: existingOid } };
+    }
+
+    const errors: Record<string, string[]> = {};
+    if (!data?.gen) errors.gen = ['This field is required.'];
+    if (!data?.dob) errors.dob = ['This field is required.'];
+    if (Object.keys(errors).length > 0) {
+      return { status: 400, body: errors };
+    }
+
+    const now = this.now();
+    const oid = this.generateOid();
+    const patient: Patient = {
+      ...data!,
+      oid,
+      fln: data!.fln || composeFullName(data!),
+      c_ate: now,
+      u_ate: now,
+    };
+    this.patients.set(oid, patient);
+    if (idempotencyKey) {
+      this.idempotencyKeys.set(idempotencyKey, oid);
+    }
+
+    return { status: 201, body: { oid } };
+  }
+
+  private getPatient(oid: string): FakeResult {
+    const patient = this.patients.get(oid);
+    return patient ? { status: 200, body: patient } : this.notFound();
+  }
+
+  private updatePatient(oid: string, data: UpdatePatientData & { arc?: boolean }, ifMatch?: string): FakeResult {
+    const patient = this.patients.get(oid);
+    if (!patient) {
+      return this.notFound();
+    }
+    if (ifMatch !== undefined && ifMatch.replace(/^W\//, '').replace(/"/g, '') !== String(patient.u_ate)) {
+      return { status: 412, body: { error: 'Patient was modified', current: patient } };
+    }
+
+    const updated: Patient = { ...patient, ...data, oid, u_ate: this.now() };
+    if (data.fln === undefined && (data.fn !== undefined || data.mn !== undefined || data.ln !== undefined)) {
+      updated.fln = composeFullName(updated);
+    }
+    this.patients.set(oid, updated);
+
+    return { status: 200, body: updated };
+  }
+
+  private deletePatient(oid: string): FakeResult {
+    if (!this.patients.delete(oid)) {
+      return this.notFound();
+    }
+    return { status: 200, body: { message: 'Patient deleted' } };
+  }
+
+  private bulkGet(oidList: string | undefined): FakeResult {
+    const oids = (oidList || '').split(',').filter(Boolean);
+    const patients = oids
+      .map((oid) => this.patients.get(oid))
+      .filter((patient): patient is Patient => Boolean(patient));
+    return { status: 200, body: patients };
+  }
+
+  private getByMobile(mobile: string | undefined): FakeResult {
+    const patients = this.activePatients().filter((patient) => patient.mobile === mobile);
+    return { status: 200, body: patients };
+  }
+
+  private getByUsername(username: string): FakeResult {
+    const patients = this.activePatients().filter((patient) => patient.username === username);
+    return { status: 200, body: patients };
+  }
+
+  private search(prefix: string | undefined, limit: number): FakeResult {
+    if (!prefix) {
+      return { status: 400, body: { prefix: ['This field is required.'] } };
+    }
+
+    const lowerPrefix = prefix.toLowerCase();
+    const patients = this.activePatients()
+      .filter(
+        (patient) =>
+          patient.fln?.toLowerCase().startsWith(lowerPrefix) ||
+          patient.username?.toLowerCase().startsWith(lowerPrefix) ||
+          patient.mobile?.startsWith(prefix)
+      )
+      .slice(0, limit);
+    return { status: 200, body: patients };
+  }
+
+  private getMinified(params: Record<string, string>): FakeResult {
+    const page = Number(params.page) || 1;
+    const limit = Number(params.limit) || 100;
+    const extraFields = (params.select || '').split(',').filter(Boolean) as (keyof MinifiedPatient)[];
+    const fields = [...DEFAULT_MINIFIED_FIELDS, ...extraFields];
+
+    const data = this.activePatients()
+      .sort((a, b) => a.oid.localeCompare(b.oid))
+      .slice((page - 1) * limit, page * limit)
+      .map((patient) => {
+        const minified: Record<string, unknown> = {};
+        fields.forEach((field) => {
+          if (patient[field] !== undefined) {
+            minified[field] = patient[field];
+          }
+        });
+        return minified as unknown as MinifiedPatient;
+      });
+
+    return { status: 200, body: { data } };
+  }
+
+  private removeFields(oid: string, data: { fields?: string[] } | undefined): FakeResult {
+    const patient = this.patients.get(oid);
+    if (!patient) {
+      return this.notFound();
+    }
+
+    const updated: Record<string, unknown> = { ...patient, u_ate: this.now() };
+    (data?.fields || []).forEach((field) => {
+      delete updated[field];
+    });
+    this.patients.set(oid, updated as unknown as Patient);
+
+    return { status: 200, body: { message: 'Fields removed' } };
+  }
+
+  private unarchive(oid: string): FakeResult {
+    const patient = this.patients.get(oid);
+    if (!patient) {
+      return this.notFound();
+    }
+
+    const updated: Patient = { ...patient, arc: false, u_ate: this.now() };
+    this.patients.set(oid, updated);
+
+    return { status: 200, body: updated };
+  }
+
+  private wait(signal: AbortSignal | null | undefined): Promise<void> {
+    const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+    if (signal?.aborted) {
+      return Promise.reject(abortError());
+    }
+    if (!this.latency) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, this.latency);
+      signal?.addEventListener(
+        'abort',
+        () => {
+          clearTimeout(timer);
+          reject(abortError());
+        },
+        { once: true }
+      );
+    });
+  }
+
+  private activePatients(): Patient[] {
+    return Array.from(this.patients.values()).filter((patient) => !patient.arc);
+  }
+
+  private normalizeHeaders(headers: HeadersInit | undefined): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    new Headers(headers).forEach((value, key) => {
+      normalized[key] = value;
+    });
+    return normalized;
+  }
+
+  /** Epoch seconds, strictly increasing so every write gets a distinct u_ate */
+  private now(): number {
+    this.lastTimestamp = Math.max(Math.floor(Date.now() / 1000), this.lastTimestamp + 1);
+    return this.lastTimestamp;
+  }
+
+  private notFound(): FakeResult {
+    return { status: 404, body: { error: 'Not found' } };
+  }
+
+  private methodNotAllowed(): FakeResult {
+    return { status: 405, body: { error: 'Method not allowed' } };
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Test utilities for the Trinity Profiles SDK, published as `@eka-care/patient-ts-sdk/testing`
+ * so they stay out of production bundles
+ */
+
+export { FakeTrinityBackend } from './fake-backend';
+export type { FakeRequestRecord, FakeTrinityBackendOptions } from './fake-backend';
@@ -3,6 +3,10 @@
  * Based on V2 business patient serializers
  */
 
+import type { HttpInterceptor, HttpMethod } from "./client";
+import type { TrinitySDKError } from "./errors";
+import type { TelemetrySink } from "./telemetry";
+
 /**
  * Gender enumeration
  */
@@ -40,10 +44,24 @@ export const EnvironmentBaseUrl: Record<Environment, string> = {
     [Environment.DEV]: "https://aortago.dev.eka.care",
 }
 
+/**
+ * Shape of the clinic-specific attributes stored in `extras`
+ */
+export type PatientExtras = Record<string, any>;
+
+/**
+ * Runtime schema for extras, checked when patients are read and written.
+ * Any object with a throwing `parse` works, e.g. a zod schema.
+ */
+export interface ExtrasSchema<TExtras extends PatientExtras = PatientExtras> {
+    /** Return the (possibly coerced) extras, or throw if they are invalid */
+    parse(value: unknown): TExtras;
+}
+
 /**
  * Patient profile creation data (matches CreateBusinessPatientSz V2)
  */
-export interface CreatePatientData {
+export interface CreatePatientData<TExtras extends PatientExtras = PatientExtras> {
     /** Gender: M, F, or O */
     gen: Gender;
     /** Date of birth (ISO date string: YYYY-MM-DD) */
@@ -70,16 +88,19 @@ export interface CreatePatientData {
     s?: string;
     /** Blood group */
     bg?: BloodGroup;
-    /** ABHA address */
+    /** ABHA number (14 digits, plain or hyphenated) or ABHA address (e.g. asha.rao@abdm) */
     abha?: string;
     /** Flag to indicate if dob was calculated from age */
     is_age?: boolean;
+
+    /** Clinic-specific attributes */
+    extras?: TExtras;
 }
 
 /**
  * Patient profile update data (matches UpdateBusinessPatientSz V2)
  */
-export interface UpdatePatientData {
+export interface UpdatePatientData<TExtras extends PatientExtras = PatientExtras> {
     /** Country code */
     ccd?: string;
     /** Mobile number without country code */
@@ -108,14 +129,134 @@ export interface UpdatePatientData {
     s?: string;
     /** Blood group */
     bg?: BloodGroup;
-    /** ABHA address */
+    /** ABHA number (14 digits, plain or hyphenated) or ABHA address (e.g. asha.rao@abdm) */
     abha?: string;
+
+    /** Clinic-specific attributes; replaces the stored extras (see patients.patchExtras) */
+    extras?: TExtras;
+}
+
+/**
+ * Phone number split into country code and national number
+ */
+export interface ParsedPhoneNumber {
+    /** Country calling code, e.g. "+91" */
+    countryCode: string;
+    /** Number without country code or trunk prefix, e.g. "9876543210" */
+    nationalNumber: string;
+    /** E.164 form, e.g. "+919876543210" */
+    e164: string;
+    /** Whether the input carried its own country code (otherwise the default was assumed) */
+    hasCountryCode: boolean;
+}
+
+/**
+ * Structured patient name
+ */
+export interface PatientNameParts {
+    /** Salutation, e.g. "Dr." or "Smt." */
+    s?: string;
+    /** First name */
+    fn?: string;
+    /** Middle name */
+    mn?: string;
+    /** Last name */
+    ln?: string;
+}
+
+/**
+ * Age in calendar units, e.g. { years: 0, months: 5, days: 12 }
+ */
+export interface PatientAge {
+    years: number;
+    months: number;
+    days: number;
+}
+
+/**
+ * Age given at registration; any combination of units, e.g. { years: 34 } or { months: 5 }
+ */
+export type AgeInput = Partial<PatientAge>;
+
+/**
+ * Form of an ABHA identifier
+ * - "number": 14-digit ABHA number
+ * - "address": ABHA address such as asha.rao@abdm
+ */
+export type AbhaKind = "number" | "address";
+
+/**
+ * Patient field names accepted on create or update
+ */
+export type PatientField = keyof CreatePatientData | keyof UpdatePatientData;
+
+/**
+ * Error messages keyed by patient field
+ */
+export type PatientFieldErrors = Partial<Record<PatientField, string[]>>;
+
+/**
+ * Severity of a client-side validation issue
+ * - "error": the payload should not be sent
+ * - "warning": the payload is valid but worth confirming with the user
+ */
+export type ValidationSeverity = "error" | "warning";
+
+/**
+ * Single client-side validation issue
+ */
+export interface PatientValidationIssue {
+    /** Field the issue belongs to, or "non_field" for payload-level issues */
+    field: PatientField | "non_field";
+    /** Machine-readable issue code, e.g. "required" or "dob_in_future" */
+    code: string;
+    /** Human-readable message */
+    message: string;
+    severity: ValidationSeverity;
+}
+
+/**
+ * Result of validating patient data
+ */
+export interface PatientValidationResult {
+    /** True when there are no issues with severity "error" */
+    isValid: boolean;
+    /** Issues (errors and warnings) keyed by field */
+    errors: Partial<Record<PatientField | "non_field", PatientValidationIssue[]>>;
+    /** All issues in the order they were found */
+    issues: PatientValidationIssue[];
+}
+
+/**
+ * Options for the patient validator
+ */
+export interface PatientValidatorOptions {
+    /** Country code assumed when ccd is not set (default: SdkConfig.defaultCountryCode, else "+91") */
+    defaultCountryCode?: string;
+    /** Reject dates of birth implying an age above this (default: 120) */
+    maxAgeYears?: number;
+    /** Warn for dates of birth implying an age above this (default: 100) */
+    warnAgeYears?: number;
+    /** Maximum length of fn, mn and ln (default: 50) */
+    maxNameLength?: number;
+    /** Maximum length of fln (default: 150) */
+    maxFullNameLength?: number;
+    /** Date to validate against instead of today */
+    referenceDate?: Date;
+}
+
+/**
+ * Client-side validation settings
+ */
+export interface PatientValidationConfig extends PatientValidatorOptions {
+    /** Validate create/update payloads before sending them (default: false) */
+    validateBeforeSend?: boolean;
 }
 
 /**
  * Complete patient profile (response format)
  */
-export interface Patient {
+export interface Patient<TExtras extends PatientExtras = PatientExtras> {
     /** Unique identifier */
     oid: string;
     /** Creation timestamp (epoch) */
@@ -151,15 +292,15 @@ export interface Patient {
     s?: string;
     /** Blood group */
     bg?: BloodGroup;
-    /** ABHA address */
+    /** ABHA number (14 digits, plain or hyphenated) or ABHA address (e.g. asha.rao@abdm) */
     abha?: string;
     /** Flag indicating if DOB was calculated from age */
     is_age?: boolean;
     /** Is profile archived */
     arc?: boolean;
 
-    /** Additional arbitrary data */
-    extras?: Record<string, any>;
+    /** Clinic-specific attributes */
+    extras?: TExtras;
 }
 
 /**
@@ -172,7 +313,9 @@ export interface MinifiedPatient {
     fln: string;
     /** Mobile number */
     mobile?: string;
-    /** Abha address */
+    /** Country code of the mobile number (always requested, to build the E.164 index key) */
+    ccd?: string;
+    /** ABHA number or ABHA address */
     abha?: string;
     /** Username */
     username?: string;
@@ -258,9 +401,11 @@ export interface LocalMinifiedPatient {
     fln: string;
     /** Mobile number */
     mobile?: string;
+    /** Mobile number in E.164 form (e.g. "+919876543210"); derived from mobile when missing */
+    e164?: string;
     /** Username */
     username?: string;
-    /** abha address */
+    /** ABHA number or ABHA address */
     abha?: string;
     /** Gender */
     gen?: Gender;
@@ -270,17 +415,389 @@ export interface LocalMinifiedPatient {
     u_ate?: number;
     /** Flag to indicate if dob was calculated from age */
     is_age?: boolean;
+    /** Archived profile; kept in the store but left out of local search */
+    arc?: boolean;
+}
+
+/**
+ * Partial change to a local index record
+ */
+export interface LocalPatientUpdate {
+    oid: string;
+    updates: Partial<LocalMinifiedPatient>;
+}
+
+/**
+ * Mutation stored in the offline outbox
+ */
+export interface QueuedMutation {
+    /** Queue entry ID (replay order) */
+    id: number;
+    /** Mutation type */
+    type: "create" | "update";
+    /** Provisional OID for creates, target OID for updates */
+    oid: string;
+    /** Request payload */
+    data: CreatePatientData | UpdatePatientData;
+    /** Time the mutation was queued (epoch ms) */
+    createdAt: number;
+    /** Number of failed replay attempts */
+    attempts: number;
+    /** Message of the last replay failure */
+    lastError?: string;
+    /** Idempotency key sent when replaying a create */
+    idempotencyKey?: string;
+}
+
+/**
+ * How to handle a queued mutation the server rejected during replay
+ * - "discard": drop the mutation (and, for creates, its dependent updates)
+ * - "keep": leave it at the head of the queue and stop replaying
+ */
+export type OfflineConflictResolution = "discard" | "keep";
+
+/**
+ * Offline mode configuration
+ */
+export interface OfflineConfig {
+    /** Queue patient create/update mutations while offline */
+    enabled: boolean;
+    /** Replay the queue when connectivity returns (default: true) */
+    autoReplay?: boolean;
+    /** Decide what to do with a mutation the server rejected (default: "discard") */
+    onConflict?: (
+        mutation: QueuedMutation,
+        error: TrinitySDKError
+    ) => OfflineConflictResolution | Promise<OfflineConflictResolution>;
+    /** Called after a provisional OID has been replaced by the server OID */
+    onOidResolved?: (provisionalOid: string, oid: string) => void;
+}
+
+/**
+ * Per-call request options accepted by every SDK method
+ */
+export interface CallOptions {
+    /** Signal to cancel the request; aborting raises CancelledError */
+    signal?: AbortSignal;
+    /** Timeout in milliseconds for this call, overriding SdkConfig.timeout */
+    timeout?: number;
+}
+
+/**
+ * Options for patient creation
+ */
+export interface CreatePatientOptions extends CallOptions {
+    /**
+     * Idempotency key for this logical create. Generated by the SDK when omitted;
+     * pass your own to keep it stable across app-level retries.
+     */
+    idempotencyKey?: string;
+    /** Validate the payload before sending, overriding SdkConfig.validation.validateBeforeSend */
+    validate?: boolean;
+    /** Duplicate check before sending, merged over SdkConfig.duplicateCheck */
+    duplicateCheck?: DuplicateCheckConfig;
+}
+
+/**
+ * Result of a patient create
+ */
+export interface CreatePatientResult<TExtras extends PatientExtras = PatientExtras> {
+    /** OID of the new patient (provisional when queued offline) */
+    oid: string;
+    /** Set when the create was stored in the offline queue */
+    queued?: boolean;
+    /** Potential duplicates at or above the threshold, when the duplicate check warned */
+    duplicates?: PotentialDuplicate<TExtras>[];
+}
+
+/**
+ * Options for patient updates
+ */
+export interface UpdatePatientOptions<TExtras extends PatientExtras = PatientExtras> extends CallOptions {
+    /** Validate the payload before sending, overriding SdkConfig.validation.validateBeforeSend */
+    validate?: boolean;
+    /**
+     * `u_ate` of the record the edit is based on. Sent as an If-Match precondition; if the patient
+     * changed since, the update fails with ConflictError carrying the current record and a diff.
+     */
+    expectedUpdatedAt?: number;
+    /**
+     * Called when a conditional update conflicts. Return the update to retry with (sent against the
+     * current record's u_ate), or null to give up and throw the ConflictError.
+     */
+    resolveConflict?: ConflictResolver<TExtras>;
+    /** Maximum number of resolver retries (default: 3) */
+    maxConflictRetries?: number;
+}
+
+/**
+ * Field-level difference between an attempted update and the server record
+ */
+export interface PatientFieldDiff {
+    field: PatientField;
+    /** Value the update tried to write */
+    attempted: unknown;
+    /** Value on the server */
+    current: unknown;
+}
+
+/**
+ * Details of a conflicting conditional update, passed to a ConflictResolver
+ */
+export interface PatientConflict<TExtras extends PatientExtras = PatientExtras> {
+    /** Server record */
+    current: Patient<TExtras>;
+    /** Update that was rejected */
+    attempted: UpdatePatientData<TExtras>;
+    /** Fields of the attempted update that differ from the server record */
+    diff: PatientFieldDiff[];
+}
+
+/**
+ * Resolves a conflicting update: returns the update to retry with, or null to give up
+ */
+export type ConflictResolver<TExtras extends PatientExtras = PatientExtras> = (
+    conflict: PatientConflict<TExtras>
+) => UpdatePatientData<TExtras> | null | Promise<UpdatePatientData<TExtras> | null>;
+
+/**
+ * Field compared when looking for duplicate patients
+ */
+export type DuplicateMatchField = "name" | "dob" | "gen" | "mobile" | "abha";
+
+/**
+ * How one field of a candidate compares with the new patient
+ */
+export interface DuplicateMatchReason {
+    field: DuplicateMatchField;
+    /** 0 (different) to 1 (same) */
+    similarity: number;
+    /** Human-readable explanation, e.g. 'Similar name ("Ramesh Kumar" / "Ramesh Kr")' */
+    description: string;
+}
+
+/**
+ * Stored patient that may be the same person as a new one
+ */
+export interface PotentialDuplicate<TExtras extends PatientExtras = PatientExtras> {
+    patient: Patient<TExtras>;
+    /** 0 (different people) to 1 (same person) */
+    score: number;
+    /** Compared fields, most similar first */
+    reasons: DuplicateMatchReason[];
+}
+
+/**
+ * Options for duplicate lookups
+ */
+export interface FindDuplicatesOptions extends CallOptions {
+    /** Minimum score for a candidate to be returned (default: 0.5) */
+    minScore?: number;
+    /** Maximum number of matches (default: 10) */
+    limit?: number;
+}
+
+/**
+ * Options for collecting duplicate candidates
+ */
+export interface DuplicateCandidateOptions extends CallOptions {
+    /** Use the local index only, without the API lookups (set while offline) */
+    localOnly?: boolean;
+}
+
+/**
+ * Duplicate check run before patient creates
+ */
+export interface DuplicateCheckConfig {
+    /** Check for duplicates before creating a patient (default: false) */
+    enabled?: boolean;
+    /** Score at or above which a candidate counts as a duplicate (default: 0.85) */
+    threshold?: number;
+    /**
+     * "reject" throws DuplicatePatientError; "warn" creates the patient and returns the matches
+     * in the result (default: "warn")
+     */
+    action?: "reject" | "warn";
+}
+
+/**
+ * Group of patient fields merged as a unit (e.g. "name" covers s, fn, mn, ln and fln)
+ */
+export type PatientMergeField = "name" | "gen" | "dob" | "mobile" | "email" | "bg" | "abha" | "extras";
+
+/**
+ * How a merge picks the value of a field group
+ * - "preferNonEmpty": the survivor's value, or the duplicate's when the survivor has none
+ * - "preferNewest": the value from the profile with the newer u_ate, or the other's when that one has none
+ * - "survivor" / "duplicate": always that profile's value
+ *
+ * Extras are combined key by key for "preferNonEmpty" and "preferNewest".
+ */
+export type MergeFieldStrategy = "preferNonEmpty" | "preferNewest" | "survivor" | "duplicate";
+
+/**
+ * Strategies for merging two patient profiles
+ */
+export interface PatientMergeStrategy {
+    /** Strategy for field groups without their own entry (default: "preferNonEmpty") */
+    default?: MergeFieldStrategy;
+    /** Per-field-group strategies, e.g. { name: "duplicate", mobile: "preferNewest" } */
+    fields?: Partial<Record<PatientMergeField, MergeFieldStrategy>>;
+}
+
+/**
+ * Update that merges a duplicate into a survivor, with where each field group came from
+ */
+export interface PatientMergePlan<TExtras extends PatientExtras = PatientExtras> {
+    /** Update applied to the survivor */
+    update: UpdatePatientData<TExtras>;
+    /** Survivor fields the duplicate does not have, removed via the remove-fields endpoint */
+    remove: PatientField[];
+    /** Source of each field group; extras combined from both profiles are "both" */
+    picks: Record<PatientMergeField, "survivor" | "duplicate" | "both">;
+}
+
+/**
+ * Outcome of a patient merge
+ */
+export interface PatientMergeResult<TExtras extends PatientExtras = PatientExtras> extends PatientMergePlan<TExtras> {
+    survivorOid: string;
+    /** OID of the duplicate, now archived */
+    duplicateOid: string;
+}
+
+/**
+ * Write step of a patient merge, in the order they run
+ */
+export type PatientMergeStep = "archiveDuplicate" | "updateSurvivor" | "removeSurvivorFields";
+
+/**
+ * Options for archiving a patient
+ */
+export interface ArchivePatientOptions<TExtras extends PatientExtras = PatientExtras> extends CallOptions {
+    /** `u_ate` the archive is based on, sent as an If-Match precondition; a changed patient fails with ConflictError */
+    expectedUpdatedAt?: number;
+    /** Extras written together with the archive flag */
+    extras?: TExtras;
+}
+
+/**
+ * Options for bulk creates and updates
+ */
+export interface BulkOperationOptions extends CallOptions {
+    /** Maximum number of requests in flight (default: 4) */
+    concurrency?: number;
+    /** Items per chunk; the local index is written in one transaction per chunk (default: 50) */
+    chunkSize?: number;
+    /** Validate each payload before sending, overriding SdkConfig.validation.validateBeforeSend */
+    validate?: boolean;
+}
+
+/**
+ * Options for bulk creates
+ */
+export interface BulkCreateOptions extends BulkOperationOptions {
+    /** Idempotency keys by item index; generated by the SDK for items without one */
+    idempotencyKeys?: (string | undefined)[];
+}
+
+/**
+ * One item of a bulk update
+ */
+export interface BulkUpdateItem<TExtras extends PatientExtras = PatientExtras> {
+    oid: string;
+    data: UpdatePatientData<TExtras>;
+    /** `u_ate` the edit is based on; makes this item a conditional update */
+    expectedUpdatedAt?: number;
+}
+
+/**
+ * Outcome of one item of a bulk operation that succeeded
+ */
+export interface BulkItemSuccess {
+    /** Position of the item in the input */
+    index: number;
+    success: true;
+    oid: string;
+    /** Set when the mutation was stored in the offline queue */
+    queued?: boolean;
+}
+
+/**
+ * Outcome of one item of a bulk operation that failed
+ */
+export interface BulkItemFailure {
+    /** Position of the item in the input */
+    index: number;
+    success: false;
+    /** OID of the patient, for updates */
+    oid?: string;
+    error: TrinitySDKError;
+}
+
+/**
+ * Outcome of one item of a bulk operation
+ */
+export type BulkItemResult = BulkItemSuccess | BulkItemFailure;
+
+/**
+ * Transport used to perform HTTP requests (defaults to the global fetch)
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Information passed to the retry hook before a request is retried
+ */
+export interface RetryAttempt {
+    /** Attempt number that failed (1-based) */
+    attempt: number;
+    /** Maximum number of attempts allowed by the policy */
+    maxAttempts: number;
+    /** Delay in milliseconds before the next attempt */
+    delay: number;
+    /** Error that triggered the retry */
+    error: TrinitySDKError;
+    /** HTTP method of the request */
+    method: HttpMethod;
+    /** Request path */
+    path: string;
 }
 
+/**
+ * Retry policy for failed HTTP requests
+ */
+export interface RetryConfig {
+    /** Total number of attempts including the first one (default: 3) */
+    maxAttempts?: number;
+    /** Base delay in milliseconds for exponential backoff (default: 300) */
+    baseDelay?: number;
+    /** Upper bound for a single backoff delay in milliseconds (default: 10000) */
+    maxDelay?: number;
+    /** Apply full jitter to backoff delays (default: true) */
+    jitter?: boolean;
+    /** Give up instead of waiting when Retry-After exceeds this many milliseconds (default: 60000) */
+    maxRetryAfter?: number;
+    /** Error classes that may be retried (default: RateLimitError, ServerError, NetworkError, TimeoutError) */
+    retryOn?: Array<new (...args: any[]) => TrinitySDKError>;
+    /** HTTP methods that may be retried (default: GET, DELETE, OPTIONS) */
+    retryMethods?: HttpMethod[];
+    /** Called before each retry, e.g. for logging */
+    onRetry?: (attempt: RetryAttempt) => void;
+}
 
 /**
  * SDK Configuration options
  */
-export interface SdkConfig {
+export interface SdkConfig<TExtras extends PatientExtras = PatientExtras> {
     /** Base URL for the API */
     env?: Environment;
     /** Access token for authentication */
     accessToken?: string;
+    /**
+     * Async access token provider, called before every request.
+     * Called with forceRefresh: true after a 401; the request is then replayed once.
+     */
+    getAccessToken?: (options: { forceRefresh: boolean }) => string | Promise<string>;
     /** Workspace ID for local data storage */
     workspaceId: string;
     /** Request timeout in milliseconds */
@@ -289,4 +806,24 @@ export interface SdkConfig {
     baseUrl?: string;
     /** Extra minified patient fields */
     extraMinifiedPatientFields?: ExtraMinifiedPatientFields[];
+    /** Retry policy for transient failures, or false to disable retries. Creates are retried too, since they carry an idempotency key */
+    retry?: RetryConfig | false;
+    /** Request/response interceptors applied to every request, in order */
+    interceptors?: HttpInterceptor[];
+    /** Custom fetch-compatible transport, e.g. an in-memory fake for tests */
+    transport?: Transport;
+    /** IndexedDB factory to use instead of the global indexedDB */
+    indexedDB?: IDBFactory;
+    /** Offline mutation queue */
+    offline?: OfflineConfig;
+    /** Receiver of timing and outcome events for requests, IndexedDB, sync and search */
+    telemetry?: TelemetrySink;
+    /** Country code assumed for mobile numbers typed without one (default: "+91") */
+    defaultCountryCode?: string;
+    /** Client-side validation of patient payloads */
+    validation?: PatientValidationConfig;
+    /** Runtime schema for extras; checked on read and write, failures raise ValidationError */
+    extrasSchema?: ExtrasSchema<TExtras>;
+    /** Duplicate check before patient creates (off by default) */
+    duplicateCheck?: DuplicateCheckConfig;
 }
\ No newline at end of file
@@ -2,21 +2,31 @@
  * Web Worker for background data synchronization
  */
 
+import { SerializedTrinityError, TrinitySDKError, toTrinitySDKError } from '../errors';
 import { DataLoaderService, LoadProgress } from '../services/data-loader';
+import { TelemetryEvent } from '../telemetry';
 import { SdkConfig } from '../types';
 
 interface SyncWorkerMessage {
-    type: 'start' | 'stop' | 'status';
+    type: 'start' | 'stop' | 'status' | 'token';
     payload?: {
-        config: SdkConfig;
+        config?: SdkConfig;
+        /** Forward telemetry events to the main thread, whose sink cannot be posted to the worker */
+        telemetry?: boolean;
+        /** Token sent by the main thread in answer to a tokenRequest, or after updateAccessToken */
+        accessToken?: string;
+        error?: SerializedTrinityError;
     };
 }
 
 interface SyncWorkerResponse {
-    type: 'progress' | 'complete' | 'error' | 'status';
+    type: 'progress' | 'complete' | 'error' | 'status' | 'telemetry' | 'tokenRequest';
     payload?: {
+        /** Token rejected with a 401, sent with a tokenRequest */
+        staleToken?: string;
         progress?: LoadProgress;
-        error?: string;
+        event?: TelemetryEvent;
+        error?: SerializedTrinityError;
         isRunning?: boolean;
         lastSync?: number;
     };
@@ -26,6 +36,8 @@ class SyncWorker {
     private dataLoader: DataLoaderService | null = null;
     private isRunning = false;
     private lastSyncTime = 0;
+    private accessToken = '';
+    private pendingToken: { resolve: (token: string) => void; reject: (error: Error) => void } | null = null;
 
     constructor() {
         self.addEventListener('message', this.handleMessage.bind(this));
@@ -36,10 +48,14 @@ class SyncWorker {
 
         switch (type) {
             case 'start':
-                if (payload) {
-                    this.startSync(payload.config);
+                if (payload?.config) {
+                    const config = this.withTokenRequests(payload.config);
+                    this.startSync(payload.telemetry ? this.withForwardedTelemetry(config) : config);
                 }
                 break;
+            case 'token':
+                this.receiveToken(payload);
+                break;
             case 'stop':
                 this.stopSync();
                 break;
@@ -51,7 +67,10 @@ class SyncWorker {
 
     private async startSync(config: SdkConfig) {
         if (this.isRunning) {
-            this.postMessage({ type: 'error', payload: { error: 'Sync already running' } });
+            this.postMessage({
+                type: 'error',
+                payload: { error: new TrinitySDKError('Sync already running').toJSON() }
+            });
             return;
         }
 
@@ -77,10 +96,10 @@ class SyncWorker {
                         payload: { lastSync: this.lastSyncTime } 
                     });
                 },
-                onError: (error: string) => {
+                onError: (error: TrinitySDKError) => {
                     this.postMessage({ 
                         type: 'error', 
-                        payload: { error } 
+                        payload: { error: error.toJSON() } 
                     });
                 }
             });
@@ -88,7 +107,7 @@ class SyncWorker {
         } catch (error) {
             this.postMessage({ 
                 type: 'error', 
-                payload: { error: error instanceof Error ? error.message : 'Unknown error' } 
+                payload: { error: toTrinitySDKError(error).toJSON() } 
             });
         } finally {
             this.isRunning = false;
@@ -99,6 +118,49 @@ class SyncWorker {
         }
     }
 
+    /**
+     * Replace the posted token with a provider that asks the main thread for a new one after a 401
+     */
+    private withTokenRequests(config: SdkConfig): SdkConfig {
+        this.accessToken = config.accessToken || '';
+        return {
+            ...config,
+            getAccessToken: ({ forceRefresh }) => forceRefresh ? this.requestToken() : this.accessToken
+        };
+    }
+
+    private requestToken(): Promise<string> {
+        if (this.pendingToken) {
+            this.pendingToken.reject(new TrinitySDKError('Token request superseded'));
+        }
+        return new Promise((resolve, reject) => {
+            this.pendingToken = { resolve, reject };
+            this.postMessage({ type: 'tokenRequest', payload: { staleToken: this.accessToken } });
+        });
+    }
+
+    private receiveToken(payload: SyncWorkerMessage['payload']) {
+        const pending = this.pendingToken;
+        this.pendingToken = null;
+        if (payload?.error) {
+            pending?.reject(TrinitySDKError.fromJSON(payload.error));
+            return;
+        }
+        if (payload?.accessToken) {
+            this.accessToken = payload.accessToken;
+        }
+        pending?.resolve(this.accessToken);
+    }
+
+    private withForwardedTelemetry(config: SdkConfig): SdkConfig {
+        return {
+            ...config,
+            telemetry: {
+                emit: (event) => this.postMessage({ type: 'telemetry', payload: { event } })
+            }
+        };
+    }
+
     private stopSync() {
         if (this.dataLoader) {
             this.dataLoader.stopLoading();
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  formatAbhaNumber,
+  getAbhaKind,
+  isAbhaAddress,
+  isAbhaNumber,
+  normalizeAbha,
+} from '../src';
+import { verifyVerhoeff } from '../src/helpers/abha';
+
+test('the Verhoeff check accepts valid check digits and catches typos', () => {
+  assert.equal(verifyVerhoeff('2363'), true);
+  assert.equal(verifyVerhoeff('2364'), false);
+  // Swapping adjacent digits is detected
+  assert.equal(verifyVerhoeff('91502812345673'), true);
+  assert.equal(verifyVerhoeff('91502812354673'), false);
+  assert.equal(verifyVerhoeff('12a4'), false);
+});
+
+test('ABHA numbers are accepted plain, hyphenated or spaced', () => {
+  assert.equal(isAbhaNumber('91502812345673'), true);
+  assert.equal(isAbhaNumber('91-5028-1234-5673'), true);
+  assert.equal(isAbhaNumber('91 5028 1234 5673'), true);
+  assert.equal(isAbhaNumber('9150281234567'), false);
+  assert.equal(isAbhaNumber('91502812345674'), false);
+});
+
+test('ABHA addresses need a known domain and a valid handle', () => {
+  assert.equal(isAbhaAddress('asha.rao@abdm'), true);
+  assert.equal(isAbhaAddress('Asha_Rao1@SBX'), true);
+  assert.equal(isAbhaAddress('asha@abdm'), false);
+  assert.equal(isAbhaAddress('asha.r.rao@abdm'), false);
+  assert.equal(isAbhaAddress('asha.rao@gmail.com'), false);
+});
+
+test('values are classified, normalized and formatted', () => {
+  assert.equal(getAbhaKind('91-5028-1234-5673'), 'number');
+  assert.equal(getAbhaKind('asha.rao@abdm'), 'address');
+  assert.equal(getAbhaKind('  '), null);
+  assert.equal(normalizeAbha('91-5028-1234-5673'), '91502812345673');
+  assert.equal(normalizeAbha(' Asha.Rao@ABDM '), 'asha.rao@abdm');
+  assert.equal(normalizeAbha('91502812345674'), null);
+  assert.equal(formatAbhaNumber('91502812345673'), '91-5028-1234-5673');
+});
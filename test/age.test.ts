@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ageFromDob, CreatePatientResult, dobFromAge, formatAge, ValidationError } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { createSdk } from './helpers';
+
+const referenceDate = new Date(2024, 5, 15);
+
+test('a date of birth is derived by counting back from the reference date', () => {
+  assert.equal(dobFromAge({ years: 34 }, referenceDate), '1990-06-15');
+  assert.equal(dobFromAge({ months: 5 }, referenceDate), '2024-01-15');
+  assert.equal(dobFromAge({ years: 1, months: 2, days: 20 }, referenceDate), '2023-03-26');
+  assert.equal(dobFromAge({ months: 1 }, new Date(2024, 2, 31)), '2024-02-29');
+});
+
+test('an empty or fractional age is rejected', () => {
+  assert.throws(() => dobFromAge({}, referenceDate), ValidationError);
+  assert.throws(() => dobFromAge({ years: 2.5 }, referenceDate), ValidationError);
+  assert.throws(() => dobFromAge({ days: -1 }, referenceDate), ValidationError);
+});
+
+test('the age is calculated in calendar units', () => {
+  assert.deepEqual(ageFromDob('1990-06-15', referenceDate), { years: 34, months: 0, days: 0 });
+  assert.deepEqual(ageFromDob('2024-01-03', referenceDate), { years: 0, months: 5, days: 12 });
+  assert.equal(ageFromDob('2024-06-16', referenceDate), null);
+  assert.equal(ageFromDob('not-a-date', referenceDate), null);
+});
+
+test('ages are formatted in years, or months and days for infants', () => {
+  assert.equal(formatAge({ years: 34, months: 2, days: 3 }), '34 years');
+  assert.equal(formatAge({ years: 1, months: 0, days: 0 }), '1 year');
+  assert.equal(formatAge({ years: 0, months: 5, days: 12 }), '5 months 12 days');
+  assert.equal(formatAge({ years: 0, months: 0, days: 1 }, true), '~1 day');
+});
+
+test('createFromAge sends the derived DOB with is_age and returns the create result', async () => {
+  const backend = new FakeTrinityBackend();
+  const sdk = createSdk(backend.transport);
+
+  const result: CreatePatientResult = await sdk.patients.createFromAge({ gen: 'F', fn: 'Asha' }, { years: 34 });
+
+  const stored = backend.patients.get(result.oid);
+  assert.equal(stored?.is_age, true);
+  assert.equal(stored?.dob, dobFromAge({ years: 34 }));
+  sdk.destroy();
+});
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { AuthenticationError } from '../src';
+import { HttpClient } from '../src/client';
+import { FakeTrinityBackend } from '../src/testing';
+import { createSdk, patient } from './helpers';
+
+test('refreshes the access token after a 401 and replays the request once', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')], accessToken: 'fresh' });
+  const refreshes: boolean[] = [];
+  const sdk = createSdk(backend.transport, {
+    getAccessToken: ({ forceRefresh }) => {
+      refreshes.push(forceRefresh);
+      return forceRefresh ? 'fresh' : 'expired';
+    },
+  });
+
+  const fetched = await sdk.patients.get('p1');
+
+  assert.equal(fetched.oid, 'p1');
+  assert.deepEqual(refreshes, [false, true]);
+  assert.deepEqual(
+    backend.requests.map((request) => request.headers['authorization']),
+    ['Bearer expired', 'Bearer fresh']
+  );
+  sdk.destroy();
+});
+
+test('fails with AuthenticationError when the refreshed token is rejected too', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')], accessToken: 'fresh' });
+  const sdk = createSdk(backend.transport, { getAccessToken: () => 'expired' });
+
+  await assert.rejects(sdk.patients.get('p1'), AuthenticationError);
+  assert.equal(backend.requests.length, 2);
+  sdk.destroy();
+});
+
+test('the worker config carries a token resolved from the provider', async () => {
+  const client = new HttpClient({ workspaceId: 'ws-auth', getAccessToken: async () => 'provided' });
+
+  const config = await client.getWorkerConfig();
+
+  assert.equal(config.accessToken, 'provided');
+  assert.equal(config.getAccessToken, undefined);
+});
+
+test('a token rejected in the worker is refreshed once through the provider', async () => {
+  const refreshes: boolean[] = [];
+  const client = new HttpClient({
+    workspaceId: 'ws-auth',
+    getAccessToken: ({ forceRefresh }) => {
+      refreshes.push(forceRefresh);
+      return forceRefresh ? 'fresh' : 'expired';
+    },
+  });
+  await client.getWorkerConfig();
+
+  assert.equal(await client.refreshWorkerToken('expired'), 'fresh');
+  assert.equal(await client.refreshWorkerToken('expired'), 'fresh');
+  assert.deepEqual(refreshes, [false, true]);
+});
+
+test('without a provider the worker gets the token set through setAccessToken', async () => {
+  const client = new HttpClient({ workspaceId: 'ws-auth', accessToken: 'old' });
+  client.setAccessToken('new');
+
+  assert.equal(await client.refreshWorkerToken('old'), 'new');
+});
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ValidationError } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { CreatePatientData } from '../src/types';
+import { createSdk, patient } from './helpers';
+
+test('bulk create reports each item in input order', async () => {
+  const backend = new FakeTrinityBackend();
+  const sdk = createSdk(backend.transport);
+  const items: CreatePatientData[] = [
+    { gen: 'F', dob: '1990-01-01', fn: 'Asha' },
+    { dob: '1985-06-15', fn: 'Ravi' } as CreatePatientData,
+    { gen: 'M', dob: '1978-03-02', fn: 'Kiran' },
+  ];
+
+  const results = await sdk.patients.bulkCreate(items, { concurrency: 2, validate: false });
+
+  assert.deepEqual(results.map((result) => [result.index, result.success]), [[0, true], [1, false], [2, true]]);
+  const failure = results[1];
+  assert.ok(!failure.success && failure.error instanceof ValidationError);
+  assert.equal(backend.patients.size, 2);
+  sdk.destroy();
+});
+
+test('bulk create retried with the same keys does not create duplicates', async () => {
+  const backend = new FakeTrinityBackend();
+  const sdk = createSdk(backend.transport);
+  const items: CreatePatientData[] = [
+    { gen: 'F', dob: '1990-01-01', fn: 'Asha' },
+    { gen: 'M', dob: '1978-03-02', fn: 'Kiran' },
+  ];
+  const idempotencyKeys = ['import-1', 'import-2'];
+
+  const first = await sdk.patients.bulkCreate(items, { idempotencyKeys });
+  const second = await sdk.patients.bulkCreate(items, { idempotencyKeys });
+
+  assert.equal(backend.patients.size, 2);
+  assert.deepEqual(
+    second.map((result) => result.success && result.oid),
+    first.map((result) => result.success && result.oid)
+  );
+  sdk.destroy();
+});
+
+test('bulk update applies every item and reports missing patients', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1'), patient('p2')] });
+  const sdk = createSdk(backend.transport);
+
+  const results = await sdk.patients.bulkUpdate([
+    { oid: 'p1', data: { email: 'one@example.com' } },
+    { oid: 'missing', data: { email: 'none@example.com' } },
+    { oid: 'p2', data: { email: 'two@example.com' } },
+  ]);
+
+  assert.deepEqual(results.map((result) => result.success), [true, false, true]);
+  assert.equal(backend.patients.get('p1')?.email, 'one@example.com');
+  assert.equal(backend.patients.get('p2')?.email, 'two@example.com');
+  sdk.destroy();
+});
+
+test('bulk create sends at most concurrency requests at a time', async () => {
+  const backend = new FakeTrinityBackend({ latency: 5 });
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const sdk = createSdk(async (url, init) => {
+    maxInFlight = Math.max(maxInFlight, ++inFlight);
+    try {
+      return await backend.transport(url, init);
+    } finally {
+      inFlight--;
+    }
+  });
+  const items: CreatePatientData[] = Array.from({ length: 7 }, (_, index) => ({
+    gen: 'F',
+    dob: '1990-01-01',
+    fn: `Asha ${index}`,
+  }));
+
+  const results = await sdk.patients.bulkCreate(items, { concurrency: 3 });
+
+  assert.ok(results.every((result) => result.success));
+  assert.equal(maxInFlight, 3);
+  sdk.destroy();
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { CancelledError, TimeoutError } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { createSdk, patient } from './helpers';
+
+test('aborting the caller signal rejects with CancelledError and is not retried', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')], latency: 1000 });
+  let sent = 0;
+  const sdk = createSdk((url, init) => {
+    sent++;
+    return backend.transport(url, init);
+  });
+  const controller = new AbortController();
+
+  const pending = sdk.patients.get('p1', { signal: controller.signal });
+  setTimeout(() => controller.abort(), 5);
+
+  await assert.rejects(pending, CancelledError);
+  assert.equal(sent, 1);
+  sdk.destroy();
+});
+
+test('an already aborted signal sends no request', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')] });
+  const sdk = createSdk(backend.transport);
+  const controller = new AbortController();
+  controller.abort();
+
+  await assert.rejects(sdk.patients.get('p1', { signal: controller.signal }), CancelledError);
+  assert.equal(backend.requests.length, 0);
+  sdk.destroy();
+});
+
+test('a per-call timeout rejects with TimeoutError', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')], latency: 1000 });
+  const sdk = createSdk(backend.transport, { retry: false, timeout: 5000 });
+
+  await assert.rejects(sdk.patients.get('p1', { timeout: 5 }), TimeoutError);
+  sdk.destroy();
+});
+
+test('aborting during the retry delay stops further attempts', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')] });
+  const controller = new AbortController();
+  const sdk = createSdk(backend.transport, {
+    retry: { baseDelay: 1000, jitter: false, onRetry: () => controller.abort() },
+  });
+  backend.failNext(503);
+
+  await assert.rejects(sdk.patients.get('p1', { signal: controller.signal }), CancelledError);
+  assert.equal(backend.requests.length, 1);
+  sdk.destroy();
+});
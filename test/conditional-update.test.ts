@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ConflictError, TrinitySDKError } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { createSdk, patient } from './helpers';
+
+test('a stale conditional update fails with the current record and a diff', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1', { email: 'new@example.com', u_ate: 2000 })] });
+  const sdk = createSdk(backend.transport);
+
+  const error = await sdk.patients
+    .update('p1', { email: 'mine@example.com' }, { expectedUpdatedAt: 1000 })
+    .catch((caught: unknown) => caught);
+
+  assert.ok(error instanceof ConflictError);
+  assert.equal(error.statusCode, 412);
+  assert.equal(error.current?.u_ate, 2000);
+  assert.deepEqual(error.diff?.map((entry) => entry.field), ['email']);
+  assert.equal(backend.patients.get('p1')?.email, 'new@example.com');
+  sdk.destroy();
+});
+
+test('the conflict resolver retries against the current record', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1', { extras: { ward: '3' }, u_ate: 2000 })] });
+  const sdk = createSdk(backend.transport);
+
+  await sdk.patients.update('p1', { extras: { bed: '12' } }, {
+    expectedUpdatedAt: 1000,
+    resolveConflict: ({ current, attempted }) => ({ extras: { ...current.extras, ...attempted.extras } }),
+  });
+
+  assert.deepEqual(backend.patients.get('p1')?.extras, { ward: '3', bed: '12' });
+  assert.deepEqual(
+    backend.requests.filter((request) => request.method === 'PATCH').map((request) => request.headers['if-match']),
+    ['"1000"', '"2000"']
+  );
+  sdk.destroy();
+});
+
+test('a conflict keeps its status, current record and diff through serialization', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1', { u_ate: 2000 })] });
+  const sdk = createSdk(backend.transport);
+
+  const error = await sdk.patients
+    .update('p1', { fn: 'Usha' }, { expectedUpdatedAt: 1000 })
+    .catch((caught: unknown) => caught);
+  assert.ok(error instanceof ConflictError);
+  const restored = TrinitySDKError.fromJSON(JSON.parse(JSON.stringify(error.toJSON())));
+
+  assert.ok(restored instanceof ConflictError);
+  assert.equal(restored.statusCode, 412);
+  assert.equal(restored.current?.oid, 'p1');
+  assert.deepEqual(restored.diff, error.diff);
+  sdk.destroy();
+});
+
+test('a 409 conflict is not treated as a stale write', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1', { u_ate: 1000 })] });
+  const sdk = createSdk(backend.transport);
+  let resolverCalls = 0;
+  backend.failNext(409, { username: ['A patient with this username already exists.'] });
+
+  const error = await sdk.patients
+    .update('p1', { username: 'asha' }, {
+      expectedUpdatedAt: 1000,
+      resolveConflict: ({ attempted }) => {
+        resolverCalls++;
+        return attempted;
+      },
+    })
+    .catch((caught: unknown) => caught);
+
+  assert.ok(error instanceof ConflictError);
+  assert.equal(error.statusCode, 409);
+  assert.equal(error.current, undefined);
+  assert.equal(resolverCalls, 0);
+  assert.equal(backend.requests.length, 1);
+  sdk.destroy();
+});
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { formatCsvRow, parseCsv, parseCsvRecords } from '../src/helpers/csv';
+
+test('quoted fields may hold delimiters, doubled quotes and line breaks', () => {
+  assert.deepEqual(parseCsv('name,note\r\n"Rao, Asha","said ""hi""\nthen left"\r\n'), [
+    ['name', 'note'],
+    ['Rao, Asha', 'said "hi"\nthen left'],
+  ]);
+});
+
+test('a byte order mark and blank lines are ignored', () => {
+  assert.deepEqual(parseCsv('\uFEFFa;b\n\n1;2\n', ';'), [
+    ['a', 'b'],
+    ['1', '2'],
+  ]);
+});
+
+test('an unclosed quote is an error', () => {
+  assert.throws(() => parseCsv('name\n"Asha'));
+});
+
+test('records are keyed by the trimmed header and missing cells are empty', () => {
+  assert.deepEqual(parseCsvRecords(' Name ,DOB\nAsha\n'), [{ Name: 'Asha', DOB: '' }]);
+  assert.deepEqual(parseCsvRecords(''), []);
+});
+
+test('formatted rows parse back to the same values', () => {
+  const values = ['Rao, Asha', 'said "hi"', 'line\nbreak', undefined, 42];
+
+  const row = formatCsvRow(values);
+
+  assert.equal(row, '"Rao, Asha","said ""hi""","line\nbreak",,42');
+  assert.deepEqual(parseCsv(row), [['Rao, Asha', 'said "hi"', 'line\nbreak', '', '42']]);
+});
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { afterEach, test } from 'node:test';
+import { DuplicatePatientError, nameSimilarity, scorePotentialDuplicate } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { createSdk, flakyTransport, patient, setOnline } from './helpers';
+
+afterEach(() => setOnline(true));
+
+const ramesh = patient('p1', { gen: 'M', dob: '1980-04-02', fn: 'Ramesh', ln: 'Kumar', fln: 'Ramesh Kumar', mobile: '9876543210' });
+
+test('name similarity tolerates order, case, initials and abbreviations', () => {
+  assert.equal(nameSimilarity('Kumar Ramesh', 'ramesh kumar'), 1);
+  assert.ok(nameSimilarity('Ramesh Kr', 'Ramesh Kumar') > 0.85);
+  assert.ok(nameSimilarity('R. Kumar', 'Ramesh Kumar') > 0.7);
+  assert.ok(nameSimilarity('Asha Rao', 'Ramesh Kumar') < 0.3);
+});
+
+test('matching DOB, mobile and gender score high and a different gender halves the score', () => {
+  const input = { gen: 'M' as const, dob: '1980-04-02', fln: 'Ramesh Kr', mobile: '+91 98765 43210' };
+
+  const same = scorePotentialDuplicate(input, ramesh);
+  const otherGender = scorePotentialDuplicate({ ...input, gen: 'F' }, ramesh);
+
+  assert.ok(same.score > 0.9);
+  assert.deepEqual(same.reasons.map((reason) => reason.field).sort(), ['dob', 'gen', 'mobile', 'name']);
+  assert.ok(otherGender.score <= same.score / 2);
+});
+
+test('a create with a likely duplicate is rejected', async () => {
+  const backend = new FakeTrinityBackend({ patients: [ramesh] });
+  const sdk = createSdk(backend.transport, { duplicateCheck: { enabled: true, action: 'reject' } });
+
+  const error = await sdk.patients
+    .create({ gen: 'M', dob: '1980-04-02', fln: 'Ramesh Kr', mobile: '9876543210' })
+    .catch((caught: unknown) => caught);
+
+  assert.ok(error instanceof DuplicatePatientError);
+  assert.equal(error.matches?.[0].patient.oid, 'p1');
+  assert.equal(backend.patients.size, 1);
+  sdk.destroy();
+});
+
+test('a failing lookup is not retried and the create goes ahead', async () => {
+  const backend = new FakeTrinityBackend({ patients: [ramesh] });
+  const sdk = createSdk(backend.transport, { duplicateCheck: { enabled: true } });
+  backend.failNext(503);
+
+  const result = await sdk.patients.create({ gen: 'M', dob: '1980-04-02', fln: 'Ramesh Kr', mobile: '9876543210' });
+
+  assert.deepEqual(backend.requests.map((request) => request.method), ['GET', 'POST']);
+  assert.equal(result.duplicates, undefined);
+  assert.equal(backend.patients.size, 2);
+  sdk.destroy();
+});
+
+test('an offline registration skips the API lookup', async () => {
+  const backend = new FakeTrinityBackend({ patients: [ramesh] });
+  let sent = 0;
+  const offlineTransport = flakyTransport(backend, () => true);
+  const sdk = createSdk(
+    (url, init) => {
+      sent++;
+      return offlineTransport(url, init);
+    },
+    { duplicateCheck: { enabled: true }, offline: { enabled: true, autoReplay: false } }
+  );
+  setOnline(false);
+
+  const result = await sdk.patients.create({ gen: 'M', dob: '1980-04-02', fln: 'Ramesh Kr', mobile: '9876543210' });
+
+  assert.equal(result.queued, true);
+  assert.equal(sent, 0);
+  sdk.destroy();
+});
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  NotFoundError,
+  RateLimitError,
+  SerializedTrinityError,
+  StorageError,
+  StorageQuotaError,
+  toTrinitySDKError,
+  TrinitySDKError,
+  ValidationError,
+} from '../src';
+
+/**
+ * Send an error through the structured clone used by postMessage and rebuild it
+ */
+function throughWorker(error: TrinitySDKError): TrinitySDKError {
+  return TrinitySDKError.fromJSON(structuredClone(error.toJSON()));
+}
+
+test('errors keep their class and details across the worker boundary', () => {
+  const rateLimited = throughWorker(new RateLimitError('Slow down', { error: 'Slow down' }, 3000));
+  const invalid = throughWorker(
+    new ValidationError('Invalid', undefined, { dob: ['Enter a valid date.'] }, { dob: ['Enter a valid date.'] })
+  );
+
+  assert.ok(rateLimited instanceof RateLimitError);
+  assert.equal(rateLimited.retryAfter, 3000);
+  assert.equal(rateLimited.statusCode, 429);
+  assert.ok(invalid instanceof ValidationError);
+  assert.deepEqual(invalid.fieldErrors, { dob: ['Enter a valid date.'] });
+});
+
+test('JSON.stringify uses the serialized form', () => {
+  const parsed = JSON.parse(JSON.stringify(new NotFoundError('Patient not found')));
+
+  assert.equal(parsed.code, 'NOT_FOUND');
+  assert.ok(TrinitySDKError.fromJSON(parsed) instanceof NotFoundError);
+});
+
+test('an unknown code is rebuilt as the base error', () => {
+  const json = { name: 'FutureError', code: 'FUTURE', message: 'From a newer SDK' } as unknown as SerializedTrinityError;
+
+  const error = TrinitySDKError.fromJSON(json);
+
+  assert.equal(error.constructor, TrinitySDKError);
+  assert.equal(error.message, 'From a newer SDK');
+});
+
+test('IndexedDB failures are wrapped in storage errors that keep the cause', () => {
+  const quota = new DOMException('Quota exceeded', 'QuotaExceededError');
+  const constraint = new DOMException('Key already exists', 'ConstraintError');
+
+  const quotaError = toTrinitySDKError(quota);
+  const storageError = toTrinitySDKError(constraint);
+
+  assert.ok(quotaError instanceof StorageQuotaError);
+  assert.equal(quotaError.cause, quota);
+  assert.ok(storageError instanceof StorageError);
+  assert.equal(storageError.originalName, 'ConstraintError');
+  assert.equal(toTrinitySDKError(new TypeError('boom')).code, 'SDK_ERROR');
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ValidationError } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { createSdk, patient } from './helpers';
+
+test('a local export keeps the country code of each mobile', async () => {
+  const backend = new FakeTrinityBackend({
+    patients: [patient('p1', { fln: 'Mei Tan', mobile: '81234567', ccd: '+65' })],
+  });
+  const sdk = createSdk(backend.transport);
+  await sdk.startLocalSync();
+
+  const csv = await sdk.exporter.export({ source: 'local', fields: ['oid', 'ccd', 'mobile'] });
+  const vcard = await sdk.exporter.export({ source: 'local', format: 'vcard', fields: ['oid', 'mobile'] });
+
+  assert.equal(csv, 'oid,ccd,mobile\r\np1,+65,81234567\r\n');
+  assert.match(vcard, /TEL;TYPE=cell;VALUE=uri:tel:\+6581234567\r\n/);
+  sdk.destroy();
+});
+
+test('a local export before the sync is complete is rejected', async () => {
+  const backend = new FakeTrinityBackend();
+  const sdk = createSdk(backend.transport);
+
+  await assert.rejects(sdk.exporter.export({ source: 'local' }), ValidationError);
+  sdk.destroy();
+});
+
+test('masked fields keep only a hint of the value', async () => {
+  const backend = new FakeTrinityBackend({
+    patients: [patient('p1', { mobile: '9876543210', email: 'asha@example.com', dob: '1990-06-15' })],
+  });
+  const sdk = createSdk(backend.transport);
+
+  const ndjson = await sdk.exporter.export({
+    source: 'api',
+    format: 'ndjson',
+    fields: ['oid', 'mobile', 'email', 'dob'],
+    mask: ['mobile', 'email', 'dob'],
+    enrich: true,
+  });
+
+  assert.deepEqual(JSON.parse(ndjson), { oid: 'p1', mobile: '******3210', email: 'a***@example.com', dob: '1990-**-**' });
+  sdk.destroy();
+});
+
+test('vCard lines are escaped and folded at 75 characters', async () => {
+  const name = `Asha ${'Kumari '.repeat(12)}Rao`;
+  const backend = new FakeTrinityBackend({ patients: [patient('p1', { fln: name, fn: 'Asha', ln: 'Rao; Jr' })] });
+  const sdk = createSdk(backend.transport);
+
+  const vcard = await sdk.exporter.export({ source: 'api', format: 'vcard', fields: ['oid', 'fln', 'fn', 'ln'], enrich: true });
+  const lines = vcard.split('\r\n');
+
+  assert.ok(lines.every((line) => line.length <= 75));
+  assert.ok(lines.some((line) => line.startsWith(' ')));
+  assert.equal(vcard.replace(/\r\n /g, '').match(/^FN:(.*)$/m)?.[1], name);
+  assert.ok(lines.includes('N:Rao\\; Jr;Asha;;;'));
+  sdk.destroy();
+});
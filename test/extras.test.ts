@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ExtrasSchema, ValidationError } from '../src';
+import { parseExtras } from '../src/helpers/extras';
+import { FakeTrinityBackend } from '../src/testing';
+import { createSdk, patient } from './helpers';
+
+/**
+ * zod-style schema requiring a string clinicCode and trimming it
+ */
+const clinicExtras: ExtrasSchema = {
+  parse(value: unknown) {
+    const extras = value as Record<string, unknown>;
+    if (typeof extras?.clinicCode !== 'string') {
+      throw { issues: [{ path: ['clinicCode'], message: 'Required' }] };
+    }
+    return { ...extras, clinicCode: extras.clinicCode.trim() };
+  },
+};
+
+test('extras are parsed by the schema and schema issues become field errors', () => {
+  assert.deepEqual(parseExtras(clinicExtras, { clinicCode: ' BLR-01 ' }, 'write'), { clinicCode: 'BLR-01' });
+  assert.equal(parseExtras(undefined, { anything: 1 }, 'write').anything, 1);
+
+  assert.throws(
+    () => parseExtras(clinicExtras, { referredBy: 'Dr. Rao' }, 'write'),
+    (error: unknown) => error instanceof ValidationError && error.fieldErrors.extras?.[0] === 'clinicCode: Required'
+  );
+});
+
+test('invalid extras are rejected before the request is sent', async () => {
+  const backend = new FakeTrinityBackend();
+  const sdk = createSdk(backend.transport, { extrasSchema: clinicExtras });
+
+  await assert.rejects(
+    sdk.patients.create({ gen: 'F', dob: '1990-01-01', fn: 'Asha', extras: { referredBy: 'Dr. Rao' } }),
+    ValidationError
+  );
+  assert.equal(backend.requests.length, 0);
+  sdk.destroy();
+});
+
+test('extras returned by the server are checked on read', async () => {
+  const backend = new FakeTrinityBackend({
+    patients: [patient('p1', { extras: { clinicCode: ' BLR-01 ' } }), patient('p2', { extras: { clinic: 'BLR' } })],
+  });
+  const sdk = createSdk(backend.transport, { extrasSchema: clinicExtras });
+
+  assert.deepEqual((await sdk.patients.get('p1')).extras, { clinicCode: 'BLR-01' });
+  await assert.rejects(sdk.patients.get('p2'), ValidationError);
+  sdk.destroy();
+});
+
+test('patchExtras keeps the other keys and removes undefined ones', async () => {
+  const backend = new FakeTrinityBackend({
+    patients: [patient('p1', { extras: { clinicCode: 'BLR-01', referredBy: 'Dr. Rao' } })],
+  });
+  const sdk = createSdk(backend.transport, { extrasSchema: clinicExtras });
+
+  await sdk.patients.patchExtras('p1', { referredBy: undefined, insurer: 'ACME' });
+
+  assert.deepEqual(backend.patients.get('p1')?.extras, { clinicCode: 'BLR-01', insurer: 'ACME' });
+  sdk.destroy();
+});
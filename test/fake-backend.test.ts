@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { NotFoundError } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { createSdk, patient } from './helpers';
+
+test('the SDK creates, reads, updates and deletes patients through the fake backend', async () => {
+  const backend = new FakeTrinityBackend();
+  const sdk = createSdk(backend.transport);
+
+  const { oid } = await sdk.patients.create({ gen: 'F', dob: '1990-01-01', fn: 'Asha', ln: 'Rao' });
+  assert.equal((await sdk.patients.get(oid)).fln, 'Asha Rao');
+
+  await sdk.patients.update(oid, { email: 'asha@example.com' });
+  assert.equal(backend.patients.get(oid)?.email, 'asha@example.com');
+
+  await sdk.patients.delete(oid);
+  await assert.rejects(sdk.patients.get(oid), NotFoundError);
+  sdk.destroy();
+});
+
+test('requests are recorded with their path, query and body', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1'), patient('p2')] });
+  const sdk = createSdk(backend.transport);
+
+  await sdk.search.bulkGet(['p1', 'p2']);
+
+  const [request] = backend.requests;
+  assert.equal(request.method, 'GET');
+  assert.equal(request.path, '/profiles/v1/patient/bulk');
+  assert.equal(request.params.oid_list, 'p1,p2');
+  sdk.destroy();
+});
+
+test('injected failures are used once, in order', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')] });
+  const sdk = createSdk(backend.transport, { retry: false });
+  backend.failNext(404);
+
+  await assert.rejects(sdk.patients.get('p1'), NotFoundError);
+  assert.equal((await sdk.patients.get('p1')).oid, 'p1');
+  sdk.destroy();
+});
+
+test('archived patients are left out of minified pages', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1'), patient('p2', { arc: true })] });
+
+  const response = await backend.transport('https://api.example.com/profiles/v1/patient/minified?page=1&limit=10', {
+    method: 'GET',
+  });
+
+  assert.deepEqual((await response.json()).data.map((entry: { oid: string }) => entry.oid), ['p1']);
+});
+
+test('simulated latency honours the abort signal', async () => {
+  const backend = new FakeTrinityBackend({ latency: 1000 });
+  const controller = new AbortController();
+  const pending = backend.transport('https://api.example.com/profiles/v1/patient/p1', {
+    method: 'GET',
+    signal: controller.signal,
+  });
+  controller.abort();
+
+  await assert.rejects(pending, { name: 'AbortError' });
+});
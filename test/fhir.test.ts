@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { fromFhirBundle, fromFhirPatient, toFhirBundle, toFhirPatient, ValidationError } from '../src';
+import { Patient } from '../src/types';
+
+const stored: Patient = {
+  oid: 'p1',
+  gen: 'F',
+  dob: '1990-06-15',
+  s: 'Dr.',
+  fn: 'Asha',
+  mn: 'Kumari',
+  ln: 'Rao',
+  fln: 'Asha Kumari Rao',
+  mobile: '9876543210',
+  ccd: '+91',
+  email: 'asha@example.com',
+  username: 'asha.rao',
+  abha: '91502812345673',
+  bg: 'O+',
+  is_age: false,
+  arc: true,
+  u_ate: 1718409600,
+  extras: { clinicCode: 'BLR-01' },
+};
+
+test('a patient maps to a FHIR Patient resource', () => {
+  const resource = toFhirPatient(stored);
+
+  assert.equal(resource.id, 'p1');
+  assert.equal(resource.gender, 'female');
+  assert.equal(resource.active, false);
+  assert.equal(resource.meta?.lastUpdated, '2024-06-15T00:00:00.000Z');
+  assert.deepEqual(resource.name, [
+    { use: 'official', text: 'Dr. Asha Kumari Rao', given: ['Asha', 'Kumari'], family: 'Rao', prefix: ['Dr.'] },
+  ]);
+  assert.deepEqual(resource.telecom, [
+    { system: 'phone', value: '+919876543210', use: 'mobile' },
+    { system: 'email', value: 'asha@example.com' },
+  ]);
+  assert.equal(resource.identifier?.[0].value, '91-5028-1234-5673');
+});
+
+test('a patient survives the round trip through FHIR', () => {
+  const { u_ate, ...expected } = stored;
+
+  const roundTripped = fromFhirPatient(toFhirPatient(stored));
+
+  assert.deepEqual({ ...roundTripped, u_ate: undefined }, { ...expected, u_ate: undefined });
+  assert.equal(roundTripped.u_ate, u_ate);
+});
+
+test('a name given only as text is split into parts', () => {
+  const data = fromFhirPatient({
+    resourceType: 'Patient',
+    gender: 'unknown',
+    birthDate: '1985-01-01',
+    name: [{ text: 'Smt. S.K. Lakshmi' }],
+    telecom: [{ system: 'phone', value: '+65 8123 4567' }],
+  });
+
+  assert.equal(data.gen, 'O');
+  assert.deepEqual([data.s, data.fn, data.ln, data.fln], ['Smt.', 'S. K.', 'Lakshmi', 'S.K. Lakshmi']);
+  assert.deepEqual([data.ccd, data.mobile], ['+65', '81234567']);
+});
+
+test('resources without gender or a full birth date are rejected', () => {
+  assert.throws(
+    () => fromFhirPatient({ resourceType: 'Patient', birthDate: '1990' }),
+    (error: unknown) =>
+      error instanceof ValidationError &&
+      error.fieldErrors.gen?.[0] === 'Gender is required' &&
+      error.fieldErrors.dob?.[0] === 'Birth date must be a full date (YYYY-MM-DD)'
+  );
+});
+
+test('bundles map each entry', () => {
+  const bundle = toFhirBundle([stored]);
+
+  assert.equal(bundle.resourceType, 'Bundle');
+  assert.equal(bundle.entry?.[0].fullUrl, 'Patient/p1');
+  assert.equal(fromFhirBundle(bundle)[0].oid, 'p1');
+});
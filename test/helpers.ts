@@ -0,0 +1,46 @@
+/**
+ * Shared setup for the SDK behaviour tests: an SDK wired to the fake backend
+ */
+
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { TrinityProfilesSDK } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { Patient, SdkConfig, Transport } from '../src/types';
+
+let workspaceCount = 0;
+
+/**
+ * SDK backed by the fake backend, with a fresh workspace and IndexedDB factory per call (the local
+ * index only creates its store on the first upgrade of a database) and retries without backoff delays
+ */
+export function createSdk(transport: Transport, config: Partial<SdkConfig> = {}): TrinityProfilesSDK {
+  return new TrinityProfilesSDK({
+    workspaceId: `ws-test-${++workspaceCount}`,
+    transport,
+    indexedDB: new IDBFactory(),
+    retry: { baseDelay: 1, jitter: false },
+    ...config,
+  });
+}
+
+/**
+ * Set the connectivity the SDK reads from navigator.onLine
+ */
+export function setOnline(online: boolean): void {
+  Object.defineProperty(globalThis, 'navigator', { value: { onLine: online }, configurable: true });
+}
+
+/**
+ * Transport that fails like fetch without a connection while `isOffline` returns true
+ */
+export function flakyTransport(backend: FakeTrinityBackend, isOffline: () => boolean): Transport {
+  return (url, init) => (isOffline() ? Promise.reject(new TypeError('Failed to fetch')) : backend.transport(url, init));
+}
+
+/**
+ * Stored patient record for seeding the fake backend
+ */
+export function patient(oid: string, fields: Partial<Patient> = {}): Patient {
+  return { oid, gen: 'F', dob: '1990-01-01', fn: 'Asha', fln: 'Asha', u_ate: 1000, ...fields };
+}
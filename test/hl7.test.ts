@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { escapeHl7, parsePidSegment, pidToCreatePatientData, toPidSegment, unescapeHl7, ValidationError } from '../src';
+import { Patient } from '../src/types';
+
+const stored: Patient = {
+  oid: 'p-123',
+  gen: 'F',
+  dob: '1990-06-15',
+  s: 'Dr.',
+  fn: 'Asha',
+  mn: 'Kumari',
+  ln: 'Rao',
+  fln: 'Asha Kumari Rao',
+  mobile: '9876543210',
+  ccd: '+91',
+  abha: '91-5028-1234-5673',
+};
+
+test('delimiters and line breaks are escaped and unescaped', () => {
+  const value = 'Rao|Iyer^Jr~&\\\nend';
+
+  const escaped = escapeHl7(value);
+
+  assert.equal(escaped, 'Rao\\F\\Iyer\\S\\Jr\\R\\\\T\\\\E\\\\X0A\\end');
+  assert.equal(unescapeHl7(escaped), value);
+  assert.equal(unescapeHl7('line\\.br\\two \\X4142\\'), 'line\ntwo AB');
+});
+
+test('a patient is written as a PID segment', () => {
+  assert.equal(
+    toPidSegment(stored),
+    'PID|1||p-123^^^TRINITY^PI~91502812345673^^^ABDM^NH||Rao^Asha^Kumari^^Dr.^^L||19900615|F|||||^PRN^CP^^91^^9876543210'
+  );
+});
+
+test('a PID segment reads back into the same patient fields', () => {
+  const { u_ate, ...expected } = stored;
+
+  assert.deepEqual(parsePidSegment(toPidSegment(stored)), { ...expected, abha: '91502812345673' });
+});
+
+test('a full message is read with the delimiters declared in MSH', () => {
+  const message = [
+    'MSH#$~\\&#LAB#CLINIC#####ADT$A04#1#P#2.5',
+    'PID#1##L-9$$$LAB$MR##Shah$Kiran##19780302#M#####+65 8123 4567$PRN$PH',
+  ].join('\r');
+
+  const data = pidToCreatePatientData(message);
+
+  assert.equal(data.oid, undefined);
+  assert.deepEqual([data.fln, data.gen, data.dob], ['Kiran Shah', 'M', '1978-03-02']);
+  assert.deepEqual([data.ccd, data.mobile], ['+65', '81234567']);
+});
+
+test('a segment without sex or a full birth date cannot create a patient', () => {
+  assert.throws(
+    () => pidToCreatePatientData('PID|1||||Rao^Asha||1990'),
+    (error: unknown) => error instanceof ValidationError && Boolean(error.fieldErrors.gen && error.fieldErrors.dob)
+  );
+  assert.throws(() => parsePidSegment('MSH|^~\\&|LAB'), ValidationError);
+});
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { afterEach, test } from 'node:test';
+import { FakeTrinityBackend } from '../src/testing';
+import { Transport } from '../src/types';
+import { createSdk, flakyTransport, setOnline } from './helpers';
+
+afterEach(() => setOnline(true));
+
+/**
+ * Transport that delivers the first request but loses its response
+ */
+function losingFirstResponse(backend: FakeTrinityBackend): Transport {
+  let lost = false;
+  return async (url, init) => {
+    const response = await backend.transport(url, init);
+    if (!lost) {
+      lost = true;
+      throw new TypeError('Failed to fetch');
+    }
+    return response;
+  };
+}
+
+test('a create retried after a lost response resolves to the first OID', async () => {
+  const backend = new FakeTrinityBackend();
+  const sdk = createSdk(losingFirstResponse(backend));
+
+  const { oid } = await sdk.patients.create({ gen: 'F', dob: '1990-01-01', fn: 'Asha' });
+
+  const keys = backend.requests.map((request) => request.headers['idempotency-key']);
+  assert.equal(keys.length, 2);
+  assert.ok(keys[0]);
+  assert.equal(keys[0], keys[1]);
+  assert.equal(backend.patients.size, 1);
+  assert.ok(backend.patients.has(oid));
+  sdk.destroy();
+});
+
+test('a caller-supplied key returns the existing patient on reuse', async () => {
+  const backend = new FakeTrinityBackend();
+  const sdk = createSdk(backend.transport);
+  const data = { gen: 'M', dob: '1985-06-15', fn: 'Ravi' } as const;
+
+  const first = await sdk.patients.create(data, { idempotencyKey: 'visit-42' });
+  const second = await sdk.patients.create(data, { idempotencyKey: 'visit-42' });
+
+  assert.equal(second.oid, first.oid);
+  assert.equal(backend.patients.size, 1);
+  sdk.destroy();
+});
+
+test('a 409 naming the existing OID resolves to that OID', async () => {
+  const backend = new FakeTrinityBackend();
+  const sdk = createSdk(backend.transport);
+  backend.failNext(409, { error: 'Idempotency key already used', oid: 'p-existing' });
+
+  const { oid } = await sdk.patients.create({ gen: 'F', dob: '1990-01-01', fn: 'Asha' });
+
+  assert.equal(oid, 'p-existing');
+  sdk.destroy();
+});
+
+test('a replayed create whose response was lost is not created twice', async () => {
+  const backend = new FakeTrinityBackend();
+  let offline = true;
+  const sdk = createSdk(flakyTransport(backend, () => offline), { offline: { enabled: true, autoReplay: false } });
+  setOnline(false);
+
+  await sdk.patients.create({ gen: 'M', dob: '1985-06-15', fn: 'Ravi' });
+  const [queued] = await sdk.offline!.list();
+  await backend.transport('https://api.example.com/profiles/v1/patient', {
+    method: 'POST',
+    body: JSON.stringify(queued.data),
+    headers: { 'Idempotency-Key': queued.idempotencyKey! },
+  });
+
+  offline = false;
+  setOnline(true);
+  await sdk.offline!.replay();
+
+  assert.equal(backend.patients.size, 1);
+  sdk.destroy();
+});
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ImportCheckpointEntry, MemoryImportCheckpointStore } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { Transport } from '../src/types';
+import { createSdk, flakyTransport, setOnline } from './helpers';
+
+const CSV = [
+  'Name,DOB,Sex',
+  'Asha Rao,25/12/1990,F',
+  'Ravi Kumar,15/06/1985,M',
+  'Kiran Shah,02/03/1978,M',
+].join('\n');
+
+const OPTIONS = {
+  mapping: { fln: 'Name', dob: 'DOB', gen: 'Sex' },
+  dateFormat: 'DD/MM/YYYY' as const,
+  concurrency: 1,
+};
+
+/**
+ * Transport rejecting creates of one patient while `failing` returns true
+ */
+function rejectingTransport(backend: FakeTrinityBackend, name: string, failing: () => boolean): Transport {
+  return (url, init) => {
+    if (failing() && init.method === 'POST' && String(init.body).includes(name)) {
+      return Promise.resolve(new Response(JSON.stringify({ fln: ['Rejected'] }), { status: 400 }));
+    }
+    return backend.transport(url, init);
+  };
+}
+
+test('an interrupted import resumes without creating rows twice', async () => {
+  const backend = new FakeTrinityBackend();
+  let failing = true;
+  const sdk = createSdk(rejectingTransport(backend, 'Ravi Kumar', () => failing));
+  const checkpointStore = new MemoryImportCheckpointStore();
+
+  const first = await sdk.importer.run(CSV, { ...OPTIONS, checkpointStore });
+
+  assert.deepEqual(first.rows.map((row) => row.status), ['created', 'failed', 'created']);
+  assert.equal(backend.patients.get(first.rows[0].oid!)?.dob, '1990-12-25');
+
+  failing = false;
+  const postsBefore = backend.requests.filter((request) => request.method === 'POST').length;
+  const second = await sdk.importer.run(CSV, { ...OPTIONS, checkpointStore });
+
+  assert.deepEqual(second.rows.map((row) => [row.status, row.resumed ?? false]), [
+    ['created', true],
+    ['created', false],
+    ['created', true],
+  ]);
+  assert.equal(backend.requests.filter((request) => request.method === 'POST').length - postsBefore, 1);
+  assert.equal(backend.patients.size, 3);
+  sdk.destroy();
+});
+
+test('rows queued offline are checkpointed with the server OID after replay', async () => {
+  const backend = new FakeTrinityBackend();
+  let offline = true;
+  const sdk = createSdk(flakyTransport(backend, () => offline), { offline: { enabled: true, autoReplay: false } });
+  const checkpointStore = new MemoryImportCheckpointStore();
+  setOnline(false);
+
+  const first = await sdk.importer.run(CSV, { ...OPTIONS, checkpointStore });
+  assert.ok(first.rows.every((row) => row.status === 'created' && row.queued));
+
+  offline = false;
+  setOnline(true);
+  await sdk.offline!.replay();
+  const second = await sdk.importer.run(CSV, { ...OPTIONS, checkpointStore });
+
+  assert.deepEqual(
+    second.rows.map((row) => row.oid).sort(),
+    [...backend.patients.keys()].sort()
+  );
+  assert.ok(second.rows.every((row) => row.resumed && !row.queued));
+  sdk.destroy();
+});
+
+test('dates that do not match dateFormat are reported as format issues', async () => {
+  const backend = new FakeTrinityBackend();
+  const sdk = createSdk(backend.transport);
+
+  const report = await sdk.importer.validate('Name,DOB,Sex\nAsha Rao,1990-12-25,F', OPTIONS);
+
+  assert.equal(report.invalid, 1);
+  assert.deepEqual(report.rows[0].issues.map((issue) => [issue.field, issue.code]), [['dob', 'invalid_date_format']]);
+  sdk.destroy();
+});
+
+test('a failed checkpoint write keeps the row created with its OID', async () => {
+  const backend = new FakeTrinityBackend();
+  const sdk = createSdk(backend.transport);
+  const checkpointStore = new MemoryImportCheckpointStore();
+  checkpointStore.add = async (entry: ImportCheckpointEntry) => {
+    throw new Error(`Cannot checkpoint row ${entry.row}`);
+  };
+
+  const report = await sdk.importer.run(CSV, { ...OPTIONS, checkpointStore });
+
+  assert.equal(report.created, 3);
+  assert.equal(report.failed, 0);
+  report.rows.forEach((row) => {
+    assert.equal(row.status, 'created');
+    assert.ok(backend.patients.has(row.oid!));
+    assert.equal(row.checkpointError?.message, `Cannot checkpoint row ${row.row}`);
+  });
+  sdk.destroy();
+});
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { HttpInterceptor, NotFoundError, TrinitySDKError } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { createSdk, patient } from './helpers';
+
+/**
+ * Interceptor recording its calls under a name
+ */
+function recorder(name: string, calls: string[]): HttpInterceptor {
+  return {
+    onRequest: (options) => {
+      calls.push(`${name}:request`);
+      return options;
+    },
+    onResponse: (response) => {
+      calls.push(`${name}:response`);
+      return response;
+    },
+    onError: () => {
+      calls.push(`${name}:error`);
+    },
+  };
+}
+
+test('interceptors run in registration order for requests, responses and errors', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')] });
+  const calls: string[] = [];
+  const sdk = createSdk(backend.transport, { retry: false, interceptors: [recorder('config', calls)] });
+  sdk.use(recorder('added', calls));
+
+  await sdk.patients.get('p1');
+  await assert.rejects(sdk.patients.get('missing'), NotFoundError);
+
+  assert.deepEqual(calls, [
+    'config:request',
+    'added:request',
+    'config:response',
+    'added:response',
+    'config:request',
+    'added:request',
+    'config:error',
+    'added:error',
+  ]);
+  sdk.destroy();
+});
+
+test('request interceptors can add headers and response interceptors can transform data', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1', { fln: 'asha' })] });
+  const sdk = createSdk(backend.transport);
+  sdk.use({
+    onRequest: (options) => ({ ...options, headers: { ...options.headers, 'x-trace-id': 'trace-1' } }),
+    onResponse: (response) => ({ ...response, data: { ...response.data, fln: String(response.data.fln).toUpperCase() } }),
+  });
+
+  const fetched = await sdk.patients.get('p1');
+
+  assert.equal(backend.requests[0].headers['x-trace-id'], 'trace-1');
+  assert.equal(fetched.fln, 'ASHA');
+  sdk.destroy();
+});
+
+test('an ejected interceptor no longer runs', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')] });
+  const calls: string[] = [];
+  const sdk = createSdk(backend.transport);
+  const eject = sdk.use(recorder('ejected', calls));
+
+  eject();
+  eject();
+  await sdk.patients.get('p1');
+
+  assert.deepEqual(calls, []);
+  sdk.destroy();
+});
+
+test('onError receives the mapped SDK error', async () => {
+  const backend = new FakeTrinityBackend();
+  const errors: TrinitySDKError[] = [];
+  const sdk = createSdk(backend.transport, { retry: false });
+  sdk.use({ onError: (error) => { errors.push(error); } });
+
+  await assert.rejects(sdk.patients.get('missing'), NotFoundError);
+
+  assert.equal(errors.length, 1);
+  assert.equal(errors[0].code, 'NOT_FOUND');
+  sdk.destroy();
+});
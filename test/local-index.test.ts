@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { FakeTrinityBackend } from '../src/testing';
+import { createSdk, patient } from './helpers';
+
+const seed = () => [
+  patient('p1', { fn: 'Asha', ln: 'Rao', fln: 'Asha Rao', mobile: '9876543210', ccd: '+91' }),
+  patient('p2', { fn: 'Asha', ln: 'Iyer', fln: 'Asha Iyer' }),
+];
+
+/**
+ * OIDs the local index returns for a prefix
+ */
+async function localMatches(sdk: ReturnType<typeof createSdk>, prefix: string): Promise<string[]> {
+  return (await sdk.search.search({ prefix })).map((found) => found.oid).sort();
+}
+
+test('a deleted patient is removed from the local index', async () => {
+  const backend = new FakeTrinityBackend({ patients: seed() });
+  const sdk = createSdk(backend.transport);
+  await sdk.initializeLocalSearch();
+
+  await sdk.patients.delete('p1');
+
+  assert.deepEqual(await localMatches(sdk, 'asha'), ['p2']);
+  assert.equal(await sdk.search.getDataLoader()?.getIndexedDB().getByOid('p1'), null);
+  sdk.destroy();
+});
+
+test('an archived patient leaves local search and returns when unarchived', async () => {
+  const backend = new FakeTrinityBackend({ patients: seed() });
+  const sdk = createSdk(backend.transport);
+  await sdk.initializeLocalSearch();
+
+  await sdk.utils.archive('p1');
+  assert.deepEqual(await localMatches(sdk, 'asha'), ['p2']);
+
+  await sdk.utils.unarchive('p1');
+  assert.deepEqual(await localMatches(sdk, 'asha'), ['p1', 'p2']);
+  sdk.destroy();
+});
+
+test('a removed mobile no longer matches local phone searches', async () => {
+  const backend = new FakeTrinityBackend({ patients: seed() });
+  const sdk = createSdk(backend.transport);
+  await sdk.initializeLocalSearch();
+
+  await sdk.utils.removeFields('p1', ['mobile']);
+
+  assert.deepEqual(await sdk.search.searchByMobileSuffix('3210'), []);
+  assert.deepEqual(await localMatches(sdk, '98765'), []);
+  sdk.destroy();
+});
+
+test('a removed name part refreshes the stored full name', async () => {
+  const backend = new FakeTrinityBackend({ patients: seed() });
+  const sdk = createSdk(backend.transport);
+  await sdk.initializeLocalSearch();
+
+  await sdk.utils.removeFields('p1', ['ln']);
+
+  assert.deepEqual(await localMatches(sdk, 'rao'), []);
+  assert.deepEqual(await localMatches(sdk, 'asha'), ['p1', 'p2']);
+  sdk.destroy();
+});
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ConflictError, MergeError, ValidationError } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { createSdk, patient } from './helpers';
+
+const survivor = () =>
+  patient('s1', { fn: 'Asha', mn: 'K', ln: 'Rao', fln: 'Asha K Rao', u_ate: 1000, extras: { clinic: 'A' } });
+const duplicate = () =>
+  patient('d1', { fn: 'Asha', ln: 'Rao', fln: 'Asha Rao', mobile: '9876543210', ccd: '+91', u_ate: 2000, extras: { clinic: 'B' } });
+
+test('merge archives the duplicate, updates the survivor and removes emptied fields', async () => {
+  const backend = new FakeTrinityBackend({ patients: [survivor(), duplicate()] });
+  const sdk = createSdk(backend.transport);
+
+  const result = await sdk.patients.merge('s1', 'd1', { default: 'preferNewest' });
+
+  assert.deepEqual(result.remove, ['mn']);
+  assert.deepEqual(
+    backend.requests.filter((request) => request.method === 'PATCH').map((request) => request.path),
+    ['/profiles/v1/patient/d1', '/profiles/v1/patient/s1', '/profiles/v1/patient/s1/remove-fields']
+  );
+  const merged = backend.patients.get('s1')!;
+  assert.equal(merged.mobile, '9876543210');
+  assert.equal(merged.mn, undefined);
+  assert.deepEqual(merged.extras, { clinic: 'B', mergedFrom: ['d1'] });
+  assert.equal(backend.patients.get('d1')?.arc, true);
+  assert.equal(backend.patients.get('d1')?.extras?.mergedInto, 's1');
+  sdk.destroy();
+});
+
+test('merge links survive an extras schema that strips unknown keys', async () => {
+  const backend = new FakeTrinityBackend({ patients: [survivor(), duplicate()] });
+  const sdk = createSdk(backend.transport, {
+    extrasSchema: { parse: (value) => ({ clinic: (value as { clinic?: string }).clinic }) },
+  });
+
+  await sdk.patients.merge('s1', 'd1');
+
+  assert.deepEqual((await sdk.patients.get('s1')).extras?.mergedFrom, ['d1']);
+  assert.equal((await sdk.patients.get('d1')).extras?.mergedInto, 's1');
+  sdk.destroy();
+});
+
+test('a failed survivor update rolls the archive back and names the step', async () => {
+  const backend = new FakeTrinityBackend({ patients: [survivor(), duplicate()] });
+  // Someone edits the survivor between the reads and the merge writes
+  const sdk = createSdk((url, init) => {
+    if (init.method === 'PATCH' && url.endsWith('/s1')) {
+      backend.patients.get('s1')!.u_ate = 3000;
+    }
+    return backend.transport(url, init);
+  });
+
+  const error = await sdk.patients.merge('s1', 'd1').catch((caught: unknown) => caught);
+
+  assert.ok(error instanceof MergeError);
+  assert.equal(error.step, 'updateSurvivor');
+  assert.equal(error.rolledBack, true);
+  assert.ok(error.cause instanceof ConflictError);
+  assert.equal(backend.patients.get('d1')?.arc, false);
+  assert.deepEqual(backend.patients.get('d1')?.extras, { clinic: 'B' });
+  assert.equal(backend.patients.get('s1')?.fln, 'Asha K Rao');
+  sdk.destroy();
+});
+
+test('merging a patient into itself is rejected before any request', async () => {
+  const backend = new FakeTrinityBackend({ patients: [survivor()] });
+  const sdk = createSdk(backend.transport);
+
+  await assert.rejects(sdk.patients.merge('s1', 's1'), ValidationError);
+  assert.equal(backend.requests.length, 0);
+  sdk.destroy();
+});
+
+test('an archived duplicate fails the merge without writing', async () => {
+  const backend = new FakeTrinityBackend({ patients: [survivor(), { ...duplicate(), arc: true }] });
+  const sdk = createSdk(backend.transport);
+
+  const error = await sdk.patients.merge('s1', 'd1').catch((caught: unknown) => caught);
+
+  assert.ok(error instanceof MergeError);
+  assert.equal(error.step, 'archiveDuplicate');
+  assert.equal(backend.requests.filter((request) => request.method === 'PATCH').length, 0);
+  sdk.destroy();
+});
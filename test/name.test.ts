@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { composeFullName, formatDisplayName, mergeNameParts, parseFullName } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { createSdk, patient } from './helpers';
+
+test('full names are split into salutation, first, middle and last name', () => {
+  assert.deepEqual(parseFullName('Dr. Asha Kumari Rao'), { s: 'Dr.', fn: 'Asha', mn: 'Kumari', ln: 'Rao' });
+  assert.deepEqual(parseFullName('  asha   rao '), { fn: 'asha', ln: 'rao' });
+  assert.deepEqual(parseFullName('Miss'), { fn: 'Miss' });
+});
+
+test('initials are normalized and grouped at either end', () => {
+  assert.deepEqual(parseFullName('Smt. S.K. Lakshmi'), { s: 'Smt.', fn: 'S. K.', ln: 'Lakshmi' });
+  assert.deepEqual(parseFullName('A.P.J. Abdul Kalam'), { fn: 'A. P. J.', mn: 'Abdul', ln: 'Kalam' });
+  assert.deepEqual(parseFullName('Ramanathan s r'), { fn: 'Ramanathan', ln: 'S. R.' });
+});
+
+test('the full name is composed without the salutation', () => {
+  assert.equal(composeFullName({ s: 'Dr.', fn: 'Asha', ln: ' Rao ' }), 'Asha Rao');
+  assert.equal(composeFullName({ fn: 'Asha', mn: '', ln: 'Rao' }), 'Asha Rao');
+});
+
+test('a partial name update recomputes the full name from stored parts', () => {
+  const current = { fn: 'Asha', mn: 'Kumari', ln: 'Rao' };
+
+  assert.equal(mergeNameParts(current, { ln: 'Iyer' }), 'Asha Kumari Iyer');
+  assert.equal(mergeNameParts(current, { mn: '' }), 'Asha Rao');
+  assert.equal(mergeNameParts(current, { fln: 'Asha R.' }), 'Asha R.');
+  assert.equal(mergeNameParts(current, {}), undefined);
+});
+
+test('the display name adds the salutation once', () => {
+  assert.equal(formatDisplayName({ s: 'Dr.', fln: 'Asha Rao' }), 'Dr. Asha Rao');
+  assert.equal(formatDisplayName({ s: 'Dr.', fln: 'Dr. Asha Rao' }), 'Dr. Asha Rao');
+  assert.equal(formatDisplayName({ fn: 'Asha', ln: 'Rao' }), 'Asha Rao');
+});
+
+test('creates and name updates send the composed full name', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1', { fn: 'Asha', mn: 'Kumari', ln: 'Rao', fln: 'Asha Kumari Rao' })] });
+  const sdk = createSdk(backend.transport);
+
+  const { oid } = await sdk.patients.create({ gen: 'M', dob: '1985-06-15', s: 'Dr.', fn: 'Ravi', ln: 'Iyer' });
+  await sdk.patients.update('p1', { ln: 'Iyer' });
+
+  assert.equal(backend.patients.get(oid)?.fln, 'Ravi Iyer');
+  assert.equal(backend.patients.get('p1')?.fln, 'Asha Kumari Iyer');
+  sdk.destroy();
+});
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { afterEach, test } from 'node:test';
+import { isProvisionalOid, PendingSyncError, TrinitySDKError, ValidationError } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { createSdk, flakyTransport, patient, setOnline } from './helpers';
+
+afterEach(() => setOnline(true));
+
+test('mutations made offline are replayed in order with the server OID', async () => {
+  const backend = new FakeTrinityBackend();
+  let offline = true;
+  const resolved: [string, string][] = [];
+  const sdk = createSdk(flakyTransport(backend, () => offline), {
+    offline: { enabled: true, autoReplay: false, onOidResolved: (provisionalOid, oid) => resolved.push([provisionalOid, oid]) },
+  });
+  setOnline(false);
+
+  const created = await sdk.patients.create({ gen: 'F', dob: '1990-01-01', fn: 'Asha' });
+  await sdk.patients.update(created.oid, { email: 'asha@example.com' });
+
+  assert.equal(created.queued, true);
+  assert.ok(isProvisionalOid(created.oid));
+  assert.equal(backend.patients.size, 0);
+
+  offline = false;
+  setOnline(true);
+  const result = await sdk.offline!.replay();
+
+  assert.deepEqual(result, { replayed: 2, discarded: 0, remaining: 0 });
+  const [stored] = [...backend.patients.values()];
+  assert.equal(stored.email, 'asha@example.com');
+  assert.deepEqual(resolved, [[created.oid, stored.oid]]);
+  assert.deepEqual(await sdk.offline!.list(), []);
+  sdk.destroy();
+});
+
+test('a transient failure stops the replay and keeps the rest queued', async () => {
+  const backend = new FakeTrinityBackend();
+  let offline = true;
+  const sdk = createSdk(flakyTransport(backend, () => offline), { retry: false, offline: { enabled: true, autoReplay: false } });
+  setOnline(false);
+
+  const created = await sdk.patients.create({ gen: 'F', dob: '1990-01-01', fn: 'Asha' });
+  await sdk.patients.update(created.oid, { email: 'asha@example.com' });
+
+  offline = false;
+  setOnline(true);
+  backend.failNext(503);
+  const result = await sdk.offline!.replay();
+
+  assert.deepEqual(result, { replayed: 0, discarded: 0, remaining: 2 });
+  const [first] = await sdk.offline!.list();
+  assert.equal(first.attempts, 1);
+  assert.deepEqual(await sdk.offline!.replay(), { replayed: 2, discarded: 0, remaining: 0 });
+  sdk.destroy();
+});
+
+test('a rejected mutation is passed to onConflict and discarded', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')] });
+  let offline = true;
+  const conflicts: TrinitySDKError[] = [];
+  const sdk = createSdk(flakyTransport(backend, () => offline), {
+    offline: {
+      enabled: true,
+      autoReplay: false,
+      onConflict: (_mutation, error) => {
+        conflicts.push(error);
+        return 'discard';
+      },
+    },
+  });
+  setOnline(false);
+
+  await sdk.patients.update('p1', { email: 'not-an-email' });
+
+  offline = false;
+  setOnline(true);
+  backend.failNext(400, { email: ['Enter a valid email address.'] });
+  const result = await sdk.offline!.replay();
+
+  assert.deepEqual(result, { replayed: 0, discarded: 1, remaining: 0 });
+  assert.equal(conflicts.length, 1);
+  assert.ok(conflicts[0] instanceof ValidationError);
+  sdk.destroy();
+});
+
+test('cancelling a queued create drops its queued updates', async () => {
+  const backend = new FakeTrinityBackend();
+  const sdk = createSdk(flakyTransport(backend, () => true), { offline: { enabled: true, autoReplay: false } });
+  setOnline(false);
+
+  const created = await sdk.patients.create({ gen: 'F', dob: '1990-01-01', fn: 'Asha' });
+  await sdk.patients.update(created.oid, { email: 'asha@example.com' });
+  const [queuedCreate] = await sdk.offline!.list();
+
+  await sdk.offline!.cancel(queuedCreate.id);
+
+  assert.deepEqual(await sdk.offline!.list(), []);
+  sdk.destroy();
+});
+
+test('operations that need the server record reject provisional OIDs', async () => {
+  const backend = new FakeTrinityBackend();
+  const sdk = createSdk(flakyTransport(backend, () => true), { offline: { enabled: true, autoReplay: false } });
+  setOnline(false);
+
+  const created = await sdk.patients.create({ gen: 'F', dob: '1990-01-01', fn: 'Asha' });
+
+  await assert.rejects(sdk.patients.update(created.oid, { fn: 'Usha' }, { expectedUpdatedAt: 1 }), PendingSyncError);
+  await assert.rejects(sdk.utils.archive(created.oid), PendingSyncError);
+  assert.deepEqual(await sdk.patients.delete(created.oid), { message: 'Queued creation cancelled' });
+  assert.deepEqual(await sdk.offline!.list(), []);
+  sdk.destroy();
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { toValidationError, validateCreatePatientData, validateUpdatePatientData } from '../src';
+
+const referenceDate = new Date(2026, 0, 15);
+
+test('a create needs gen, dob and a name', () => {
+  const result = validateCreatePatientData({} as never, { referenceDate });
+
+  assert.equal(result.isValid, false);
+  assert.deepEqual(result.issues.map((issue) => [issue.field, issue.code]), [
+    ['gen', 'required'],
+    ['dob', 'required'],
+    ['non_field', 'name_required'],
+  ]);
+});
+
+test('dates of birth are checked against the reference date', () => {
+  const future = validateCreatePatientData({ gen: 'F', dob: '2026-02-01', fn: 'Asha' }, { referenceDate });
+  const unusual = validateCreatePatientData({ gen: 'F', dob: '1920-01-01', fn: 'Asha' }, { referenceDate });
+  const invalid = validateCreatePatientData({ gen: 'F', dob: '1990-02-30', fn: 'Asha' }, { referenceDate });
+
+  assert.equal(future.errors.dob?.[0].code, 'dob_in_future');
+  assert.equal(unusual.isValid, true);
+  assert.equal(unusual.errors.dob?.[0].severity, 'warning');
+  assert.equal(invalid.errors.dob?.[0].code, 'invalid_date');
+});
+
+test('mobiles follow the rule for the patient country code', () => {
+  const indian = validateUpdatePatientData({ mobile: '5876543210' });
+  const singapore = validateUpdatePatientData({ mobile: '81234567', ccd: '+65' });
+  const defaulted = validateUpdatePatientData({ mobile: '81234567' }, { defaultCountryCode: '+65' });
+
+  assert.equal(indian.errors.mobile?.[0].code, 'invalid_mobile');
+  assert.equal(singapore.isValid, true);
+  assert.equal(defaulted.isValid, true);
+});
+
+test('warnings do not fail validation', () => {
+  const result = validateUpdatePatientData({ fn: 'Asha2' });
+
+  assert.equal(result.isValid, true);
+  assert.equal(result.errors.fn?.[0].code, 'name_has_digits');
+});
+
+test('only errors are carried into the ValidationError', () => {
+  const result = validateUpdatePatientData({ fn: 'Asha2', email: 'asha', bg: 'C+' as never });
+
+  const error = toValidationError(result);
+
+  assert.deepEqual(error.fieldErrors, {
+    email: ['email must be a valid email address'],
+    bg: ['bg must be a valid blood group (A+, A-, B+, B-, AB+, AB-, O+, O-)'],
+  });
+});
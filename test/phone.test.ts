@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { matchesLastDigits, parsePhoneNumber, toE164, toE164Prefix } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { createSdk, patient } from './helpers';
+
+test('numbers typed in common formats reduce to the same E.164 number', () => {
+  const inputs = ['+91 98765 43210', '0091 9876543210', '098765-43210', '919876543210', '(98765) 43210'];
+
+  assert.deepEqual(
+    inputs.map((input) => parsePhoneNumber(input)?.e164),
+    inputs.map(() => '+919876543210')
+  );
+  assert.deepEqual(parsePhoneNumber('+65 8123 4567'), {
+    countryCode: '+65',
+    nationalNumber: '81234567',
+    e164: '+6581234567',
+    hasCountryCode: true,
+  });
+});
+
+test('non-numbers and unknown country codes are not parsed', () => {
+  assert.equal(parsePhoneNumber('asha'), null);
+  assert.equal(parsePhoneNumber('+999 1234'), null);
+  assert.equal(parsePhoneNumber('+91'), null);
+});
+
+test('stored mobile and ccd pairs and partial queries map to E.164', () => {
+  assert.equal(toE164('9876543210'), '+919876543210');
+  assert.equal(toE164('81234567', '+65'), '+6581234567');
+  assert.equal(toE164(undefined), undefined);
+  assert.equal(toE164Prefix('98765'), '+9198765');
+  assert.equal(toE164Prefix('+44 7700'), '+447700');
+  assert.equal(toE164Prefix('asha'), null);
+});
+
+test('the last digits match whatever the stored format', () => {
+  assert.equal(matchesLastDigits('+91 98765 43210', '3210'), true);
+  assert.equal(matchesLastDigits('9876543210', '32-10'), true);
+  assert.equal(matchesLastDigits('9876543210', '1234'), false);
+  assert.equal(matchesLastDigits(undefined, '3210'), false);
+});
+
+test('creates store the national number with its country code and lookups send the national number', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1', { mobile: '9876543210', ccd: '+91' })] });
+  const sdk = createSdk(backend.transport);
+
+  const { oid } = await sdk.patients.create({ gen: 'F', dob: '1990-01-01', fn: 'Mei', mobile: '+65 8123 4567' });
+  const found = await sdk.search.getByMobile('+91 98765-43210');
+
+  assert.equal(backend.patients.get(oid)?.mobile, '81234567');
+  assert.equal(backend.patients.get(oid)?.ccd, '+65');
+  assert.equal(backend.requests[1].params.mob, '9876543210');
+  assert.deepEqual(found.map((entry) => entry.oid), ['p1']);
+  sdk.destroy();
+});
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { RateLimitError, ServerError, ValidationError } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { RetryAttempt } from '../src/types';
+import { createSdk, patient } from './helpers';
+
+test('retries a transient server error and returns the response', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')] });
+  const sdk = createSdk(backend.transport);
+  backend.failNext(503);
+
+  const fetched = await sdk.patients.get('p1');
+
+  assert.equal(fetched.oid, 'p1');
+  assert.equal(backend.requests.length, 2);
+  sdk.destroy();
+});
+
+test('gives up after maxAttempts and reports each retry to onRetry', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')] });
+  const retries: RetryAttempt[] = [];
+  const sdk = createSdk(backend.transport, {
+    retry: { maxAttempts: 3, baseDelay: 1, jitter: false, onRetry: (attempt) => retries.push(attempt) },
+  });
+  backend.failNext(500);
+  backend.failNext(502);
+  backend.failNext(500);
+
+  await assert.rejects(sdk.patients.get('p1'), ServerError);
+  assert.equal(backend.requests.length, 3);
+  assert.deepEqual(retries.map(({ attempt, delay, method }) => [attempt, delay, method]), [
+    [1, 1, 'GET'],
+    [2, 2, 'GET'],
+  ]);
+  sdk.destroy();
+});
+
+test('waits for Retry-After instead of the backoff delay', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')] });
+  const delays: number[] = [];
+  const sdk = createSdk(backend.transport, {
+    retry: { baseDelay: 1, jitter: false, onRetry: ({ delay }) => delays.push(delay) },
+  });
+  backend.failNext(429, { error: 'Slow down' }, { 'Retry-After': '0.02' });
+
+  await sdk.patients.get('p1');
+
+  assert.deepEqual(delays, [20]);
+  sdk.destroy();
+});
+
+test('fails at once when Retry-After exceeds maxRetryAfter', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')] });
+  const sdk = createSdk(backend.transport, { retry: { maxRetryAfter: 1000 } });
+  backend.failNext(429, { error: 'Slow down' }, { 'Retry-After': '120' });
+
+  const error = await sdk.patients.get('p1').catch((caught: unknown) => caught);
+
+  assert.ok(error instanceof RateLimitError);
+  assert.equal(error.retryAfter, 120000);
+  assert.equal(backend.requests.length, 1);
+  sdk.destroy();
+});
+
+test('does not retry a rejected request', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')] });
+  const sdk = createSdk(backend.transport);
+  backend.failNext(400, { dob: ['Enter a valid date.'] });
+
+  await assert.rejects(sdk.patients.get('p1'), ValidationError);
+  assert.equal(backend.requests.length, 1);
+  sdk.destroy();
+});
+
+test('does not retry non-idempotent updates', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')] });
+  const sdk = createSdk(backend.transport);
+  backend.failNext(503);
+
+  await assert.rejects(sdk.patients.update('p1', { email: 'asha@example.com' }), ServerError);
+  assert.equal(backend.requests.length, 1);
+  sdk.destroy();
+});
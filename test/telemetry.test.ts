@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createSpanTelemetry, SpanLike, TelemetryEvent } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { createSdk, patient } from './helpers';
+
+test('every HTTP attempt is reported with its status and attempt number', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')] });
+  const events: TelemetryEvent[] = [];
+  const sdk = createSdk(backend.transport, { telemetry: { emit: (event) => events.push(event) } });
+  backend.failNext(503);
+
+  await sdk.patients.get('p1');
+
+  const requests = events.filter((event) => event.type === 'http.request');
+  assert.deepEqual(
+    requests.map((event) => event.type === 'http.request' && [event.method, event.path, event.status, event.attempt, event.error]),
+    [
+      ['GET', '/profiles/v1/patient/p1', 503, 1, 'ServerError'],
+      ['GET', '/profiles/v1/patient/p1', 200, 2, undefined],
+    ]
+  );
+  sdk.destroy();
+});
+
+test('an API search is reported without the prefix', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1', { fn: 'Asha', fln: 'Asha Rao' })] });
+  const events: TelemetryEvent[] = [];
+  const sdk = createSdk(backend.transport, { telemetry: { emit: (event) => events.push(event) } });
+
+  await sdk.search.search({ prefix: 'Ash' }, true);
+
+  const search = events.find((event) => event.type === 'search');
+  assert.ok(search && search.type === 'search');
+  assert.equal(search.source, 'api');
+  assert.equal(search.fallbackReason, 'forced');
+  assert.equal(search.prefixLength, 3);
+  assert.equal(search.resultCount, 1);
+  assert.ok(!JSON.stringify(search).includes('Ash'));
+  sdk.destroy();
+});
+
+test('a failing sink does not affect the call', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')] });
+  const warn = console.warn;
+  console.warn = () => undefined;
+  const sdk = createSdk(backend.transport, {
+    telemetry: {
+      emit: () => {
+        throw new Error('sink down');
+      },
+    },
+  });
+
+  try {
+    assert.equal((await sdk.patients.get('p1')).oid, 'p1');
+  } finally {
+    console.warn = warn;
+    sdk.destroy();
+  }
+});
+
+interface RecordedSpan {
+  name: string;
+  attributes: Record<string, unknown>;
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+test('span telemetry records attributes and an error status', () => {
+  const spans: RecordedSpan[] = [];
+  const sink = createSpanTelemetry({
+    startSpan: (name) => {
+      const record: RecordedSpan = { name, attributes: {}, ended: false };
+      spans.push(record);
+      const span: SpanLike = {
+        setAttribute: (key, value) => {
+          record.attributes[key] = value;
+        },
+        setStatus: (status) => {
+          record.status = status;
+        },
+        end: () => {
+          record.ended = true;
+        },
+      };
+      return span;
+    },
+  });
+
+  sink.emit({ type: 'http.request', method: 'GET', path: '/x', status: 0, attempt: 1, durationMs: 5, error: 'NetworkError' });
+
+  assert.equal(spans[0].name, 'trinity.http.request');
+  assert.equal(spans[0].attributes['trinity.method'], 'GET');
+  assert.equal(spans[0].attributes['trinity.attempt'], 1);
+  assert.deepEqual(spans[0].status, { code: 2, message: 'NetworkError' });
+  assert.ok(spans[0].ended);
+});
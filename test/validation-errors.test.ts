@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseValidationErrors, ValidationError } from '../src';
+import { FakeTrinityBackend } from '../src/testing';
+import { createSdk, patient } from './helpers';
+
+test('field messages are keyed by patient field and the rest are non-field errors', () => {
+  const parsed = parseValidationErrors({
+    dob: ['Enter a valid date.'],
+    mobile: 'Enter a valid phone number.',
+    non_field_errors: ['Patient already exists.'],
+    clinic: ['Unknown clinic.'],
+  });
+
+  assert.deepEqual(parsed.fieldErrors, {
+    dob: ['Enter a valid date.'],
+    mobile: ['Enter a valid phone number.'],
+  });
+  assert.deepEqual(parsed.nonFieldErrors, ['Patient already exists.', 'clinic: Unknown clinic.']);
+});
+
+test('wrapped and nested payloads are flattened onto their top-level field', () => {
+  const parsed = parseValidationErrors({
+    errors: { extras: { clinic_code: ['Required.'] } },
+    detail: 'Invalid input.',
+  });
+
+  assert.deepEqual(parsed.fieldErrors, { extras: ['clinic_code: Required.'] });
+  assert.deepEqual(parsed.validationErrors['extras.clinic_code'], ['Required.']);
+  assert.deepEqual(parsed.nonFieldErrors, ['Invalid input.']);
+});
+
+test('a plain string payload is a non-field error', () => {
+  assert.deepEqual(parseValidationErrors('Bad request').nonFieldErrors, ['Bad request']);
+});
+
+test('a 400 response becomes a ValidationError with field errors and a summary message', async () => {
+  const backend = new FakeTrinityBackend({ patients: [patient('p1')] });
+  const sdk = createSdk(backend.transport);
+  backend.failNext(400, { email: ['Enter a valid email address.'] });
+
+  const error = await sdk.patients.update('p1', { email: 'asha' }).catch((caught: unknown) => caught);
+
+  assert.ok(error instanceof ValidationError);
+  assert.deepEqual(error.fieldErrors, { email: ['Enter a valid email address.'] });
+  assert.equal(error.message, 'email: Enter a valid email address.');
+  assert.equal(backend.requests.length, 1);
+  sdk.destroy();
+});